@@ -1,11 +1,23 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { TeamModule } from './domains/team/team.module';
 import { ExpenseModule } from './domains/expense/expense.module';
+import { PayoutModule } from './domains/payout/payout.module';
+import { RateModule } from './domains/rate/rate.module';
+import { TaxModule } from './domains/tax/tax.module';
+import { AuditModule } from './domains/audit/audit.module';
+import { ExpenseReportModule } from './domains/expense-report/expense-report.module';
+import { UserModule } from './domains/user/user.module';
+import { AuthModule } from './domains/auth/auth.module';
+import { JwtAuthGuard } from './domains/auth/guards/jwt-auth.guard';
+import { RolesGuard } from './domains/auth/guards/roles.guard';
+import { TeamRolesGuard } from './domains/auth/guards/team-roles.guard';
 import configuration from './shared/config/configuration';
+import { validateEnvironment } from './shared/config/environment.validation';
+import { RequestContextMiddleware } from './shared/context';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { APP_GUARD } from '@nestjs/core';
@@ -25,6 +37,7 @@ import { CacheModule } from '@nestjs/cache-manager';
     ConfigModule.forRoot({
       isGlobal: true,
       load: [configuration],
+      validate: validateEnvironment,
     }),
     MongooseModule.forRootAsync({
       imports: [ConfigModule],
@@ -34,8 +47,15 @@ import { CacheModule } from '@nestjs/cache-manager';
       }),
       inject: [ConfigService],
     }),
+    UserModule,
+    AuthModule,
     TeamModule,
     ExpenseModule,
+    ExpenseReportModule,
+    PayoutModule,
+    RateModule,
+    TaxModule,
+    AuditModule,
   ],
   controllers: [AppController],
   providers: [
@@ -43,7 +63,23 @@ import { CacheModule } from '@nestjs/cache-manager';
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: JwtAuthGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: TeamRolesGuard,
+    },
     AppService
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestContextMiddleware).forRoutes('*');
+  }
+}
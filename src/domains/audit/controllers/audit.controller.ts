@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Query,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { AuditService } from '../services/audit.service';
+import { AuditLogQueryDto } from '../dto/audit.dto';
+import { Roles } from '@shared/decorators';
+import { UserRole } from '@shared/lib';
+
+@ApiTags('Audit')
+@ApiBearerAuth()
+@Roles(UserRole.ADMIN)
+@ApiForbiddenResponse({
+  description: 'Only system admins can read the audit log',
+})
+@Controller('audit-logs')
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search the audit log',
+    description:
+      'Returns changes to expenses and teams, the most recent first, with who made them, the fields that changed and the request they were made in.',
+  })
+  @ApiOkResponse({
+    description: 'Audit log entries retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        entries: [
+          {
+            _id: '507f1f77bcf86cd799439070',
+            entityType: 'team',
+            entityId: '507f1f77bcf86cd799439011',
+            action: 'update',
+            operation: 'team.update',
+            actor: {
+              user: '507f1f77bcf86cd799439013',
+              name: 'Jane Smith',
+              email: 'jane.smith@company.com',
+            },
+            changes: [{ field: 'budget', before: 50000, after: 65000 }],
+            request: {
+              requestId: '0b6f4c1e-8f3a-4b7e-9d1a-2c5e7f9a1b3d',
+              method: 'PATCH',
+              path: '/api/teams/507f1f77bcf86cd799439011',
+              ip: '203.0.113.7',
+              userAgent: 'Mozilla/5.0',
+            },
+            createdAt: '2024-01-20T14:30:00.000Z',
+          },
+        ],
+        pagination: { total: 1, page: 1, limit: 50, pages: 1 },
+      },
+    },
+  })
+  async findAll(@Query() query: AuditLogQueryDto) {
+    try {
+      const result = await this.auditService.findAll(query);
+      return {
+        success: true,
+        entries: result.entries,
+        pagination: result.pagination,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching audit log: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch audit log',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAction, AuditEntityType } from '@shared/lib';
+
+export class AuditLogQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only changes to this kind of entity',
+    enum: AuditEntityType,
+  })
+  @IsOptional()
+  @IsEnum(AuditEntityType)
+  entityType?: AuditEntityType;
+
+  @ApiPropertyOptional({
+    description: 'Only changes to this entity',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  entityId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only changes of this kind',
+    enum: AuditAction,
+  })
+  @IsOptional()
+  @IsEnum(AuditAction)
+  action?: AuditAction;
+
+  @ApiPropertyOptional({
+    description: 'Only changes made by this user',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsOptional()
+  @IsMongoId()
+  actor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only changes made by the user with this email',
+    example: 'jane.smith@company.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  actorEmail?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only changes made at or after this time',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only changes made at or before this time',
+    example: '2024-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number',
+    example: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of entries per page',
+    example: 50,
+    default: 50,
+    maximum: 200,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
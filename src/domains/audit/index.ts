@@ -0,0 +1,3 @@
+export { AuditModule } from './audit.module';
+export { AuditController } from './controllers/audit.controller';
+export { AuditService } from './services/audit.service';
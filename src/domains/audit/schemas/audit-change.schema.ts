@@ -0,0 +1,18 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { SchemaTypes } from 'mongoose';
+
+// Value of one field before and after a change, null when absent
+@Schema({ _id: false })
+export class AuditChangeSchema {
+  @Prop({ required: true })
+  field: string;
+
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  before: unknown;
+
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  after: unknown;
+}
+
+export const AuditChangeSchemaFactory =
+  SchemaFactory.createForClass(AuditChangeSchema);
@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { AuditAction, AuditEntityType } from '@shared/lib';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+import { AuditChangeSchema } from './audit-change.schema';
+import { RequestMetadataSchema } from './request-metadata.schema';
+
+export type AuditLogDocument = AuditLog & Document;
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditLog {
+  @Prop({ enum: AuditEntityType, required: true })
+  entityType: AuditEntityType;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ enum: AuditAction, required: true })
+  action: AuditAction;
+
+  // Operation that made the change, e.g. expense.bulk-approve
+  @Prop({ required: true })
+  operation: string;
+
+  // Null for changes made by the system, e.g. the recurring expense scheduler
+  @Prop({ type: SubmitterSchema, default: null })
+  actor: SubmitterSchema | null;
+
+  @Prop({ type: [AuditChangeSchema], default: [] })
+  changes: AuditChangeSchema[];
+
+  @Prop({ type: RequestMetadataSchema, default: null })
+  request: RequestMetadataSchema | null;
+
+  createdAt: Date;
+}
+
+export const AuditLogSchema = SchemaFactory.createForClass(AuditLog);
+
+AuditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ 'actor.user': 1, createdAt: -1 });
+AuditLogSchema.index({ createdAt: -1 });
+
+// The log is append-only: entries can be added but never changed or removed
+const APPEND_ONLY_ERROR = 'Audit log entries cannot be changed or deleted';
+AuditLogSchema.pre('save', function () {
+  if (!this.isNew) {
+    throw new Error(APPEND_ONLY_ERROR);
+  }
+});
+AuditLogSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'replaceOne',
+    'findOneAndUpdate',
+    'findOneAndReplace',
+    'findOneAndDelete',
+    'deleteOne',
+    'deleteMany',
+  ],
+  function () {
+    throw new Error(APPEND_ONLY_ERROR);
+  },
+);
@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// HTTP request a change was made in
+@Schema({ _id: false })
+export class RequestMetadataSchema {
+  @Prop({ required: true })
+  requestId: string;
+
+  @Prop({ required: true })
+  method: string;
+
+  @Prop({ required: true })
+  path: string;
+
+  @Prop()
+  ip?: string;
+
+  @Prop()
+  userAgent?: string;
+}
+
+export const RequestMetadataSchemaFactory = SchemaFactory.createForClass(
+  RequestMetadataSchema,
+);
@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
+import { AuditLog, AuditLogDocument } from '../schemas/audit-log.schema';
+import { AuditChangeSchema } from '../schemas/audit-change.schema';
+import { AuditLogQueryDto } from '../dto/audit.dto';
+import { AuditAction, AuditEntityType, AuthenticatedUser } from '@shared/lib';
+import { RequestContext } from '@shared/context';
+
+export type AuditEntry = {
+  entityType: AuditEntityType;
+  entityId: Types.ObjectId | string;
+  action: AuditAction;
+  operation: string;
+  // Plain snapshots of the entity; only fields that differ are recorded
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  // Defaults to the authenticated user of the current request, null for the system
+  actor?: Pick<AuthenticatedUser, 'userId' | 'name' | 'email'> | null;
+};
+
+// Bookkeeping fields, and histories that repeat the change itself
+const IGNORED_FIELDS = new Set([
+  '_id',
+  '__v',
+  'id',
+  'createdAt',
+  'updatedAt',
+  'statusHistory',
+  'amountEdits',
+]);
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectModel(AuditLog.name) private auditLogModel: Model<AuditLogDocument>,
+  ) {}
+
+  async record(entry: AuditEntry, session?: ClientSession): Promise<void> {
+    await this.recordMany([entry], session);
+  }
+
+  /**
+   * Appends entries to the audit log with the metadata of the current
+   * request. Updates that change nothing are skipped. Without a session the
+   * change itself is already saved, so a failure is logged rather than
+   * thrown. With the session of the change's transaction, a failure is thrown
+   * so that the change is rolled back with its entries.
+   */
+  async recordMany(
+    entries: AuditEntry[],
+    session?: ClientSession,
+  ): Promise<void> {
+    const request = RequestContext.metadata() ?? null;
+    const requestUser = RequestContext.user();
+
+    const logs = entries
+      .map((entry) => {
+        const actor =
+          entry.actor === undefined ? requestUser : (entry.actor ?? undefined);
+        return {
+          entityType: entry.entityType,
+          entityId: new Types.ObjectId(String(entry.entityId)),
+          action: entry.action,
+          operation: entry.operation,
+          actor: actor
+            ? {
+                user: new Types.ObjectId(actor.userId),
+                name: actor.name,
+                email: actor.email,
+              }
+            : null,
+          changes: this.diff(entry.before, entry.after),
+          request,
+        };
+      })
+      .filter(
+        (log) => log.action !== AuditAction.UPDATE || log.changes.length > 0,
+      );
+    if (logs.length === 0) {
+      return;
+    }
+
+    if (session) {
+      await this.auditLogModel.insertMany(logs, { session });
+      return;
+    }
+    try {
+      await this.auditLogModel.insertMany(logs);
+    } catch (error) {
+      this.logger.error(
+        `Error recording ${logs.length} audit entries (${logs[0].operation}): ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  async findAll(
+    query: AuditLogQueryDto,
+  ): Promise<{ entries: AuditLogDocument[]; pagination: any }> {
+    const filter: any = {};
+    if (query.entityType) filter.entityType = query.entityType;
+    if (query.entityId) filter.entityId = new Types.ObjectId(query.entityId);
+    if (query.action) filter.action = query.action;
+    if (query.actor) filter['actor.user'] = new Types.ObjectId(query.actor);
+    if (query.actorEmail)
+      filter['actor.email'] = query.actorEmail.toLowerCase();
+    if (query.from || query.to) {
+      filter.createdAt = {};
+      if (query.from) filter.createdAt.$gte = new Date(query.from);
+      if (query.to) filter.createdAt.$lte = new Date(query.to);
+    }
+
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const [entries, total] = await Promise.all([
+      this.auditLogModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.auditLogModel.countDocuments(filter),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // Every entry of one entity, oldest first
+  async findForEntity(
+    entityType: AuditEntityType,
+    entityId: Types.ObjectId | string,
+  ): Promise<AuditLogDocument[]> {
+    return this.auditLogModel
+      .find({ entityType, entityId: new Types.ObjectId(String(entityId)) })
+      .sort({ createdAt: 1, _id: 1 })
+      .exec();
+  }
+
+  // Top-level fields whose JSON value differs between the two snapshots
+  private diff(
+    before?: Record<string, any> | null,
+    after?: Record<string, any> | null,
+  ): AuditChangeSchema[] {
+    const plainBefore = this.toPlain(before);
+    const plainAfter = this.toPlain(after);
+    const fields = new Set([
+      ...Object.keys(plainBefore),
+      ...Object.keys(plainAfter),
+    ]);
+
+    const changes: AuditChangeSchema[] = [];
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      const from = plainBefore[field] ?? null;
+      const to = plainAfter[field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({ field, before: from, after: to });
+      }
+    }
+    return changes;
+  }
+
+  // ObjectIds become strings and dates ISO strings, as they are shown in the API
+  private toPlain(snapshot?: Record<string, any> | null): Record<string, any> {
+    return snapshot ? JSON.parse(JSON.stringify(snapshot)) : {};
+  }
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PassportModule } from '@nestjs/passport';
+import { AuthController } from './controllers/auth.controller';
+import { AuthService } from './services/auth.service';
+import { TeamAccessService } from './services/team-access.service';
+import { JwtStrategy } from './strategies/jwt.strategy';
+import { UserModule } from '../user/user.module';
+import { Team, TeamSchema } from '../team/schemas/team.schema';
+import { Expense, ExpenseSchema } from '../expense/schemas/expense.schema';
+import { EmailService } from '@shared/services/email.service';
+
+@Module({
+  imports: [
+    UserModule,
+    PassportModule,
+    MongooseModule.forFeature([
+      { name: Team.name, schema: TeamSchema },
+      { name: Expense.name, schema: ExpenseSchema },
+    ]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: async (configService: ConfigService) => ({
+        secret: configService.get<string>('jwt.secret'),
+        signOptions: {
+          expiresIn: configService.get<string>('jwt.expiresIn'),
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, TeamAccessService, JwtStrategy, EmailService],
+  exports: [AuthService, TeamAccessService],
+})
+export class AuthModule {}
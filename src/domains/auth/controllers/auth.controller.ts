@@ -0,0 +1,310 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { AuthService } from '../services/auth.service';
+import { UserService } from '../../user/services/user.service';
+import {
+  RegisterDto,
+  LoginDto,
+  RefreshTokenDto,
+  RequestAccountClaimDto,
+  ClaimAccountDto,
+} from '../dto/auth.dto';
+import { Public, CurrentUser } from '@shared/decorators';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Auth')
+@Controller('auth')
+export class AuthController {
+  private readonly logger = new Logger(AuthController.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly userService: UserService,
+  ) {}
+
+  @Public()
+  @Post('register')
+  @ApiOperation({
+    summary: 'Register a new user',
+    description:
+      'Creates a user account and returns an access/refresh token pair.',
+  })
+  @ApiBody({ type: RegisterDto })
+  @ApiCreatedResponse({
+    description: 'User registered successfully',
+    schema: {
+      example: {
+        success: true,
+        user: {
+          _id: '507f1f77bcf86cd799439011',
+          name: 'John Doe',
+          email: 'john.doe@company.com',
+        },
+        tokens: {
+          accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+          refreshToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+          tokenType: 'Bearer',
+          expiresIn: '7d',
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid input data, email already registered, or an account created from a team membership exists for the email (claim it instead)',
+  })
+  async register(@Body() registerDto: RegisterDto) {
+    try {
+      const { user, tokens } = await this.authService.register(registerDto);
+      return {
+        success: true,
+        user,
+        tokens,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error registering user: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to register user',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Public()
+  @Post('claim/request')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request an account claim link',
+    description:
+      'People added to a team before they registered already have an account without a password. This emails them a link to set it. The response is the same whether or not a link was sent.',
+  })
+  @ApiBody({ type: RequestAccountClaimDto })
+  @ApiOkResponse({
+    description: 'Link sent if the account can be claimed',
+    schema: {
+      example: {
+        success: true,
+        message:
+          'If the account can be claimed, a link was sent to its email address',
+      },
+    },
+  })
+  async requestAccountClaim(@Body() requestDto: RequestAccountClaimDto) {
+    try {
+      await this.authService.requestAccountClaim(requestDto.email);
+      return {
+        success: true,
+        message:
+          'If the account can be claimed, a link was sent to its email address',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error requesting account claim: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to request account claim',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Public()
+  @Post('claim')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Claim an account',
+    description:
+      'Sets the name and password of an account created from a team membership, using the token from the emailed link, and returns an access/refresh token pair. Each link works once.',
+  })
+  @ApiBody({ type: ClaimAccountDto })
+  @ApiOkResponse({ description: 'Account claimed successfully' })
+  @ApiBadRequestResponse({
+    description: 'The account has already been claimed',
+  })
+  @ApiUnauthorizedResponse({ description: 'Invalid or expired claim token' })
+  async claimAccount(@Body() claimAccountDto: ClaimAccountDto) {
+    try {
+      const { user, tokens } =
+        await this.authService.claimAccount(claimAccountDto);
+      return {
+        success: true,
+        user,
+        tokens,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error claiming account: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to claim account',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log in',
+    description:
+      'Validates credentials and returns an access/refresh token pair.',
+  })
+  @ApiBody({ type: LoginDto })
+  @ApiOkResponse({ description: 'Logged in successfully' })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid email or password',
+    schema: {
+      example: {
+        success: false,
+        message: 'Invalid email or password',
+      },
+    },
+  })
+  async login(@Body() loginDto: LoginDto) {
+    try {
+      const { user, tokens } = await this.authService.login(loginDto);
+      return {
+        success: true,
+        user,
+        tokens,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error logging in: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to log in',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh tokens',
+    description:
+      'Exchanges a valid refresh token for a new token pair. The previous refresh token is invalidated.',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiOkResponse({ description: 'Tokens refreshed successfully' })
+  @ApiUnauthorizedResponse({ description: 'Invalid or expired refresh token' })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    try {
+      const tokens = await this.authService.refresh(
+        refreshTokenDto.refreshToken,
+      );
+      return {
+        success: true,
+        tokens,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error refreshing tokens: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to refresh tokens',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out',
+    description:
+      'Revokes the current refresh token. Access tokens remain valid until they expire.',
+  })
+  @ApiOkResponse({ description: 'Logged out successfully' })
+  async logout(@CurrentUser() user: AuthenticatedUser) {
+    await this.authService.logout(user.userId);
+    return {
+      success: true,
+      message: 'Logged out successfully',
+    };
+  }
+
+  @Get('me')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get current user',
+    description: 'Returns the profile of the authenticated user.',
+  })
+  @ApiOkResponse({ description: 'User retrieved successfully' })
+  @ApiUnauthorizedResponse({ description: 'Missing or invalid access token' })
+  async me(@CurrentUser() user: AuthenticatedUser) {
+    try {
+      const profile = await this.userService.findById(user.userId);
+      return {
+        success: true,
+        user: profile,
+      };
+    } catch (error) {
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to fetch user',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
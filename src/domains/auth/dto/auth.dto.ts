@@ -0,0 +1,122 @@
+import { IsString, IsEmail, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RegisterDto {
+  @ApiProperty({
+    description: 'Full name of the user',
+    example: 'John Doe',
+    maxLength: 100,
+  })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Email address used to sign in',
+    example: 'john.doe@company.com',
+    format: 'email',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Account password (at least 8 characters)',
+    example: 'S3cure-passw0rd',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(72)
+  password: string;
+}
+
+export class LoginDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'john.doe@company.com',
+    format: 'email',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Account password',
+    example: 'S3cure-passw0rd',
+  })
+  @IsString()
+  password: string;
+}
+
+export class RequestAccountClaimDto {
+  @ApiProperty({
+    description:
+      'Email address the account was created for when it was added to a team',
+    example: 'john.doe@company.com',
+    format: 'email',
+  })
+  @IsEmail()
+  email: string;
+}
+
+export class ClaimAccountDto {
+  @ApiProperty({
+    description: 'Token from the link sent to the email address',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description: 'Full name of the user',
+    example: 'John Doe',
+    maxLength: 100,
+  })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Account password (at least 8 characters)',
+    example: 'S3cure-passw0rd',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(72)
+  password: string;
+}
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token issued at login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  refreshToken: string;
+}
+
+export class AuthTokensDto {
+  @ApiProperty({
+    description: 'Short-lived JWT used in the Authorization header',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  accessToken: string;
+
+  @ApiProperty({
+    description: 'Long-lived JWT used to obtain a new access token',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  refreshToken: string;
+
+  @ApiProperty({
+    description: 'Token type to use in the Authorization header',
+    example: 'Bearer',
+  })
+  tokenType: 'Bearer';
+
+  @ApiProperty({
+    description: 'Access token lifetime',
+    example: '7d',
+  })
+  expiresIn: string;
+}
@@ -0,0 +1,39 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '@shared/decorators';
+import { AuthenticatedUser, UserRole } from '@shared/lib';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const user: AuthenticatedUser | undefined = context
+      .switchToHttp()
+      .getRequest().user;
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+    if (!roles.includes(user.role)) {
+      throw new ForbiddenException(
+        `This action requires one of the roles: ${roles.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
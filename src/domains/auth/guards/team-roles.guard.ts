@@ -0,0 +1,52 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { TEAM_ROLES_KEY, TeamRolesOptions } from '@shared/decorators';
+import { AuthenticatedUser } from '@shared/lib';
+import { TeamAccessService } from '../services/team-access.service';
+
+@Injectable()
+export class TeamRolesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private teamAccessService: TeamAccessService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<TeamRolesOptions>(
+      TEAM_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user: AuthenticatedUser | undefined = request.user;
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+    if (options.bypassRoles?.includes(user.role)) {
+      return true;
+    }
+
+    const teamGroups = await this.teamAccessService.resolveTeamGroups(
+      options.scope,
+      request,
+    );
+    for (const teamIds of teamGroups) {
+      await this.teamAccessService.assertAnyTeamRole(
+        teamIds,
+        user,
+        options.roles,
+        options.reason,
+      );
+    }
+
+    return true;
+  }
+}
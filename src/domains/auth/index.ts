@@ -0,0 +1,7 @@
+export { AuthModule } from './auth.module';
+export { AuthController } from './controllers/auth.controller';
+export { AuthService } from './services/auth.service';
+export { TeamAccessService } from './services/team-access.service';
+export { JwtAuthGuard } from './guards/jwt-auth.guard';
+export { RolesGuard } from './guards/roles.guard';
+export { TeamRolesGuard } from './guards/team-roles.guard';
@@ -0,0 +1,224 @@
+import {
+  Injectable,
+  BadRequestException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcryptjs';
+import { createHash, randomUUID } from 'crypto';
+import {
+  AccountClaimTokenPayload,
+  AuthTokens,
+  JwtPayload,
+  UserRole,
+} from '@shared/lib';
+import { UserService } from '../../user/services/user.service';
+import { UserDocument } from '../../user/schemas/user.schema';
+import { EmailService } from '../../../shared/services/email.service';
+import { ClaimAccountDto, LoginDto, RegisterDto } from '../dto/auth.dto';
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly SALT_ROUNDS = 10;
+
+  constructor(
+    private userService: UserService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private emailService: EmailService,
+  ) {}
+
+  async register(
+    registerDto: RegisterDto,
+  ): Promise<{ user: UserDocument; tokens: AuthTokens }> {
+    const existingUser = await this.userService.findByEmail(
+      registerDto.email,
+      true,
+    );
+    if (existingUser?.password) {
+      throw new BadRequestException('Email already registered');
+    }
+    // Accounts created from team memberships are claimed through a link sent to the address
+    if (existingUser) {
+      throw new BadRequestException(
+        'An account already exists for this email, request a link to set its password',
+      );
+    }
+
+    const password = await bcrypt.hash(registerDto.password, this.SALT_ROUNDS);
+    const role = this.resolveRole(registerDto.email);
+    const user = await this.userService.create({
+      ...registerDto,
+      password,
+      role,
+    });
+    this.logger.log(`Registered user ${user.email}`);
+
+    const tokens = await this.issueTokens(user);
+    return { user, tokens };
+  }
+
+  /**
+   * Emails a link to set the password of an account created from a team
+   * membership. Nothing is sent for unknown or already claimed addresses,
+   * and the caller is not told which.
+   */
+  async requestAccountClaim(email: string): Promise<void> {
+    const user = await this.userService.findByEmail(email, true);
+    if (!user || user.password) {
+      return;
+    }
+
+    const payload: AccountClaimTokenPayload = {
+      sub: String(user._id),
+      email: user.email,
+      purpose: 'account-claim',
+    };
+    const expiresInHours = this.getClaimExpiresInHours();
+    const token = await this.jwtService.signAsync(payload, {
+      secret: this.configService.get<string>('accountClaims.secret'),
+      expiresIn: `${expiresInHours}h`,
+    });
+    const claimUrl = `${this.configService.get<string>('appUrl')}/claim-account?token=${encodeURIComponent(token)}`;
+    await this.emailService.sendAccountClaim(user, claimUrl, expiresInHours);
+    this.logger.log(`Account claim link sent to ${user.email}`);
+  }
+
+  async claimAccount(
+    claimAccountDto: ClaimAccountDto,
+  ): Promise<{ user: UserDocument; tokens: AuthTokens }> {
+    let payload: AccountClaimTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<AccountClaimTokenPayload>(
+        claimAccountDto.token,
+        { secret: this.configService.get<string>('accountClaims.secret') },
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid or expired claim token');
+    }
+    if (payload.purpose !== 'account-claim') {
+      throw new UnauthorizedException('Invalid or expired claim token');
+    }
+
+    const password = await bcrypt.hash(
+      claimAccountDto.password,
+      this.SALT_ROUNDS,
+    );
+    const user = await this.userService.claim(payload.sub, {
+      name: claimAccountDto.name,
+      password,
+      role: this.resolveRole(payload.email),
+    });
+    this.logger.log(`Claimed account ${user.email}`);
+
+    const tokens = await this.issueTokens(user);
+    return { user, tokens };
+  }
+
+  async login(
+    loginDto: LoginDto,
+  ): Promise<{ user: UserDocument; tokens: AuthTokens }> {
+    const user = await this.userService.findByEmail(loginDto.email, true);
+    if (!user || !user.password) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    const passwordMatches = await bcrypt.compare(
+      loginDto.password,
+      user.password,
+    );
+    if (!passwordMatches) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    await this.userService.touchLastLogin(String(user._id));
+    if (
+      user.role !== UserRole.ADMIN &&
+      this.resolveRole(user.email) === UserRole.ADMIN
+    ) {
+      await this.userService.setRole(String(user._id), UserRole.ADMIN);
+      user.role = UserRole.ADMIN;
+    }
+
+    const tokens = await this.issueTokens(user);
+    return { user, tokens };
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(refreshToken, {
+        secret: this.configService.get<string>('jwt.refreshSecret'),
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+    if (payload.typ !== 'refresh') {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    const user = await this.userService.findByIdWithSecrets(payload.sub);
+    if (
+      !user ||
+      !user.refreshTokenHash ||
+      user.refreshTokenHash !== this.hashToken(refreshToken)
+    ) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    return this.issueTokens(user);
+  }
+
+  async logout(userId: string): Promise<void> {
+    await this.userService.setRefreshTokenHash(userId, null);
+  }
+
+  // Refresh tokens are rotated on every use; only the latest one is accepted
+  private async issueTokens(user: UserDocument): Promise<AuthTokens> {
+    const payload: Omit<JwtPayload, 'typ'> = {
+      sub: String(user._id),
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    };
+    const expiresIn = this.configService.get<string>('jwt.expiresIn') || '7d';
+
+    const [accessToken, refreshToken] = await Promise.all([
+      this.jwtService.signAsync({ ...payload, typ: 'access' }),
+      this.jwtService.signAsync(
+        { ...payload, typ: 'refresh' },
+        {
+          secret: this.configService.get<string>('jwt.refreshSecret'),
+          expiresIn: this.configService.get<string>('jwt.refreshExpiresIn'),
+          jwtid: randomUUID(),
+        },
+      ),
+    ]);
+
+    await this.userService.setRefreshTokenHash(
+      String(user._id),
+      this.hashToken(refreshToken),
+    );
+
+    return { accessToken, refreshToken, tokenType: 'Bearer', expiresIn };
+  }
+
+  private getClaimExpiresInHours(): number {
+    return this.configService.get<number>('accountClaims.expiresInHours') || 24;
+  }
+
+  private resolveRole(email: string): UserRole {
+    const adminEmails =
+      this.configService.get<string[]>('auth.adminEmails') || [];
+    return adminEmails.includes(email.toLowerCase())
+      ? UserRole.ADMIN
+      : UserRole.USER;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
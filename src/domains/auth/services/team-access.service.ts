@@ -0,0 +1,192 @@
+import {
+  Injectable,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { AuthenticatedUser, MemberRole } from '@shared/lib';
+import type { TeamScopeSource } from '@shared/decorators';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import { Expense, ExpenseDocument } from '../../expense/schemas/expense.schema';
+
+@Injectable()
+export class TeamAccessService {
+  constructor(
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
+  ) {}
+
+  async getTeamRole(
+    teamId: string,
+    user: AuthenticatedUser,
+  ): Promise<MemberRole | null> {
+    if (!Types.ObjectId.isValid(teamId)) {
+      throw new NotFoundException('Team not found');
+    }
+
+    const team = await this.teamModel.findById(teamId).select('members').lean();
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+
+    const member = team.members.find((m) => this.isSameUser(m, user));
+    return member ? member.role : null;
+  }
+
+  async assertTeamRole(
+    teamId: string,
+    user: AuthenticatedUser,
+    roles: MemberRole[],
+    reason?: string,
+  ): Promise<MemberRole> {
+    const role = await this.getTeamRole(teamId, user);
+    if (!role) {
+      throw new ForbiddenException('You are not a member of this team');
+    }
+    if (!roles.includes(role)) {
+      throw new ForbiddenException(
+        reason ||
+          `This action requires one of the team roles: ${roles.join(', ')}`,
+      );
+    }
+    return role;
+  }
+
+  async isTeamAdmin(teamId: string, user: AuthenticatedUser): Promise<boolean> {
+    return (await this.getTeamRole(teamId, user)) === MemberRole.ADMIN;
+  }
+
+  async getUserTeamIds(
+    user: AuthenticatedUser,
+    roles?: MemberRole[],
+  ): Promise<Types.ObjectId[]> {
+    const filter = roles
+      ? {
+          members: {
+            $elemMatch: {
+              ...this.membershipFilter(user, ''),
+              role: { $in: roles },
+            },
+          },
+        }
+      : this.membershipFilter(user);
+    const teams = await this.teamModel
+      .find(filter)
+      .select('_id')
+      .lean();
+    return teams.map((team) => team._id as Types.ObjectId);
+  }
+
+  // Memberships not yet migrated to user ids are still matched by email
+  membershipFilter(
+    user: AuthenticatedUser,
+    prefix = 'members.',
+  ): Record<string, any> {
+    return {
+      $or: [
+        { [`${prefix}user`]: new Types.ObjectId(user.userId) },
+        { [`${prefix}email`]: user.email.toLowerCase() },
+      ],
+    };
+  }
+
+  isSameUser(
+    member: { user?: Types.ObjectId; email: string },
+    user: AuthenticatedUser,
+  ): boolean {
+    return member.user
+      ? String(member.user) === user.userId
+      : member.email === user.email.toLowerCase();
+  }
+
+  /**
+   * Teams the request is scoped to, as groups: a group is satisfied by a role
+   * in any of its teams. An expense forms one group with its own team and
+   * the teams it is split with.
+   */
+  async resolveTeamGroups(
+    scope: TeamScopeSource,
+    request: { params?: any; body?: any },
+  ): Promise<string[][]> {
+    if ('param' in scope) {
+      return [[String(request.params?.[scope.param])]];
+    }
+
+    if ('body' in scope) {
+      const value = request.body?.[scope.body];
+      return value ? [[String(value)]] : [];
+    }
+
+    if ('expenseParam' in scope) {
+      const expenseId = String(request.params?.[scope.expenseParam]);
+      const expense = Types.ObjectId.isValid(expenseId)
+        ? await this.expenseModel
+            .findOne(
+              scope.inTrash
+                ? { _id: expenseId, deletedAt: { $ne: null } }
+                : { _id: expenseId },
+            )
+            .select('team allocations.team')
+            .lean()
+        : null;
+      if (!expense) {
+        throw new NotFoundException('Expense not found');
+      }
+      return [this.expenseTeamIds(expense)];
+    }
+
+    const value = request.body?.[scope.expenseBody];
+    const expenseIds = (Array.isArray(value) ? value : [value])
+      .filter((id) => id && Types.ObjectId.isValid(String(id)))
+      .map((id) => String(id));
+    if (expenseIds.length === 0) {
+      return [];
+    }
+
+    const expenses = await this.expenseModel
+      .find({ _id: { $in: expenseIds } })
+      .select('team allocations.team')
+      .lean();
+    const groups = new Map(
+      expenses.map((expense) => {
+        const teamIds = this.expenseTeamIds(expense);
+        return [teamIds.join(','), teamIds];
+      }),
+    );
+    return [...groups.values()];
+  }
+
+  // Passes when the user holds one of the roles in any of the teams
+  async assertAnyTeamRole(
+    teamIds: string[],
+    user: AuthenticatedUser,
+    roles: MemberRole[],
+    reason?: string,
+  ): Promise<MemberRole> {
+    let firstError: unknown;
+    for (const teamId of teamIds) {
+      try {
+        return await this.assertTeamRole(teamId, user, roles, reason);
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+    throw firstError ?? new ForbiddenException('You are not a member of this team');
+  }
+
+  // The team of an expense and the teams it is split with
+  expenseTeamIds(expense: {
+    team: Types.ObjectId;
+    allocations?: Array<{ team: Types.ObjectId }>;
+  }): string[] {
+    return [
+      ...new Set([
+        String(expense.team),
+        ...(expense.allocations ?? []).map((allocation) =>
+          String(allocation.team),
+        ),
+      ]),
+    ];
+  }
+}
@@ -0,0 +1,574 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { ExpenseReportService } from '../services/expense-report.service';
+import {
+  CreateExpenseReportDto,
+  UpdateExpenseReportDto,
+  AttachExpensesDto,
+  DecideExpenseReportDto,
+} from '../dto/expense-report.dto';
+import { CurrentUser, TeamRoles } from '@shared/decorators';
+import { ExpenseReportStatus, MemberRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Expense Reports')
+@ApiBearerAuth()
+@ApiForbiddenResponse({
+  description: 'User is not allowed to access or change the report',
+})
+@Controller('expense-reports')
+export class ExpenseReportController {
+  private readonly logger = new Logger(ExpenseReportController.name);
+
+  constructor(private readonly reportService: ExpenseReportService) {}
+
+  @Post()
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { body: 'team' },
+  })
+  @ApiOperation({
+    summary: 'Create expense report',
+    description:
+      'Creates a draft report (e.g. a business trip) owned by the authenticated user. Expenses are attached to it afterwards.',
+  })
+  @ApiBody({ type: CreateExpenseReportDto })
+  @ApiCreatedResponse({
+    description: 'Expense report created',
+    schema: {
+      example: {
+        success: true,
+        report: {
+          _id: '507f1f77bcf86cd799439030',
+          team: '507f1f77bcf86cd799439011',
+          title: 'Client visit Berlin',
+          purpose: 'Quarterly review with ACME GmbH',
+          startDate: '2024-03-04T00:00:00.000Z',
+          endDate: '2024-03-08T00:00:00.000Z',
+          status: 'draft',
+          submittedBy: { name: 'John Doe', email: 'john.doe@company.com' },
+          expenseCount: 0,
+          total: 0,
+          approvedTotal: 0,
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({ description: 'Invalid data or date range' })
+  async create(
+    @Body() createReportDto: CreateExpenseReportDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const report = await this.reportService.create(createReportDto, user);
+      return {
+        success: true,
+        report,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error creating expense report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to create expense report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List expense reports',
+    description:
+      'Returns the reports of the teams the user belongs to, newest first. Finance users, directors and system admins see every team.',
+  })
+  @ApiQuery({
+    name: 'team',
+    required: false,
+    description: 'Only reports of this team',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ExpenseReportStatus,
+  })
+  @ApiOkResponse({ description: 'Expense reports retrieved successfully' })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('team') team?: string,
+    @Query('status') status?: ExpenseReportStatus,
+  ) {
+    try {
+      const reports = await this.reportService.findAll(user, team, status);
+      return {
+        success: true,
+        reports,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching expense reports: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch expense reports',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get expense report',
+    description:
+      'Returns a report with its expenses. Totals and status are recomputed from the expenses.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiOkResponse({ description: 'Expense report retrieved successfully' })
+  @ApiNotFoundResponse({ description: 'Expense report not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const { report, expenses } = await this.reportService.findOne(id, user);
+      return {
+        success: true,
+        report,
+        expenses,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching expense report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch expense report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update expense report',
+    description:
+      'Changes the title, purpose or date range of a draft report. Only the owner or a team admin can do this.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiBody({ type: UpdateExpenseReportDto })
+  @ApiOkResponse({ description: 'Expense report updated successfully' })
+  @ApiBadRequestResponse({
+    description: 'Invalid date range, or attached expenses fall outside it',
+  })
+  @ApiNotFoundResponse({ description: 'Expense report not found' })
+  @ApiConflictResponse({ description: 'The report is no longer a draft' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateReportDto: UpdateExpenseReportDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const report = await this.reportService.update(id, updateReportDto, user);
+      return {
+        success: true,
+        report,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating expense report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to update expense report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete draft expense report',
+    description:
+      'Deletes a draft report. Its expenses are kept as individual expenses.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiOkResponse({ description: 'Expense report deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Expense report not found' })
+  @ApiConflictResponse({ description: 'The report is no longer a draft' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      await this.reportService.remove(id, user);
+      return {
+        success: true,
+        message: 'Expense report deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting expense report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to delete expense report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/expenses')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Attach expenses',
+    description:
+      'Adds expenses to a draft report. They must belong to the report team and owner, fall within its date range, still be editable and not be part of another report.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiBody({ type: AttachExpensesDto })
+  @ApiOkResponse({ description: 'Expenses attached successfully' })
+  @ApiBadRequestResponse({
+    description: 'An expense does not match the report',
+  })
+  @ApiNotFoundResponse({ description: 'Expense report or expense not found' })
+  @ApiConflictResponse({
+    description:
+      'The report is no longer a draft, or an expense is already in another report',
+  })
+  async attachExpenses(
+    @Param('id') id: string,
+    @Body() attachExpensesDto: AttachExpensesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const { report, expenses } = await this.reportService.attachExpenses(
+        id,
+        attachExpensesDto.expenseIds,
+        user,
+      );
+      return {
+        success: true,
+        report,
+        expenses,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error attaching expenses to report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to attach expenses',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id/expenses/:expenseId')
+  @ApiOperation({
+    summary: 'Detach expense',
+    description: 'Removes an expense from a draft report.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiParam({
+    name: 'expenseId',
+    description: 'Expense ID',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @ApiOkResponse({ description: 'Expense detached successfully' })
+  @ApiNotFoundResponse({
+    description: 'Expense report not found or expense not part of it',
+  })
+  @ApiConflictResponse({ description: 'The report is no longer a draft' })
+  async detachExpense(
+    @Param('id') id: string,
+    @Param('expenseId') expenseId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const { report, expenses } = await this.reportService.detachExpense(
+        id,
+        expenseId,
+        user,
+      );
+      return {
+        success: true,
+        report,
+        expenses,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error detaching expense ${expenseId} from report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to detach expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Submit expense report',
+    description:
+      'Submits the report and moves its draft expenses to submitted, so they enter the approval chain together.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiOkResponse({ description: 'Expense report submitted successfully' })
+  @ApiBadRequestResponse({ description: 'The report has no expenses' })
+  @ApiNotFoundResponse({ description: 'Expense report not found' })
+  @ApiConflictResponse({ description: 'The report is no longer a draft' })
+  async submit(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const { report, expenses } = await this.reportService.submit(id, user);
+      return {
+        success: true,
+        report,
+        expenses,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error submitting expense report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to submit expense report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/decision')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve or reject expense report',
+    description:
+      'Applies the decision to every submitted expense of the report, except those listed in overrides, which get their own decision. Each expense goes through its approval chain and separation of duties rules; expenses that cannot be decided are reported in results with an error.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiBody({ type: DecideExpenseReportDto })
+  @ApiOkResponse({
+    description: 'Decision applied',
+    schema: {
+      example: {
+        success: true,
+        report: {
+          _id: '507f1f77bcf86cd799439030',
+          status: 'partially_approved',
+          expenseCount: 2,
+          total: 540.5,
+          approvedTotal: 480,
+        },
+        results: [
+          { expenseId: '507f1f77bcf86cd799439012', status: 'approved' },
+          { expenseId: '507f1f77bcf86cd799439013', status: 'rejected' },
+        ],
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'An override refers to an expense outside the report',
+  })
+  @ApiNotFoundResponse({ description: 'Expense report not found' })
+  @ApiConflictResponse({
+    description: 'The report is not submitted or has nothing left to decide',
+  })
+  async decide(
+    @Param('id') id: string,
+    @Body() decideReportDto: DecideExpenseReportDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const { report, expenses, results } = await this.reportService.decide(
+        id,
+        decideReportDto,
+        user,
+      );
+      return {
+        success: true,
+        report,
+        expenses,
+        results,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deciding expense report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to decide expense report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id/pdf')
+  @ApiOperation({
+    summary: 'Export expense report as PDF',
+    description:
+      'Downloads the report with its details, every expense line and the total and approved amounts.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense report ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @ApiProduces('application/pdf')
+  @ApiOkResponse({ description: 'PDF file generated successfully' })
+  @ApiNotFoundResponse({ description: 'Expense report not found' })
+  async exportPdf(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const { filename, buffer } = await this.reportService.exportPdf(id, user);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}"`,
+      );
+      res.status(200).send(buffer);
+    } catch (error) {
+      this.logger.error(
+        `Error exporting expense report ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to export expense report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  IsString,
+  IsEnum,
+  IsDateString,
+  IsOptional,
+  IsMongoId,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ValidateNested,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { ApprovalDecision } from '@shared/lib';
+
+export class CreateExpenseReportDto {
+  @ApiProperty({
+    description: 'ID of the team the report belongs to',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsMongoId()
+  team: string;
+
+  @ApiProperty({
+    description: 'Title of the report',
+    example: 'Client visit Berlin',
+    maxLength: 200,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  title: string;
+
+  @ApiPropertyOptional({
+    description: 'Business purpose of the trip or project',
+    example: 'Quarterly review with ACME GmbH',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  purpose?: string;
+
+  @ApiProperty({
+    description: 'First day covered by the report',
+    example: '2024-03-04',
+    format: 'date',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({
+    description: 'Last day covered by the report',
+    example: '2024-03-08',
+    format: 'date',
+  })
+  @IsDateString()
+  endDate: string;
+}
+
+export class UpdateExpenseReportDto extends PartialType(
+  OmitType(CreateExpenseReportDto, ['team'] as const),
+) {}
+
+export class AttachExpensesDto {
+  @ApiProperty({
+    description:
+      'Expenses to attach. They must belong to the report team and submitter and fall within its date range',
+    example: ['507f1f77bcf86cd799439012', '507f1f77bcf86cd799439013'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsMongoId({ each: true })
+  expenseIds: string[];
+}
+
+export class ReportLineDecisionDto {
+  @ApiProperty({
+    description: 'Expense of the report the decision applies to',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsMongoId()
+  expenseId: string;
+
+  @ApiProperty({
+    description: 'Decision for this expense',
+    enum: ApprovalDecision,
+    example: ApprovalDecision.REJECTED,
+  })
+  @IsEnum(ApprovalDecision)
+  decision: ApprovalDecision;
+
+  @ApiPropertyOptional({
+    description: 'Note recorded in the status history of this expense',
+    example: 'Minibar is not reimbursable',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class DecideExpenseReportDto {
+  @ApiProperty({
+    description: 'Decision applied to every submitted expense of the report',
+    enum: ApprovalDecision,
+    example: ApprovalDecision.APPROVED,
+  })
+  @IsEnum(ApprovalDecision)
+  decision: ApprovalDecision;
+
+  @ApiPropertyOptional({
+    description: 'Note recorded in the status history of each expense',
+    example: 'Approved as a whole',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+
+  @ApiPropertyOptional({
+    description: 'Per-expense decisions that replace the report decision',
+    type: [ReportLineDecisionDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReportLineDecisionDto)
+  overrides?: ReportLineDecisionDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Justification for approving despite a separation of duties rule (system admins only)',
+    example: 'Only available approver during the audit',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  overrideJustification?: string;
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ExpenseReportController } from './controllers/expense-report.controller';
+import { ExpenseReportService } from './services/expense-report.service';
+import {
+  ExpenseReport,
+  ExpenseReportSchema,
+} from './schemas/expense-report.schema';
+import { Expense, ExpenseSchema } from '../expense/schemas/expense.schema';
+import { ExpenseModule } from '../expense/expense.module';
+import { AuthModule } from '../auth/auth.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    AuthModule,
+    ExpenseModule,
+    AuditModule,
+    MongooseModule.forFeature([
+      { name: ExpenseReport.name, schema: ExpenseReportSchema },
+      { name: Expense.name, schema: ExpenseSchema },
+    ]),
+  ],
+  controllers: [ExpenseReportController],
+  providers: [ExpenseReportService],
+  exports: [ExpenseReportService],
+})
+export class ExpenseReportModule {}
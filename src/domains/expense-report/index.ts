@@ -0,0 +1,3 @@
+export { ExpenseReportModule } from './expense-report.module';
+export { ExpenseReportController } from './controllers/expense-report.controller';
+export { ExpenseReportService } from './services/expense-report.service';
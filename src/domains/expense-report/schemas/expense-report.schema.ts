@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ExpenseReportStatus } from '@shared/lib';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+
+export type ExpenseReportDocument = ExpenseReport & Document;
+
+@Schema({ timestamps: true })
+export class ExpenseReport {
+  @Prop({ type: Types.ObjectId, ref: 'Team', required: true })
+  team: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, maxlength: 200 })
+  title: string;
+
+  @Prop({ trim: true, maxlength: 1000 })
+  purpose: string;
+
+  @Prop({ required: true })
+  startDate: Date;
+
+  @Prop({ required: true })
+  endDate: Date;
+
+  @Prop({ enum: ExpenseReportStatus, default: ExpenseReportStatus.DRAFT })
+  status: ExpenseReportStatus;
+
+  @Prop({ type: SubmitterSchema, required: true })
+  submittedBy: SubmitterSchema;
+
+  @Prop()
+  submittedAt: Date;
+
+  // Totals are computed server-side from the attached expenses
+  @Prop({ default: 0 })
+  expenseCount: number;
+
+  @Prop({ default: 0, min: 0 })
+  total: number;
+
+  @Prop({ default: 0, min: 0 })
+  approvedTotal: number;
+}
+
+export const ExpenseReportSchema = SchemaFactory.createForClass(ExpenseReport);
+
+// Indexes
+ExpenseReportSchema.index({ team: 1, status: 1, createdAt: -1 });
@@ -0,0 +1,718 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ExpenseReport,
+  ExpenseReportDocument,
+} from '../schemas/expense-report.schema';
+import { Expense, ExpenseDocument } from '../../expense/schemas/expense.schema';
+import {
+  CreateExpenseReportDto,
+  UpdateExpenseReportDto,
+  DecideExpenseReportDto,
+} from '../dto/expense-report.dto';
+import { ExpenseReportDetails, ReportLineResult } from '../types/types';
+import { ExpenseService } from '../../expense/services/expense.service';
+import { ExpenseLifecycleService } from '../../expense/services/expense-lifecycle.service';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import { AuditService } from '../../audit/services/audit.service';
+import {
+  AuditAction,
+  AuditEntityType,
+  AuthenticatedUser,
+  ApprovalDecision,
+  DEFAULT_CURRENCY,
+  ExpenseReportStatus,
+  ExpenseStatus,
+  MemberRole,
+  SPENDING_STATUSES,
+  UserRole,
+  formatMoney,
+} from '@shared/lib';
+
+// System roles that review reports without being team members
+const REVIEWER_ROLES = [UserRole.ADMIN, UserRole.FINANCE, UserRole.DIRECTOR];
+
+@Injectable()
+export class ExpenseReportService {
+  private readonly logger = new Logger(ExpenseReportService.name);
+
+  constructor(
+    @InjectModel(ExpenseReport.name)
+    private reportModel: Model<ExpenseReportDocument>,
+    @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
+    private expenseService: ExpenseService,
+    private expenseLifecycleService: ExpenseLifecycleService,
+    private teamAccessService: TeamAccessService,
+    private auditService: AuditService,
+  ) {}
+
+  async create(
+    createReportDto: CreateExpenseReportDto,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseReportDocument> {
+    this.assertDateRange(createReportDto.startDate, createReportDto.endDate);
+
+    return this.reportModel.create({
+      ...createReportDto,
+      team: new Types.ObjectId(createReportDto.team),
+      startDate: new Date(createReportDto.startDate),
+      endDate: new Date(createReportDto.endDate),
+      submittedBy: {
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+      },
+    });
+  }
+
+  // Reports of the user's teams, or of every team for system reviewers
+  async findAll(
+    user: AuthenticatedUser,
+    team?: string,
+    status?: ExpenseReportStatus,
+  ): Promise<ExpenseReportDocument[]> {
+    const filter: any = {};
+    if (team) {
+      if (!REVIEWER_ROLES.includes(user.role)) {
+        await this.teamAccessService.assertTeamRole(team, user, [
+          MemberRole.ADMIN,
+          MemberRole.MEMBER,
+        ]);
+      }
+      filter.team = new Types.ObjectId(team);
+    } else if (!REVIEWER_ROLES.includes(user.role)) {
+      filter.team = { $in: await this.teamAccessService.getUserTeamIds(user) };
+    }
+    if (status) {
+      filter.status = status;
+    }
+
+    return this.reportModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .populate('team', 'name baseCurrency')
+      .exec();
+  }
+
+  async findOne(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseReportDetails> {
+    const report = await this.findReportOrFail(id);
+    await this.assertCanView(report, user);
+
+    const expenses = await this.refreshTotals(report);
+    await report.populate('team', 'name baseCurrency');
+    return { report, expenses };
+  }
+
+  async update(
+    id: string,
+    updateReportDto: UpdateExpenseReportDto,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseReportDocument> {
+    const report = await this.findReportOrFail(id);
+    await this.assertCanManage(report, user);
+    this.assertDraft(report);
+
+    const startDate = updateReportDto.startDate
+      ? new Date(updateReportDto.startDate)
+      : report.startDate;
+    const endDate = updateReportDto.endDate
+      ? new Date(updateReportDto.endDate)
+      : report.endDate;
+    this.assertDateRange(startDate, endDate);
+
+    const outsideRange = await this.expenseModel.countDocuments({
+      report: report._id,
+      $or: [{ date: { $lt: startDate } }, { date: { $gt: endDate } }],
+    });
+    if (outsideRange > 0) {
+      throw new BadRequestException(
+        'Some attached expenses fall outside the new date range',
+      );
+    }
+
+    if (updateReportDto.title !== undefined)
+      report.title = updateReportDto.title;
+    if (updateReportDto.purpose !== undefined)
+      report.purpose = updateReportDto.purpose;
+    report.startDate = startDate;
+    report.endDate = endDate;
+    return report.save();
+  }
+
+  // Only drafts can be deleted; their expenses stay as individual expenses
+  async remove(id: string, user: AuthenticatedUser): Promise<void> {
+    const report = await this.findReportOrFail(id);
+    await this.assertCanManage(report, user);
+    this.assertDraft(report);
+
+    const attached = await this.expenseModel
+      .find({ report: report._id })
+      .select('_id')
+      .exec();
+    await this.expenseModel.updateMany(
+      { report: report._id },
+      { $set: { report: null }, $inc: { __v: 1 } },
+    );
+    await this.auditReportChange(
+      attached.map((e) => e._id as Types.ObjectId),
+      report._id as Types.ObjectId,
+      null,
+      'expense.report-deleted',
+    );
+    await this.reportModel.findByIdAndDelete(id).exec();
+  }
+
+  async attachExpenses(
+    id: string,
+    expenseIds: string[],
+    user: AuthenticatedUser,
+  ): Promise<ExpenseReportDetails> {
+    const report = await this.findReportOrFail(id);
+    await this.assertCanManage(report, user);
+    this.assertDraft(report);
+
+    const expenses = await this.expenseModel
+      .find({ _id: { $in: expenseIds.map((e) => new Types.ObjectId(e)) } })
+      .exec();
+    if (expenses.length !== new Set(expenseIds).size) {
+      throw new NotFoundException('Expense not found');
+    }
+    for (const expense of expenses) {
+      this.assertAttachable(report, expense);
+    }
+
+    // The conditional update keeps an expense from landing in two reports
+    const unattached = expenses.filter((e) => !e.report);
+    const result = await this.expenseModel.updateMany(
+      { _id: { $in: unattached.map((e) => e._id) }, report: null },
+      { $set: { report: report._id }, $inc: { __v: 1 } },
+    );
+    if (result.modifiedCount !== unattached.length) {
+      throw new ConflictException(
+        'Some expenses were attached to another report in the meantime',
+      );
+    }
+    await this.auditReportChange(
+      unattached.map((e) => e._id as Types.ObjectId),
+      null,
+      report._id as Types.ObjectId,
+      'expense.attach-to-report',
+    );
+
+    return { report, expenses: await this.refreshTotals(report) };
+  }
+
+  async detachExpense(
+    id: string,
+    expenseId: string,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseReportDetails> {
+    const report = await this.findReportOrFail(id);
+    await this.assertCanManage(report, user);
+    this.assertDraft(report);
+
+    const result = await this.expenseModel.updateOne(
+      { _id: expenseId, report: report._id },
+      { $set: { report: null }, $inc: { __v: 1 } },
+    );
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('Expense is not part of this report');
+    }
+    await this.auditReportChange(
+      [new Types.ObjectId(expenseId)],
+      report._id as Types.ObjectId,
+      null,
+      'expense.detach-from-report',
+    );
+
+    return { report, expenses: await this.refreshTotals(report) };
+  }
+
+  /**
+   * Submits the report and every draft expense in it, which puts the
+   * expenses in the approval queues of the team's chain.
+   */
+  async submit(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseReportDetails> {
+    const report = await this.findReportOrFail(id);
+    await this.assertCanManage(report, user);
+    this.assertDraft(report);
+
+    const lineCount = await this.expenseModel.countDocuments({
+      report: report._id,
+    });
+    if (lineCount === 0) {
+      throw new BadRequestException('Attach at least one expense first');
+    }
+
+    const drafts = await this.expenseModel
+      .find({ report: report._id, status: ExpenseStatus.DRAFT })
+      .select('_id')
+      .exec();
+
+    for (const expense of drafts) {
+      await this.expenseService.update(
+        String(expense._id),
+        {
+          status: ExpenseStatus.SUBMITTED,
+          statusNote: `Submitted with expense report "${report.title}"`,
+        },
+        user,
+      );
+    }
+
+    report.status = ExpenseReportStatus.SUBMITTED;
+    report.submittedAt = new Date();
+    const expenses = await this.refreshTotals(report);
+
+    this.logger.log(
+      `Expense report ${id} submitted by ${user.email}: ${expenses.length} expenses, ${report.total}`,
+    );
+    return { report, expenses };
+  }
+
+  /**
+   * Approves or rejects every submitted expense of the report, with
+   * per-expense overrides. Each line goes through the expense approval
+   * chain, so a line can stay submitted until its last level decides.
+   */
+  async decide(
+    id: string,
+    decideReportDto: DecideExpenseReportDto,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseReportDetails & { results: ReportLineResult[] }> {
+    const report = await this.findReportOrFail(id);
+    await this.assertCanView(report, user);
+    if (report.status !== ExpenseReportStatus.SUBMITTED) {
+      throw new ConflictException(
+        `A ${report.status} expense report cannot be decided`,
+      );
+    }
+
+    const lines = await this.expenseModel
+      .find({ report: report._id, status: ExpenseStatus.SUBMITTED })
+      .select('_id')
+      .exec();
+    const lineIds = new Set(lines.map((line) => String(line._id)));
+    const overrides = new Map(
+      (decideReportDto.overrides ?? []).map((o) => [o.expenseId, o]),
+    );
+    for (const expenseId of overrides.keys()) {
+      if (!lineIds.has(expenseId)) {
+        throw new BadRequestException(
+          `Expense ${expenseId} is not waiting for a decision in this report`,
+        );
+      }
+    }
+    if (lines.length === 0) {
+      throw new ConflictException(
+        'No expenses of this report await a decision',
+      );
+    }
+
+    const results: ReportLineResult[] = [];
+    let firstError: unknown;
+    for (const expenseId of lineIds) {
+      const override = overrides.get(expenseId);
+      const decision = override?.decision ?? decideReportDto.decision;
+      try {
+        const expense = await this.expenseService.update(
+          expenseId,
+          {
+            status:
+              decision === ApprovalDecision.APPROVED
+                ? ExpenseStatus.APPROVED
+                : ExpenseStatus.REJECTED,
+            statusNote: override?.note ?? decideReportDto.note,
+            overrideJustification: decideReportDto.overrideJustification,
+          },
+          user,
+        );
+        results.push({ expenseId, status: expense.status });
+      } catch (error) {
+        if (!(error instanceof HttpException)) {
+          throw error;
+        }
+        firstError ??= error;
+        results.push({
+          expenseId,
+          status: ExpenseStatus.SUBMITTED,
+          error: error.message,
+        });
+      }
+    }
+
+    // Nothing could be decided, e.g. the user is not an approver of the team
+    if (results.every((result) => result.error)) {
+      throw firstError;
+    }
+
+    const expenses = await this.refreshTotals(report);
+    this.logger.log(
+      `Expense report ${id} decided by ${user.email}: now ${report.status}`,
+    );
+    return { report, expenses, results };
+  }
+
+  async exportPdf(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<{ filename: string; buffer: Buffer }> {
+    const { report, expenses } = await this.findOne(id, user);
+    const team = report.team as unknown as {
+      name?: string;
+      baseCurrency?: string;
+    } | null;
+
+    const PDFDocument = (await import('pdfkit')).default;
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+    const { format } = await import('date-fns');
+
+    // Totals are in the team base currency, like the budget they count towards
+    const currency = team?.baseCurrency ?? DEFAULT_CURRENCY;
+
+    const marginLeft = 40;
+    const marginRight = 555;
+    const colX = {
+      description: marginLeft,
+      amount: 250,
+      category: 320,
+      date: 420,
+      status: 490,
+    } as const;
+    const colWidth = {
+      description: 200,
+      amount: 60,
+      category: 90,
+      date: 65,
+      status: 65,
+    } as const;
+    const rowHeight = 30;
+
+    const drawHeader = () => {
+      doc.fontSize(11).fillColor('#111111').font('Helvetica-Bold');
+      const headerY = doc.y;
+      doc
+        .rect(
+          marginLeft - 2,
+          headerY - 4,
+          marginRight - marginLeft + 4,
+          rowHeight,
+        )
+        .fill('#F3F4F6');
+      doc.fillColor('#111111');
+      doc.text('Description', colX.description, headerY, {
+        width: colWidth.description,
+      });
+      doc.text('Amount', colX.amount, headerY, {
+        width: colWidth.amount,
+        align: 'right',
+      });
+      doc.text('Category', colX.category, headerY, {
+        width: colWidth.category,
+      });
+      doc.text('Date', colX.date, headerY, { width: colWidth.date });
+      doc.text('Status', colX.status, headerY, { width: colWidth.status });
+      doc.font('Helvetica');
+      doc.y = headerY + rowHeight;
+    };
+
+    const ensureSpaceForRow = () => {
+      if (doc.y + rowHeight * 1.5 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        doc
+          .font('Helvetica-Bold')
+          .fontSize(12)
+          .text(`${report.title} (cont.)`, { align: 'left' });
+        doc.moveDown(0.5);
+        drawHeader();
+      }
+    };
+
+    const truncate = (text: unknown, max = 60) => {
+      const s = String(text ?? '');
+      return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+    };
+
+    const buffer = await new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('error', (err: Error) => reject(err));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+
+      doc
+        .fontSize(18)
+        .font('Helvetica-Bold')
+        .text(report.title, { align: 'center' });
+      doc.moveDown(0.25);
+      doc
+        .fontSize(10)
+        .font('Helvetica')
+        .text(`Generated: ${format(new Date(), 'PPpp')}`, { align: 'center' });
+      doc.moveDown(0.75);
+
+      doc.fontSize(10).fillColor('#374151');
+      doc.text(`Team: ${team?.name ?? 'N/A'}`);
+      doc.text(
+        `Submitted by: ${report.submittedBy.name} <${report.submittedBy.email}>`,
+      );
+      doc.text(
+        `Period: ${format(report.startDate, 'yyyy-MM-dd')} to ${format(report.endDate, 'yyyy-MM-dd')}`,
+      );
+      doc.text(`Status: ${report.status}`);
+      if (report.purpose) {
+        doc.text(`Purpose: ${report.purpose}`);
+      }
+      doc.fillColor('#000000');
+      doc.moveDown(1);
+
+      drawHeader();
+
+      expenses.forEach((e, idx) => {
+        ensureSpaceForRow();
+        const y = doc.y;
+        if (idx % 2 === 0) {
+          doc
+            .rect(
+              marginLeft - 2,
+              y - 4,
+              marginRight - marginLeft + 4,
+              rowHeight,
+            )
+            .fill('#FAFAFA');
+          doc.fillColor('#000000');
+        }
+
+        const description =
+          e.currency === currency
+            ? e.description
+            : `${e.description} (${formatMoney(e.amount, e.currency)})`;
+        doc.fontSize(10).text(truncate(description, 50), colX.description, y, {
+          width: colWidth.description,
+        });
+        doc.text(formatMoney(this.baseAmount(e), currency), colX.amount, y, {
+          width: colWidth.amount,
+          align: 'right',
+        });
+        doc.text(String(e.category), colX.category, y, {
+          width: colWidth.category,
+        });
+        doc.text(format(e.date, 'yyyy-MM-dd'), colX.date, y, {
+          width: colWidth.date,
+        });
+        doc.text(e.status, colX.status, y, { width: colWidth.status });
+
+        doc.y = y + rowHeight;
+      });
+
+      ensureSpaceForRow();
+      doc
+        .moveTo(marginLeft, doc.y)
+        .lineTo(marginRight, doc.y)
+        .strokeColor('#E5E7EB')
+        .stroke();
+      doc.strokeColor('#000000');
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold');
+      const totalY = doc.y;
+      doc.text('Total', colX.description, totalY, {
+        width: colWidth.description,
+      });
+      doc.text(formatMoney(report.total, currency), colX.amount, totalY, {
+        width: colWidth.amount,
+        align: 'right',
+      });
+      doc.moveDown(0.5);
+      const approvedY = doc.y;
+      doc.text('Approved', colX.description, approvedY, {
+        width: colWidth.description,
+      });
+      doc.text(
+        formatMoney(report.approvedTotal, currency),
+        colX.amount,
+        approvedY,
+        {
+          width: colWidth.amount,
+          align: 'right',
+        },
+      );
+      doc.font('Helvetica');
+
+      doc.end();
+    });
+
+    return { filename: `expense-report-${id}.pdf`, buffer };
+  }
+
+  /**
+   * Recomputes the totals and, once submitted, the report status from its
+   * expenses, which can also change individually through the expense API.
+   */
+  private async refreshTotals(
+    report: ExpenseReportDocument,
+  ): Promise<ExpenseDocument[]> {
+    const expenses = await this.expenseModel
+      .find({ report: report._id })
+      .sort({ date: 1 })
+      .exec();
+
+    report.expenseCount = expenses.length;
+    report.total = expenses.reduce((sum, e) => sum + this.baseAmount(e), 0);
+    report.approvedTotal = expenses
+      .filter((e) => SPENDING_STATUSES.includes(e.status))
+      .reduce((sum, e) => sum + this.baseAmount(e), 0);
+
+    if (report.status !== ExpenseReportStatus.DRAFT) {
+      report.status = this.resolveStatus(expenses) ?? report.status;
+    }
+    if (report.isModified()) {
+      await report.save();
+    }
+    return expenses;
+  }
+
+  // Amount in the team base currency, fixed once the expense is approved
+  private baseAmount(expense: ExpenseDocument): number {
+    return expense.conversion?.baseAmount ?? expense.amount;
+  }
+
+  private resolveStatus(
+    expenses: ExpenseDocument[],
+  ): ExpenseReportStatus | undefined {
+    const lines = expenses.filter((e) => e.status !== ExpenseStatus.CANCELLED);
+    if (lines.length === 0) {
+      return undefined;
+    }
+    if (lines.some((e) => this.expenseLifecycleService.isEditable(e.status))) {
+      return ExpenseReportStatus.SUBMITTED;
+    }
+
+    const approved = lines.filter((e) => SPENDING_STATUSES.includes(e.status));
+    if (approved.length === lines.length) {
+      return ExpenseReportStatus.APPROVED;
+    }
+    return approved.length === 0
+      ? ExpenseReportStatus.REJECTED
+      : ExpenseReportStatus.PARTIALLY_APPROVED;
+  }
+
+  private assertAttachable(
+    report: ExpenseReportDocument,
+    expense: ExpenseDocument,
+  ): void {
+    const label = `Expense ${expense._id}`;
+    if (expense.report && String(expense.report) !== String(report._id)) {
+      throw new ConflictException(`${label} is already part of another report`);
+    }
+    if (String(expense.team) !== String(report.team)) {
+      throw new BadRequestException(`${label} belongs to another team`);
+    }
+    const owner = report.submittedBy;
+    const sameOwner =
+      owner.user && expense.submittedBy.user
+        ? String(owner.user) === String(expense.submittedBy.user)
+        : owner.email === expense.submittedBy.email;
+    if (!sameOwner) {
+      throw new BadRequestException(
+        `${label} was not submitted by the owner of the report`,
+      );
+    }
+    if (!this.expenseLifecycleService.isEditable(expense.status)) {
+      throw new ConflictException(
+        `${label} is ${expense.status} and can no longer be added to a report`,
+      );
+    }
+    if (expense.date < report.startDate || expense.date > report.endDate) {
+      throw new BadRequestException(
+        `${label} falls outside the date range of the report`,
+      );
+    }
+  }
+
+  private async assertCanView(
+    report: ExpenseReportDocument,
+    user: AuthenticatedUser,
+  ): Promise<void> {
+    if (REVIEWER_ROLES.includes(user.role)) {
+      return;
+    }
+    await this.teamAccessService.assertTeamRole(String(report.team), user, [
+      MemberRole.ADMIN,
+      MemberRole.MEMBER,
+    ]);
+  }
+
+  // The owner of the report or an admin of its team
+  private async assertCanManage(
+    report: ExpenseReportDocument,
+    user: AuthenticatedUser,
+  ): Promise<void> {
+    if (this.teamAccessService.isSameUser(report.submittedBy, user)) {
+      return;
+    }
+    if (
+      !(await this.teamAccessService.isTeamAdmin(String(report.team), user))
+    ) {
+      throw new ForbiddenException(
+        'Only the owner of the report or a team admin can change it',
+      );
+    }
+  }
+
+  private assertDraft(report: ExpenseReportDocument): void {
+    if (report.status !== ExpenseReportStatus.DRAFT) {
+      throw new ConflictException(
+        `A ${report.status} expense report can no longer be changed`,
+      );
+    }
+  }
+
+  private assertDateRange(start: string | Date, end: string | Date): void {
+    if (new Date(start) > new Date(end)) {
+      throw new BadRequestException('startDate must not be after endDate');
+    }
+  }
+
+  // Moving expenses in and out of reports only changes their report field
+  private async auditReportChange(
+    expenseIds: Types.ObjectId[],
+    from: Types.ObjectId | null,
+    to: Types.ObjectId | null,
+    operation: string,
+  ): Promise<void> {
+    await this.auditService.recordMany(
+      expenseIds.map((expenseId) => ({
+        entityType: AuditEntityType.EXPENSE,
+        entityId: expenseId,
+        action: AuditAction.UPDATE,
+        operation,
+        before: { report: from },
+        after: { report: to },
+      })),
+    );
+  }
+
+  private async findReportOrFail(id: string): Promise<ExpenseReportDocument> {
+    const report = Types.ObjectId.isValid(id)
+      ? await this.reportModel.findById(id).exec()
+      : null;
+    if (!report) {
+      throw new NotFoundException('Expense report not found');
+    }
+    return report;
+  }
+}
@@ -0,0 +1,14 @@
+import { ExpenseStatus } from '@shared/lib';
+import { ExpenseDocument } from '../../expense/schemas/expense.schema';
+import { ExpenseReportDocument } from '../schemas/expense-report.schema';
+
+export type ExpenseReportDetails = {
+  report: ExpenseReportDocument;
+  expenses: ExpenseDocument[];
+};
+export type ReportLineResult = {
+  expenseId: string;
+  status: ExpenseStatus;
+  // Set when the decision could not be applied to this expense
+  error?: string;
+};
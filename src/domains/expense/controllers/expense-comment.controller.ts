@@ -0,0 +1,236 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Delete,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { ExpenseCommentService } from '../services/expense-comment.service';
+import {
+  CreateExpenseCommentDto,
+  UpdateExpenseCommentDto,
+} from '../dto/expense-comment.dto';
+import { CurrentUser, TeamRoles } from '@shared/decorators';
+import { MemberRole, UserRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Expenses')
+@ApiBearerAuth()
+@TeamRoles({
+  roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+  scope: { expenseParam: 'id' },
+  bypassRoles: [UserRole.ADMIN, UserRole.FINANCE, UserRole.DIRECTOR],
+})
+@ApiForbiddenResponse({
+  description: 'User is not a member of the expense team',
+})
+@ApiParam({
+  name: 'id',
+  description: 'Expense ID',
+  example: '507f1f77bcf86cd799439011',
+})
+@Controller('expenses/:id/comments')
+export class ExpenseCommentController {
+  private readonly logger = new Logger(ExpenseCommentController.name);
+
+  constructor(private readonly commentService: ExpenseCommentService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List expense comments',
+    description:
+      'Returns the discussion on an expense as threads: top-level comments, oldest first, each with its replies. Deleted comments that still have replies are kept with an empty body.',
+  })
+  @ApiOkResponse({
+    description: 'Comments retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        comments: [
+          {
+            _id: '507f1f77bcf86cd799439013',
+            parent: null,
+            author: { name: 'Jane Doe', email: 'jane.doe@company.com' },
+            body: 'Can you attach the itemised receipt? @john.doe@company.com',
+            mentions: ['john.doe@company.com'],
+            createdAt: '2024-01-16T09:00:00.000Z',
+            replies: [],
+          },
+        ],
+      },
+    },
+  })
+  @ApiNotFoundResponse({ description: 'Expense not found' })
+  async findAll(@Param('id') id: string) {
+    try {
+      const comments = await this.commentService.findAll(id);
+      return {
+        success: true,
+        comments,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching comments of expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to fetch comments',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Comment on expense',
+    description:
+      'Adds a comment, or a reply when parentId is given. Team members mentioned with @email are notified by email.',
+  })
+  @ApiBody({ type: CreateExpenseCommentDto })
+  @ApiCreatedResponse({ description: 'Comment created successfully' })
+  @ApiNotFoundResponse({ description: 'Expense or parent comment not found' })
+  @ApiBadRequestResponse({
+    description: 'Invalid data, or replying to a reply',
+  })
+  async create(
+    @Param('id') id: string,
+    @Body() createCommentDto: CreateExpenseCommentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const comment = await this.commentService.create(
+        id,
+        createCommentDto,
+        user,
+      );
+      return {
+        success: true,
+        comment,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error commenting on expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to add comment',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Patch(':commentId')
+  @ApiOperation({
+    summary: 'Edit comment',
+    description:
+      'Edits one of your own comments. Only newly mentioned team members are notified.',
+  })
+  @ApiParam({
+    name: 'commentId',
+    description: 'Comment ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiBody({ type: UpdateExpenseCommentDto })
+  @ApiOkResponse({ description: 'Comment updated successfully' })
+  @ApiNotFoundResponse({ description: 'Expense or comment not found' })
+  async update(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @Body() updateCommentDto: UpdateExpenseCommentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const comment = await this.commentService.update(
+        id,
+        commentId,
+        updateCommentDto,
+        user,
+      );
+      return {
+        success: true,
+        comment,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating comment ${commentId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to update comment',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':commentId')
+  @ApiOperation({
+    summary: 'Delete comment',
+    description: 'Deletes one of your own comments.',
+  })
+  @ApiParam({
+    name: 'commentId',
+    description: 'Comment ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @ApiOkResponse({ description: 'Comment deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Comment not found' })
+  async remove(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      await this.commentService.remove(id, commentId, user);
+      return {
+        success: true,
+        message: 'Comment deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting comment ${commentId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to delete comment',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
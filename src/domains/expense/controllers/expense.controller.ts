@@ -12,6 +12,9 @@ import {
   Logger,
   UseInterceptors,
   Res,
+  HttpCode,
+  ParseIntPipe,
+  StreamableFile,
 } from '@nestjs/common';
 import type { Response } from 'express';
 import { format } from 'date-fns';
@@ -27,20 +30,33 @@ import {
   ApiCreatedResponse,
   ApiOkResponse,
   ApiProduces,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiConflictResponse,
+  ApiHeader,
+  ApiPreconditionFailedResponse,
 } from '@nestjs/swagger';
 import { ExpenseService } from '../services/expense.service';
 import {
   CreateExpenseDto,
   UpdateExpenseDto,
   BulkActionDto,
+  RequestInformationDto,
+  ResubmitExpenseDto,
+  RevertExpenseDto,
   ExpenseResponseDto,
   SpendingInsightsDto,
   BudgetForecastDto,
 } from '../dto/expense.dto';
 import { ApiResponseDto, PaginatedResponseDto } from '../../../shared/dto/api-response.dto';
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
+import { CurrentUser, IfMatch, Roles, TeamRoles } from '@shared/decorators';
+import { Idempotent } from '../../idempotency/decorators/idempotent.decorator';
+import { ExpenseStatus, MemberRole, UserRole, toEtag } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
 
 @ApiTags('Expenses')
+@ApiBearerAuth()
 @Controller('expenses')
 export class ExpenseController {
   private readonly logger = new Logger(ExpenseController.name);
@@ -48,9 +64,15 @@ export class ExpenseController {
   constructor(private readonly expenseService: ExpenseService) {}
 
   @Post()
+  @Idempotent()
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { body: 'team' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the team' })
   @ApiOperation({
     summary: 'Create a new expense',
-    description: 'Creates a new expense with AI-powered category suggestion and duplicate detection. The system will automatically suggest categories and check for potential duplicates.',
+    description: 'Creates a new expense with AI-powered category suggestion and duplicate detection. The system will automatically suggest categories and check for potential duplicates. The submitter is taken from the authenticated user.',
   })
   @ApiBody({
     type: CreateExpenseDto,
@@ -67,7 +89,7 @@ export class ExpenseController {
           description: 'Business lunch with client',
           amount: 75.50,
           category: 'Meals',
-          status: 'pending',
+          status: 'submitted',
           submittedBy: {
             name: 'John Doe',
             email: 'john.doe@company.com'
@@ -97,9 +119,12 @@ export class ExpenseController {
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async create(@Body() createExpenseDto: CreateExpenseDto) {
+  async create(
+    @Body() createExpenseDto: CreateExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
     try {
-      const result = await this.expenseService.create(createExpenseDto);
+      const result = await this.expenseService.create(createExpenseDto, user);
       return {
         success: true,
         expense: result.expense,
@@ -126,7 +151,7 @@ export class ExpenseController {
   @Get()
   @ApiOperation({
     summary: 'Get all expenses',
-    description: 'Retrieves a paginated list of expenses with optional filtering by team, status, category, date range, and search terms.',
+    description: 'Retrieves a paginated list of expenses from the teams the user belongs to, with optional filtering by team, status, category, date range, and search terms.',
   })
   @ApiQuery({
     name: 'team',
@@ -138,8 +163,8 @@ export class ExpenseController {
     name: 'status',
     description: 'Filter by expense status',
     required: false,
-    enum: ['pending', 'approved', 'rejected'],
-    example: 'approved',
+    enum: ExpenseStatus,
+    example: ExpenseStatus.APPROVED,
   })
   @ApiQuery({
     name: 'category',
@@ -165,6 +190,12 @@ export class ExpenseController {
     required: false,
     example: 'lunch',
   })
+  @ApiQuery({
+    name: 'policyViolations',
+    description: 'Only expenses that break (true) or follow (false) their spending policies',
+    required: false,
+    type: Boolean,
+  })
   @ApiQuery({
     name: 'limit',
     description: 'Number of expenses per page',
@@ -198,9 +229,12 @@ export class ExpenseController {
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async findAll(@Query() query: any) {
+  async findAll(
+    @Query() query: any,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
     try {
-      const result = await this.expenseService.findAll(query);
+      const result = await this.expenseService.findAll(query, user);
       return {
         success: true,
         expenses: result.expenses,
@@ -223,7 +257,346 @@ export class ExpenseController {
     }
   }
 
+  @Get('pending-approvals')
+  @ApiOperation({
+    summary: 'Get my approval queue',
+    description: 'Returns submitted expenses whose current approval step can be decided by the authenticated user.',
+  })
+  @ApiOkResponse({
+    description: 'Approval queue retrieved successfully',
+    type: ApiResponseDto<ExpenseResponseDto[]>,
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async findPendingApprovals(@CurrentUser() user: AuthenticatedUser) {
+    try {
+      const expenses = await this.expenseService.findPendingApprovals(user);
+      return {
+        success: true,
+        expenses,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching approval queue: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch approval queue',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List deleted expenses',
+    description: 'Lists the expenses in the trash, most recently deleted first. System admins see every deleted expense, team admins those of the teams they administer.',
+  })
+  @ApiQuery({ name: 'team', required: false, description: 'Filter by team ID' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number', example: 1 })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page', example: 50 })
+  @ApiOkResponse({
+    description: 'Deleted expenses retrieved successfully',
+    type: PaginatedResponseDto,
+  })
+  @ApiForbiddenResponse({ description: 'User is not an admin of the team' })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async findDeleted(
+    @Query() query: any,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const result = await this.expenseService.findDeleted(query, user);
+      return {
+        success: true,
+        expenses: result.expenses,
+        pagination: result.pagination,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching deleted expenses: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch deleted expenses',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @TeamRoles({
+    roles: [MemberRole.ADMIN],
+    scope: { expenseParam: 'id', inTrash: true },
+    reason: 'Only team admins can restore expenses',
+    bypassRoles: [UserRole.ADMIN],
+  })
+  @ApiForbiddenResponse({ description: 'Only team admins can restore expenses' })
+  @ApiOperation({
+    summary: 'Restore deleted expense',
+    description: 'Takes an expense out of the trash. Approved or reimbursed expenses count towards the team\'s current spending again. The teams of the expense must not be deleted.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({
+    description: 'Expense restored successfully',
+    type: ApiResponseDto<ExpenseResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Expense not found in the trash',
+  })
+  @ApiConflictResponse({
+    description: 'The team of the expense is deleted',
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async restore(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const expense = await this.expenseService.restore(id, user);
+      return {
+        success: true,
+        expense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error restoring expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to restore expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id/approval-chain')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { expenseParam: 'id' },
+    bypassRoles: [UserRole.ADMIN, UserRole.FINANCE, UserRole.DIRECTOR],
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the expense team' })
+  @ApiOperation({
+    summary: 'Get expense approval chain',
+    description: 'Returns every approval step required for the expense amount with its state (approved, rejected, current or waiting) and who decided it.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({
+    description: 'Approval chain retrieved successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Expense not found',
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async getApprovalChain(@Param('id') id: string) {
+    try {
+      const approvalChain = await this.expenseService.getApprovalChain(id);
+      return {
+        success: true,
+        ...approvalChain,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching approval chain for expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch approval chain',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id/versions')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { expenseParam: 'id' },
+    bypassRoles: [UserRole.ADMIN, UserRole.FINANCE, UserRole.DIRECTOR],
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the expense team' })
+  @ApiOperation({
+    summary: 'Get expense version history',
+    description: 'Returns every version of the description, amount, category, date and status of the expense, oldest first, with the fields that changed from the previous version, who changed them and when. Versions are rebuilt from the audit log; expenses created before it start from their values at the first recorded change.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({
+    description: 'Versions retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        versions: [
+          {
+            version: 1,
+            values: { description: 'Client dinner', amount: 120, category: 'food', date: '2024-01-15T00:00:00.000Z', status: 'submitted' },
+            changes: [],
+            changedAt: '2024-01-15T19:02:00.000Z',
+            changedBy: { user: '507f1f77bcf86cd799439013', name: 'John Doe', email: 'john.doe@company.com' },
+            operation: 'expense.create',
+          },
+          {
+            version: 2,
+            values: { description: 'Client dinner', amount: 150, category: 'food', date: '2024-01-15T00:00:00.000Z', status: 'submitted' },
+            changes: [{ field: 'amount', before: 120, after: 150 }],
+            changedAt: '2024-01-16T08:45:00.000Z',
+            changedBy: { user: '507f1f77bcf86cd799439013', name: 'John Doe', email: 'john.doe@company.com' },
+            operation: 'expense.update',
+          },
+        ],
+      },
+    },
+  })
+  @ApiNotFoundResponse({
+    description: 'Expense not found',
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async getVersions(@Param('id') id: string) {
+    try {
+      const versions = await this.expenseService.getVersions(id);
+      return {
+        success: true,
+        versions,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching versions of expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch expense versions',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/versions/:version/revert')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN)
+  @ApiForbiddenResponse({ description: 'Only system admins can revert expenses, and restoring an approved version that breaks a separation of duties rule needs an overrideJustification' })
+  @ApiOperation({
+    summary: 'Revert expense to a version',
+    description: 'Restores the description, amount, category, date and status of an earlier version. The lifecycle is not enforced and no notifications are sent, but team spending is adjusted to the restored amount and status. Moving back to draft, submitted or needs_info restarts the approval chain. Restoring an approved status, or a different amount while approved, is checked against the separation of duties rules like any approval. The revert itself becomes a new version.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiParam({
+    name: 'version',
+    description: 'Version number, as listed by the version history',
+    example: 2,
+  })
+  @ApiBody({ type: RevertExpenseDto, required: false })
+  @ApiOkResponse({
+    description: 'Expense reverted successfully',
+    type: ApiResponseDto<ExpenseResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Expense or version not found',
+  })
+  @ApiConflictResponse({
+    description: 'The expense is part of a payout batch',
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async revert(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Body() revertExpenseDto: RevertExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const expense = await this.expenseService.revertToVersion(
+        id,
+        version,
+        user,
+        revertExpenseDto.overrideJustification,
+      );
+      return {
+        success: true,
+        expense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error reverting expense ${id} to version ${version}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to revert expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get(':id')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { expenseParam: 'id' },
+    bypassRoles: [UserRole.ADMIN, UserRole.FINANCE, UserRole.DIRECTOR],
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the expense team' })
   @ApiOperation({
     summary: 'Get expense by ID',
     description: 'Retrieves a specific expense by its ID with populated team information.',
@@ -234,7 +607,7 @@ export class ExpenseController {
     example: '507f1f77bcf86cd799439011',
   })
   @ApiOkResponse({
-    description: 'Expense retrieved successfully',
+    description: 'Expense retrieved successfully. The ETag header carries its version, to send back in If-Match when changing it.',
     type: ApiResponseDto<ExpenseResponseDto>,
   })
   @ApiNotFoundResponse({
@@ -243,9 +616,13 @@ export class ExpenseController {
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     try {
       const expense = await this.expenseService.findOne(id);
+      res.setHeader('ETag', toEtag(expense.__v));
       return {
         success: true,
         expense,
@@ -268,9 +645,18 @@ export class ExpenseController {
   }
 
   @Put(':id')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { expenseParam: 'id' },
+    bypassRoles: [UserRole.ADMIN, UserRole.FINANCE, UserRole.DIRECTOR],
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the expense team, cannot decide the current approval step, or would approve their own expense (separation of duties)' })
   @ApiOperation({
     summary: 'Update expense',
-    description: 'Updates an existing expense. When status is changed to approved/rejected, team spending is automatically updated and email notifications are sent.',
+    description: 'Updates an existing expense. Details can only be edited while the expense is a draft, submitted or waiting for information. Status changes follow the expense lifecycle (draft → submitted → approved/rejected/needs_info, needs_info → submitted, approved → reimbursed, and cancellation before reimbursement); illegal transitions return 409. Approving or rejecting a submitted expense records a decision on the current step of the team approval chain; the expense only becomes approved once every required step is approved. Team spending follows the transition and email notifications are sent on the final decision.',
+  })
+  @ApiConflictResponse({
+    description: 'Illegal status transition, or the expense can no longer be edited',
   })
   @ApiParam({
     name: 'id',
@@ -281,10 +667,18 @@ export class ExpenseController {
     type: UpdateExpenseDto,
     description: 'Updated expense data',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    description: 'ETag of the expense as last loaded; the update is refused with 412 if it has changed since',
+    required: false,
+  })
   @ApiOkResponse({
-    description: 'Expense updated successfully',
+    description: 'Expense updated successfully, with its new version in the ETag header',
     type: ApiResponseDto<ExpenseResponseDto>,
   })
+  @ApiPreconditionFailedResponse({
+    description: 'The expense has changed since the version given in If-Match',
+  })
   @ApiNotFoundResponse({
     description: 'Expense not found',
   })
@@ -297,9 +691,18 @@ export class ExpenseController {
   async update(
     @Param('id') id: string,
     @Body() updateExpenseDto: UpdateExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @IfMatch() expectedVersion: number | undefined,
+    @Res({ passthrough: true }) res: Response,
   ) {
     try {
-      const expense = await this.expenseService.update(id, updateExpenseDto);
+      const expense = await this.expenseService.update(
+        id,
+        updateExpenseDto,
+        user,
+        expectedVersion,
+      );
+      res.setHeader('ETag', toEtag(expense.__v));
       return {
         success: true,
         expense,
@@ -321,16 +724,148 @@ export class ExpenseController {
     }
   }
 
+  @Post(':id/request-info')
+  @HttpCode(HttpStatus.OK)
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { expenseParam: 'id' },
+    bypassRoles: [UserRole.ADMIN, UserRole.FINANCE, UserRole.DIRECTOR],
+  })
+  @ApiForbiddenResponse({ description: 'Only approvers of the current step can ask for more information' })
+  @ApiOperation({
+    summary: 'Request more information',
+    description: 'Sends a submitted expense back to its submitter with a question. The expense moves to needs_info, leaves the approval queues and the submitter is notified by email.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({ type: RequestInformationDto })
+  @ApiOkResponse({
+    description: 'Information requested successfully',
+    type: ApiResponseDto<ExpenseResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Expense not found',
+  })
+  @ApiConflictResponse({
+    description: 'The expense is not submitted',
+  })
+  async requestInformation(
+    @Param('id') id: string,
+    @Body() requestInformationDto: RequestInformationDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const expense = await this.expenseService.requestInformation(
+        id,
+        requestInformationDto.question,
+        user,
+      );
+      return {
+        success: true,
+        expense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error requesting information on expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to request information',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/resubmit')
+  @HttpCode(HttpStatus.OK)
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { expenseParam: 'id' },
+  })
+  @ApiForbiddenResponse({ description: 'Only the submitter can resubmit the expense' })
+  @ApiOperation({
+    summary: 'Resubmit expense',
+    description: 'Answers an information request, optionally editing the expense, and puts it back in the approval queue. The approver who asked is notified by email. Changing the amount restarts the approval chain.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Expense ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({ type: ResubmitExpenseDto })
+  @ApiOkResponse({
+    description: 'Expense resubmitted successfully',
+    type: ApiResponseDto<ExpenseResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Expense not found',
+  })
+  @ApiConflictResponse({
+    description: 'The expense is not waiting for information',
+  })
+  async resubmit(
+    @Param('id') id: string,
+    @Body() resubmitExpenseDto: ResubmitExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const expense = await this.expenseService.resubmit(
+        id,
+        resubmitExpenseDto,
+        user,
+      );
+      return {
+        success: true,
+        expense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error resubmitting expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to resubmit expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Delete(':id')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN],
+    scope: { expenseParam: 'id' },
+    reason: 'Only team admins can delete expenses',
+  })
+  @ApiForbiddenResponse({ description: 'Only team admins can delete expenses' })
   @ApiOperation({
     summary: 'Delete expense',
-    description: 'Deletes an expense. If the expense was approved, it will be subtracted from the team\'s current spending.',
+    description: 'Moves an expense to the trash, which hides it from every listing, report and spending calculation. If the expense was approved or reimbursed, it will be subtracted from the team\'s current spending. Deleted expenses can be restored until they are purged after the retention window.',
   })
   @ApiParam({
     name: 'id',
     description: 'Expense ID',
     example: '507f1f77bcf86cd799439011',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    description: 'ETag of the expense as last loaded; the deletion is refused with 412 if it has changed since',
+    required: false,
+  })
   @ApiOkResponse({
     description: 'Expense deleted successfully',
     schema: {
@@ -340,15 +875,22 @@ export class ExpenseController {
       }
     }
   })
+  @ApiPreconditionFailedResponse({
+    description: 'The expense has changed since the version given in If-Match',
+  })
   @ApiNotFoundResponse({
     description: 'Expense not found',
   })
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async remove(@Param('id') id: string) {
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @IfMatch() expectedVersion: number | undefined,
+  ) {
     try {
-      await this.expenseService.remove(id);
+      await this.expenseService.remove(id, user, expectedVersion);
       return {
         success: true,
         message: 'Expense deleted successfully',
@@ -371,6 +913,11 @@ export class ExpenseController {
   }
 
   @Get(':teamId/insights')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { param: 'teamId' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the team' })
   @ApiOperation({
     summary: 'Get AI spending insights',
     description: 'Generates AI-powered spending insights for a team including summary, trends, recommendations, and budget health analysis. Results are cached for 5 minutes.',
@@ -425,6 +972,11 @@ export class ExpenseController {
   }
 
   @Get(':teamId/forecast')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { param: 'teamId' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the team' })
   @ApiOperation({
     summary: 'Get AI budget forecast',
     description: 'Generates AI-powered budget forecast for a team predicting whether they will exceed their budget and providing recommendations. Results are cached for 5 minutes.',
@@ -479,33 +1031,56 @@ export class ExpenseController {
   }
 
   @Post('bulk-action')
+  @Idempotent()
   @ApiOperation({
     summary: 'Bulk approve/reject expenses',
-    description: 'Performs bulk approval or rejection of multiple expenses. Updates team spending and sends email notifications for each expense.',
+    description: 'Approves or rejects each expense on behalf of the authenticated user, one at a time, so an expense that cannot be decided does not hold back the others. Every expense gets an outcome in `results`: `updated`, `skipped` (already in the target status), `not_found`, `forbidden` (not a team admin of the expense, not an approver of the current step, or separation of duties), `conflict` (changed since the version given in `versions`, or by someone else at the same time) or `failed`, with the reason. Updated expenses adjust team spending and send email notifications. With `dryRun` nothing is saved and `results` show what would happen.',
   })
   @ApiBody({
     type: BulkActionDto,
     description: 'Bulk action data including expense IDs and action type',
   })
   @ApiOkResponse({
-    description: 'Bulk action completed successfully',
+    description: 'Bulk action completed, with the outcome of every expense',
     schema: {
       example: {
         success: true,
-        message: '5 expenses approved successfully',
-        updatedCount: 5
+        message: '1 of 3 expenses approved',
+        dryRun: false,
+        updatedCount: 1,
+        results: [
+          {
+            expenseId: '507f1f77bcf86cd799439011',
+            outcome: 'updated',
+            status: 'approved',
+          },
+          {
+            expenseId: '507f1f77bcf86cd799439012',
+            outcome: 'skipped',
+            status: 'approved',
+            reason: 'The expense is already approved',
+          },
+          {
+            expenseId: '507f1f77bcf86cd799439013',
+            outcome: 'not_found',
+            reason: 'Expense not found',
+          },
+        ],
       }
     }
   })
   @ApiBadRequestResponse({
-    description: 'Invalid data or some expenses not found',
+    description: 'Invalid data',
   })
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async bulkAction(@Body() bulkActionDto: BulkActionDto) {
+  async bulkAction(
+    @Body() bulkActionDto: BulkActionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
     try {
-      const result = await this.expenseService.bulkAction(bulkActionDto);
+      const result = await this.expenseService.bulkAction(bulkActionDto, user);
       return {
         success: true,
         ...result,
@@ -529,7 +1104,54 @@ export class ExpenseController {
     }
   }
 
+  @Post('migrate-statuses')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Migrate legacy expense statuses',
+    description: 'Moves expenses stored with the legacy "pending" status to "submitted". Safe to run more than once.',
+  })
+  @ApiOkResponse({
+    description: 'Migration completed',
+    schema: {
+      example: {
+        success: true,
+        migratedCount: 42
+      }
+    }
+  })
+  @ApiForbiddenResponse({
+    description: 'Only system admins can run migrations',
+  })
+  async migrateStatuses() {
+    try {
+      const migratedCount = await this.expenseService.migrateLegacyStatuses();
+      return {
+        success: true,
+        migratedCount,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error migrating expense statuses: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to migrate expense statuses',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Post('export-pdf')
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
   @ApiOperation({
     summary: 'Export expenses to PDF',
     description: 'Generates and downloads a PDF report of expenses with optional filtering. The PDF includes a formatted table with expense details and totals.',
@@ -540,7 +1162,7 @@ export class ExpenseController {
       type: 'object',
       properties: {
         team: { type: 'string', example: '507f1f77bcf86cd799439011' },
-        status: { type: 'string', enum: ['pending', 'approved', 'rejected'], example: 'approved' },
+        status: { type: 'string', enum: Object.values(ExpenseStatus), example: ExpenseStatus.APPROVED },
         category: { type: 'string', example: 'Travel' },
         startDate: { type: 'string', format: 'date', example: '2024-01-01' },
         endDate: { type: 'string', format: 'date', example: '2024-12-31' },
@@ -563,14 +1185,18 @@ export class ExpenseController {
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async exportPdf(@Body() filters: any, @Res() res: Response): Promise<void> {
+  async exportPdf(
+    @Body() filters: any,
+    @CurrentUser() user: AuthenticatedUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
     try {
-      const buffer = await this.expenseService.exportPdf(filters);
+      const buffer = await this.expenseService.exportPdf(filters, user);
       const filename = `Expense_Report_${format(new Date(), 'yyyyMMdd')}.pdf`;
 
       res.setHeader('Content-Type', 'application/pdf');
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.status(200).send(buffer);
+      return new StreamableFile(buffer);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to export PDF';
       this.logger.error(`Error exporting PDF: ${message}`);
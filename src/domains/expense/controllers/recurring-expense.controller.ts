@@ -0,0 +1,447 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { RecurringExpenseService } from '../services/recurring-expense.service';
+import {
+  CreateRecurringExpenseDto,
+  UpdateRecurringExpenseDto,
+} from '../dto/recurring-expense.dto';
+import { CurrentUser, Roles, TeamRoles } from '@shared/decorators';
+import { MemberRole, UserRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Expenses')
+@ApiBearerAuth()
+@ApiForbiddenResponse({
+  description: 'User is not allowed to access or change the recurring expense',
+})
+@Controller('recurring-expenses')
+export class RecurringExpenseController {
+  private readonly logger = new Logger(RecurringExpenseController.name);
+
+  constructor(private readonly recurringService: RecurringExpenseService) {}
+
+  @Post()
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { body: 'team' },
+  })
+  @ApiOperation({
+    summary: 'Create recurring expense',
+    description:
+      'Defines an expense that is generated on every due date (e.g. a monthly subscription), submitted in the name of the authenticated user. Occurrences already due are generated immediately.',
+  })
+  @ApiBody({ type: CreateRecurringExpenseDto })
+  @ApiCreatedResponse({
+    description: 'Recurring expense created',
+    schema: {
+      example: {
+        success: true,
+        recurringExpense: {
+          _id: '507f1f77bcf86cd799439040',
+          team: '507f1f77bcf86cd799439011',
+          description: 'Design tool subscription',
+          amount: 45,
+          category: 'Software',
+          cadence: 'monthly',
+          startDate: '2024-02-01T00:00:00.000Z',
+          status: 'active',
+          autoApproveBelow: 100,
+          nextRunAt: '2024-03-01T00:00:00.000Z',
+          occurrenceCount: 1,
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({ description: 'Invalid data or date range' })
+  async create(
+    @Body() createRecurringDto: CreateRecurringExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const recurringExpense = await this.recurringService.create(
+        createRecurringDto,
+        user,
+      );
+      return {
+        success: true,
+        recurringExpense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error creating recurring expense: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to create recurring expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List recurring expenses',
+    description:
+      'Returns the recurring expenses of the teams the user belongs to.',
+  })
+  @ApiQuery({
+    name: 'team',
+    required: false,
+    description: 'Only recurring expenses of this team',
+  })
+  @ApiOkResponse({ description: 'Recurring expenses retrieved successfully' })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('team') team?: string,
+  ) {
+    try {
+      const recurringExpenses = await this.recurringService.findAll(user, team);
+      return {
+        success: true,
+        recurringExpenses,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching recurring expenses: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch recurring expenses',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('run')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Generate due recurring expenses now',
+    description:
+      'Runs the recurring expense scheduler immediately instead of waiting for its next run. System admins only.',
+  })
+  @ApiOkResponse({
+    description: 'Due occurrences generated',
+    schema: { example: { success: true, generated: 3 } },
+  })
+  async runDue() {
+    try {
+      const generated = await this.recurringService.runDue();
+      return {
+        success: true,
+        generated,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error running recurring expenses: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to generate recurring expenses',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get recurring expense' })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring expense ID',
+    example: '507f1f77bcf86cd799439040',
+  })
+  @ApiOkResponse({ description: 'Recurring expense retrieved successfully' })
+  @ApiNotFoundResponse({ description: 'Recurring expense not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const recurringExpense = await this.recurringService.findOne(id, user);
+      return {
+        success: true,
+        recurringExpense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching recurring expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch recurring expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id/expenses')
+  @ApiOperation({
+    summary: 'List generated expenses',
+    description:
+      'Returns the expenses generated from a recurring expense, newest first.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring expense ID',
+    example: '507f1f77bcf86cd799439040',
+  })
+  @ApiOkResponse({ description: 'Generated expenses retrieved successfully' })
+  @ApiNotFoundResponse({ description: 'Recurring expense not found' })
+  async findGenerated(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const expenses = await this.recurringService.findGenerated(id, user);
+      return {
+        success: true,
+        expenses,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching expenses of recurring expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch generated expenses',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update recurring expense',
+    description:
+      'Changes future occurrences. Expenses generated so far are not modified. A new cadence counts from the next due date. Only the owner or a team admin can do this, and only team admins can set autoApproveBelow.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring expense ID',
+    example: '507f1f77bcf86cd799439040',
+  })
+  @ApiBody({ type: UpdateRecurringExpenseDto })
+  @ApiOkResponse({ description: 'Recurring expense updated successfully' })
+  @ApiBadRequestResponse({ description: 'Invalid data or date range' })
+  @ApiNotFoundResponse({ description: 'Recurring expense not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateRecurringDto: UpdateRecurringExpenseDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const recurringExpense = await this.recurringService.update(
+        id,
+        updateRecurringDto,
+        user,
+      );
+      return {
+        success: true,
+        recurringExpense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating recurring expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to update recurring expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Pause recurring expense',
+    description: 'Stops generating expenses until the definition is resumed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring expense ID',
+    example: '507f1f77bcf86cd799439040',
+  })
+  @ApiOkResponse({ description: 'Recurring expense paused' })
+  @ApiNotFoundResponse({ description: 'Recurring expense not found' })
+  @ApiConflictResponse({ description: 'The recurring expense is not active' })
+  async pause(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    try {
+      const recurringExpense = await this.recurringService.pause(id, user);
+      return {
+        success: true,
+        recurringExpense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error pausing recurring expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to pause recurring expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resume recurring expense',
+    description:
+      'Generates expenses again from the next due date. Occurrences that fell due while paused are skipped.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring expense ID',
+    example: '507f1f77bcf86cd799439040',
+  })
+  @ApiOkResponse({ description: 'Recurring expense resumed' })
+  @ApiNotFoundResponse({ description: 'Recurring expense not found' })
+  @ApiConflictResponse({ description: 'The recurring expense is not paused' })
+  async resume(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const recurringExpense = await this.recurringService.resume(id, user);
+      return {
+        success: true,
+        recurringExpense,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error resuming recurring expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to resume recurring expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete recurring expense',
+    description:
+      'Stops the recurring expense. Expenses generated so far are kept.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Recurring expense ID',
+    example: '507f1f77bcf86cd799439040',
+  })
+  @ApiOkResponse({ description: 'Recurring expense deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Recurring expense not found' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      await this.recurringService.remove(id, user);
+      return {
+        success: true,
+        message: 'Recurring expense deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting recurring expense ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to delete recurring expense',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
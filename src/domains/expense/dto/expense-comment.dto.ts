@@ -0,0 +1,41 @@
+import {
+  IsString,
+  IsOptional,
+  IsMongoId,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateExpenseCommentDto {
+  @ApiProperty({
+    description:
+      'Comment text. Mention team members with @email to notify them.',
+    example: 'Can you attach the itemised receipt? @jane.doe@company.com',
+    maxLength: 2000,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  body: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the top-level comment this comment replies to',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsOptional()
+  @IsMongoId()
+  parentId?: string;
+}
+
+export class UpdateExpenseCommentDto {
+  @ApiProperty({
+    description: 'New comment text',
+    example: 'Can you attach the itemised receipt and the invoice?',
+    maxLength: 2000,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  body: string;
+}
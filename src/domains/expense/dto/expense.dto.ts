@@ -1,9 +1,15 @@
-import { IsString, IsNumber, IsEnum, IsDateString, IsEmail, IsOptional, IsBoolean, IsMongoId, Min, MaxLength } from 'class-validator';
+import { IsString, IsNumber, IsEnum, IsDateString, IsEmail, IsOptional, IsBoolean, IsMongoId, IsIn, IsArray, IsISO4217CurrencyCode, IsISO31661Alpha2, IsInt, IsObject, ValidateNested, ValidateIf, ArrayMaxSize, Min, Max, MinLength, MaxLength } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ExpenseCategory, ExpenseStatus } from '@shared/lib';
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { ExpenseCategory, ExpenseStatus, ExpenseType, VehicleType } from '@shared/lib';
 
 export class SubmitterDto {
+  @ApiPropertyOptional({
+    description: 'ID of the user who submitted the expense',
+    example: '507f1f77bcf86cd799439013',
+  })
+  user?: string;
+
   @ApiProperty({
     description: 'Name of the person who submitted the expense',
     example: 'John Doe',
@@ -23,6 +29,12 @@ export class SubmitterDto {
 }
 
 export class ApprovedByDto {
+  @ApiPropertyOptional({
+    description: 'ID of the user who approved the expense',
+    example: '507f1f77bcf86cd799439014',
+  })
+  user?: string;
+
   @ApiProperty({
     description: 'Name of the person who approved the expense',
     example: 'Jane Smith',
@@ -49,6 +61,168 @@ export class ApprovedByDto {
   approvedAt: string;
 }
 
+export class AllocationDto {
+  @ApiProperty({
+    description: 'Team the portion is charged to',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsMongoId()
+  team: string;
+
+  @ApiPropertyOptional({
+    description: 'Category of the portion (defaults to the expense category)',
+    enum: ExpenseCategory,
+    example: ExpenseCategory.TRAINING,
+  })
+  @IsOptional()
+  @IsEnum(ExpenseCategory)
+  category?: ExpenseCategory;
+
+  @ApiPropertyOptional({
+    description: 'Amount of the portion in the expense currency. Give either amount or percent',
+    example: 600,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of the expense amount in percent. Give either amount or percent',
+    example: 40,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percent?: number;
+}
+
+export class MileageInputDto {
+  @ApiProperty({
+    description: 'Vehicle type, selects the mileage rate',
+    enum: VehicleType,
+    example: VehicleType.CAR,
+  })
+  @IsEnum(VehicleType)
+  vehicleType: VehicleType;
+
+  @ApiProperty({
+    description: 'Distance travelled, in the unit of the mileage rates',
+    example: 120,
+    minimum: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  distance: number;
+}
+
+export class PerDiemInputDto {
+  @ApiProperty({
+    description: 'Country or city code, selects the per-diem rate (case-insensitive)',
+    example: 'DE-BERLIN',
+    maxLength: 50,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  location: string;
+
+  @ApiProperty({
+    description: 'Number of days, half days allowed',
+    example: 3,
+    minimum: 0.5,
+  })
+  @IsNumber()
+  @Min(0.5)
+  days: number;
+}
+
+export class ReceiptDto {
+  @ApiProperty({
+    description: 'Name of the receipt file in receipt storage',
+    example: 'receipts/2024/01/5f1c2b.pdf',
+    maxLength: 500,
+  })
+  @IsString()
+  @MaxLength(500)
+  filename: string;
+
+  @ApiProperty({
+    description: 'Name of the file as uploaded',
+    example: 'dinner-receipt.pdf',
+    maxLength: 255,
+  })
+  @IsString()
+  @MaxLength(255)
+  originalName: string;
+
+  @ApiProperty({
+    description: 'MIME type of the file',
+    example: 'application/pdf',
+  })
+  @IsString()
+  @MaxLength(100)
+  mimetype: string;
+
+  @ApiProperty({
+    description: 'Size of the file in bytes',
+    example: 48213,
+  })
+  @IsInt()
+  @Min(0)
+  size: number;
+}
+
+export class TaxInputDto {
+  @ApiProperty({
+    description: 'Country the tax was charged in (ISO 3166-1 alpha-2)',
+    example: 'DE',
+  })
+  @IsISO31661Alpha2()
+  country: string;
+
+  @ApiProperty({
+    description: 'Tax code of the country, selects the tax rate (case-insensitive)',
+    example: 'VAT19',
+    maxLength: 20,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(20)
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'Tax rate in percent; must match the rate of the tax code',
+    example: 19,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  rate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Amount before tax; computed from the amount and rate when omitted',
+    example: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  netAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Tax included in the amount; computed from the amount and rate when omitted',
+    example: 19,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  taxAmount?: number;
+}
+
 export class CreateExpenseDto {
   @ApiProperty({
     description: 'ID of the team this expense belongs to',
@@ -66,14 +240,23 @@ export class CreateExpenseDto {
   @MaxLength(500)
   description: string;
 
-  @ApiProperty({
-    description: 'Amount of the expense in USD',
+  @ApiPropertyOptional({
+    description: 'Amount of the expense in its currency. Required for standard expenses; mileage and per-diem amounts are computed from the rate tables',
     example: 75.50,
     minimum: 0,
   })
+  @ValidateIf((expense) => !expense.type || expense.type === ExpenseType.STANDARD)
   @IsNumber()
   @Min(0)
-  amount: number;
+  amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Currency the expense was incurred in (ISO 4217 code). Defaults to the team base currency; mileage and per-diem expenses use the currency of their rate',
+    example: 'EUR',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
 
   @ApiProperty({
     description: 'Category of the expense',
@@ -83,6 +266,33 @@ export class CreateExpenseDto {
   @IsEnum(ExpenseCategory)
   category: ExpenseCategory;
 
+  @ApiPropertyOptional({
+    description: 'Type of the expense (default standard)',
+    enum: ExpenseType,
+    example: ExpenseType.STANDARD,
+  })
+  @IsOptional()
+  @IsEnum(ExpenseType)
+  type?: ExpenseType;
+
+  @ApiPropertyOptional({
+    description: 'Distance travelled, required for mileage expenses',
+    type: MileageInputDto,
+  })
+  @ValidateIf((expense) => expense.type === ExpenseType.MILEAGE || expense.mileage !== undefined)
+  @ValidateNested()
+  @Type(() => MileageInputDto)
+  mileage?: MileageInputDto;
+
+  @ApiPropertyOptional({
+    description: 'Location and days, required for per-diem expenses',
+    type: PerDiemInputDto,
+  })
+  @ValidateIf((expense) => expense.type === ExpenseType.PER_DIEM || expense.perDiem !== undefined)
+  @ValidateNested()
+  @Type(() => PerDiemInputDto)
+  perDiem?: PerDiemInputDto;
+
   @ApiProperty({
     description: 'Date when the expense was incurred',
     example: '2024-01-15',
@@ -92,21 +302,63 @@ export class CreateExpenseDto {
   date: string;
   
   @ApiPropertyOptional({
-    description: 'Status of the expense',
-    enum: ExpenseStatus,
-    example: ExpenseStatus.PENDING,
+    description: 'Initial status of the expense: save it as a draft or submit it for approval right away (default)',
+    enum: [ExpenseStatus.DRAFT, ExpenseStatus.SUBMITTED],
+    example: ExpenseStatus.SUBMITTED,
   })
   @IsOptional()
-  @IsEnum(ExpenseStatus)
-  status?: ExpenseStatus;
+  @IsIn([ExpenseStatus.DRAFT, ExpenseStatus.SUBMITTED])
+  status?: ExpenseStatus.DRAFT | ExpenseStatus.SUBMITTED;
 
   @ApiPropertyOptional({
-    description: 'Information about who submitted the expense',
-    type: SubmitterDto,
+    description: 'Split of the expense across teams and categories. The portions must add up to the expense amount; every team approves and is charged its own portion',
+    type: [AllocationDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => AllocationDto)
+  allocations?: AllocationDto[];
+
+  @ApiPropertyOptional({
+    description: 'Tax included in the amount; net and tax amounts must add up to the amount and match the tax code rate',
+    type: TaxInputDto,
   })
-  @Type(() => SubmitterDto)
   @IsOptional()
-  submittedBy?: SubmitterDto;
+  @ValidateNested()
+  @Type(() => TaxInputDto)
+  tax?: TaxInputDto;
+
+  @ApiPropertyOptional({
+    description: 'Why the expense was needed; some spending policies require it',
+    example: 'Client dinner to close the ACME renewal',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  justification?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of people the expense covers, used by per-attendee spending limits',
+    example: 4,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  attendees?: number;
+
+  @ApiPropertyOptional({
+    description: 'Receipt of the expense, as stored in receipt storage',
+    type: ReceiptDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReceiptDto)
+  receipt?: ReceiptDto;
 }
 
 export class UpdateExpenseDto {
@@ -121,7 +373,7 @@ export class UpdateExpenseDto {
   description?: string;
 
   @ApiPropertyOptional({
-    description: 'Updated amount of the expense in USD',
+    description: 'Updated amount of the expense in its currency (standard expenses only)',
     example: 85.00,
     minimum: 0,
   })
@@ -130,6 +382,32 @@ export class UpdateExpenseDto {
   @Min(0)
   amount?: number;
 
+  @ApiPropertyOptional({
+    description: 'Updated currency of the expense (ISO 4217 code)',
+    example: 'EUR',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiPropertyOptional({
+    description: 'Updated distance of a mileage expense; the amount is computed again',
+    type: MileageInputDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MileageInputDto)
+  mileage?: MileageInputDto;
+
+  @ApiPropertyOptional({
+    description: 'Updated location and days of a per-diem expense; the amount is computed again',
+    type: PerDiemInputDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PerDiemInputDto)
+  perDiem?: PerDiemInputDto;
+
   @ApiPropertyOptional({
     description: 'Updated category of the expense',
     enum: ExpenseCategory,
@@ -149,7 +427,57 @@ export class UpdateExpenseDto {
   date?: string;
 
   @ApiPropertyOptional({
-    description: 'Updated status of the expense',
+    description: 'Replaces the split of the expense across teams and categories. Send an empty list to remove it',
+    type: [AllocationDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => AllocationDto)
+  allocations?: AllocationDto[];
+
+  @ApiPropertyOptional({
+    description: 'Replaces the tax included in the amount. Send null to remove it; without it, a new amount is split at the same rate',
+    type: TaxInputDto,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TaxInputDto)
+  tax?: TaxInputDto | null;
+
+  @ApiPropertyOptional({
+    description: 'Updated justification of the expense',
+    example: 'Client dinner to close the ACME renewal',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  justification?: string;
+
+  @ApiPropertyOptional({
+    description: 'Updated number of people the expense covers',
+    example: 4,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  attendees?: number;
+
+  @ApiPropertyOptional({
+    description: 'Receipt of the expense, as stored in receipt storage; replaces the current one',
+    type: ReceiptDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReceiptDto)
+  receipt?: ReceiptDto;
+
+  @ApiPropertyOptional({
+    description: 'New status of the expense. Only transitions allowed by the expense lifecycle are accepted; illegal ones return 409.',
     enum: ExpenseStatus,
     example: ExpenseStatus.APPROVED,
   })
@@ -158,12 +486,72 @@ export class UpdateExpenseDto {
   status?: ExpenseStatus;
 
   @ApiPropertyOptional({
-    description: 'Information about who approved the expense',
-    type: ApprovedByDto,
+    description: 'Optional note recorded in the status history along with the status change',
+    example: 'Receipt verified',
+    maxLength: 1000,
   })
   @IsOptional()
-  @Type(() => ApprovedByDto)
-  approvedBy?: ApprovedByDto;
+  @IsString()
+  @MaxLength(1000)
+  statusNote?: string;
+
+  @ApiPropertyOptional({
+    description: 'Justification for approving despite a separation of duties rule (system admins only). Recorded on the approval.',
+    example: 'Sole approver available during the audit freeze',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  overrideJustification?: string;
+}
+
+export class RequestInformationDto {
+  @ApiProperty({
+    description: 'Question for the submitter, recorded in the status history',
+    example: 'Which client was this lunch with?',
+    maxLength: 1000,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(1000)
+  question: string;
+}
+
+export class ResubmitExpenseDto extends PickType(UpdateExpenseDto, [
+  'description',
+  'amount',
+  'currency',
+  'mileage',
+  'perDiem',
+  'tax',
+  'justification',
+  'attendees',
+  'receipt',
+  'category',
+  'date',
+] as const) {
+  @ApiPropertyOptional({
+    description: 'Answer to the approver\'s question, recorded in the status history',
+    example: 'Lunch with ACME Corp to discuss the renewal',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  response?: string;
+}
+
+export class RevertExpenseDto {
+  @ApiPropertyOptional({
+    description: 'Justification for restoring an approved version despite a separation of duties rule. Recorded in the status history.',
+    example: 'Restoring the amount the finance team approved',
+    maxLength: 900,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(900)
+  overrideJustification?: string;
 }
 
 export class BulkActionDto {
@@ -183,12 +571,34 @@ export class BulkActionDto {
   @IsEnum(['approve', 'reject'])
   action: 'approve' | 'reject';
 
-  @ApiProperty({
-    description: 'Information about who is performing the bulk action',
-    type: SubmitterDto,
+  @ApiPropertyOptional({
+    description: 'Justification for approving despite a separation of duties rule (system admins only). Recorded on every affected approval.',
+    example: 'Sole approver available during the audit freeze',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  overrideJustification?: string;
+
+  @ApiPropertyOptional({
+    description: 'Version (ETag) of each expense as the client last loaded it, by expense ID. Expenses changed since then are reported as conflicts and left untouched.',
+    example: { '507f1f77bcf86cd799439011': 3 },
+    type: 'object',
+    additionalProperties: { type: 'integer' },
+  })
+  @IsOptional()
+  @IsObject()
+  versions?: Record<string, number>;
+
+  @ApiPropertyOptional({
+    description: 'Check every expense and report what would happen without saving anything',
+    example: false,
+    default: false,
   })
-  @Type(() => SubmitterDto)
-  approvedBy: SubmitterDto;
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
 }
 
 export class ExpenseResponseDto {
@@ -214,11 +624,29 @@ export class ExpenseResponseDto {
   description: string;
 
   @ApiProperty({
-    description: 'Amount of the expense in USD',
+    description: 'Amount of the expense in its currency',
     example: 75.50,
   })
   amount: number;
 
+  @ApiProperty({
+    description: 'Currency the expense was incurred in',
+    example: 'EUR',
+  })
+  currency: string;
+
+  @ApiPropertyOptional({
+    description: 'Amount in the team base currency. An estimate until the expense is approved, then fixed with the exchange rate at approval time',
+    example: {
+      baseCurrency: 'USD',
+      baseAmount: 81.54,
+      rate: 1.08,
+      rateEffectiveFrom: '2024-01-01T00:00:00.000Z',
+      convertedAt: '2024-01-20T14:30:00.000Z',
+    },
+  })
+  conversion?: Record<string, any> | null;
+
   @ApiProperty({
     description: 'Category of the expense',
     enum: ExpenseCategory,
@@ -226,6 +654,75 @@ export class ExpenseResponseDto {
   })
   category: ExpenseCategory;
 
+  @ApiProperty({
+    description: 'Type of the expense',
+    enum: ExpenseType,
+    example: ExpenseType.MILEAGE,
+  })
+  type: ExpenseType;
+
+  @ApiPropertyOptional({
+    description: 'Inputs and rate the amount of a mileage expense was computed from',
+    example: {
+      vehicleType: 'car',
+      distance: 120,
+      rate: 0.3,
+      rateId: '507f1f77bcf86cd799439050',
+      rateEffectiveFrom: '2024-01-01T00:00:00.000Z',
+    },
+  })
+  mileage?: Record<string, any> | null;
+
+  @ApiPropertyOptional({
+    description: 'Inputs and rate the amount of a per-diem expense was computed from',
+    example: {
+      location: 'DE-BERLIN',
+      days: 3,
+      dailyRate: 28,
+      rateId: '507f1f77bcf86cd799439051',
+      rateEffectiveFrom: '2024-01-01T00:00:00.000Z',
+    },
+  })
+  perDiem?: Record<string, any> | null;
+
+  @ApiPropertyOptional({
+    description: 'Net and tax parts of the amount, in the expense currency',
+    example: {
+      country: 'DE',
+      code: 'VAT19',
+      rate: 19,
+      netAmount: 100,
+      taxAmount: 19,
+      reclaimable: true,
+    },
+  })
+  tax?: Record<string, any> | null;
+
+  @ApiPropertyOptional({
+    description: 'Why the expense was needed',
+    example: 'Client dinner to close the ACME renewal',
+  })
+  justification?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of people the expense covers',
+    example: 4,
+  })
+  attendees?: number;
+
+  @ApiPropertyOptional({
+    description: 'Spending policy rules the expense breaks, for approvers to review',
+    example: [
+      {
+        rule: 'max_amount',
+        team: '507f1f77bcf86cd799439011',
+        category: 'Meals',
+        message: 'Meals expenses are limited to $75.00 per attendee',
+      },
+    ],
+  })
+  policyViolations?: Array<Record<string, any>>;
+
   @ApiPropertyOptional({
     description: 'AI-suggested category for the expense',
     enum: ExpenseCategory,
@@ -271,6 +768,24 @@ export class ExpenseResponseDto {
   })
   duplicateReason?: string;
 
+  @ApiPropertyOptional({
+    description: 'Number of comments on the expense (included in list results)',
+    example: 3,
+  })
+  commentCount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Split of the expense across teams and categories',
+    type: [AllocationDto],
+  })
+  allocations?: AllocationDto[];
+
+  @ApiPropertyOptional({
+    description: 'Portion of the amount charged to the team the list is filtered by, in its base currency',
+    example: 600,
+  })
+  allocatedAmount?: number;
+
   @ApiProperty({
     description: 'Expense creation timestamp',
     example: '2024-01-15T10:30:00.000Z',
@@ -298,19 +813,19 @@ export class BudgetStatusDto {
   teamName: string;
 
   @ApiProperty({
-    description: 'Total budget allocated to the team in USD',
+    description: 'Total budget allocated to the team in the team base currency',
     example: 50000,
   })
   budget: number;
 
   @ApiProperty({
-    description: 'Current spending amount in USD',
+    description: 'Current spending amount in the team base currency',
     example: 40000,
   })
   currentSpending: number;
 
   @ApiProperty({
-    description: 'Remaining budget amount in USD',
+    description: 'Remaining budget amount in the team base currency',
     example: 10000,
   })
   remainingBudget: number;
@@ -379,7 +894,7 @@ export class SpendingInsightsDto {
   budgetHealth: string;
 
   @ApiProperty({
-    description: 'Total amount spent in USD',
+    description: 'Total amount spent in the team base currency',
     example: 25000,
   })
   totalSpent: number;
@@ -416,7 +931,7 @@ export class BudgetForecastDto {
   confidence: number;
 
   @ApiProperty({
-    description: 'Predicted amount of overspend in USD (if applicable)',
+    description: 'Predicted amount of overspend in the team base currency (if applicable)',
     example: 0,
   })
   predictedOverspend: number;
@@ -435,7 +950,7 @@ export class BudgetForecastDto {
   recommendations: string[];
 
   @ApiProperty({
-    description: 'Average monthly spending amount in USD',
+    description: 'Average monthly spending amount in the team base currency',
     example: 8333.33,
   })
   averageMonthlySpending: number;
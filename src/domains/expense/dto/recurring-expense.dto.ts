@@ -0,0 +1,65 @@
+import {
+  IsEnum,
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  Min,
+} from 'class-validator';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+  PickType,
+} from '@nestjs/swagger';
+import { RecurrenceCadence } from '@shared/lib';
+import { CreateExpenseDto } from './expense.dto';
+
+export class CreateRecurringExpenseDto extends PickType(CreateExpenseDto, [
+  'team',
+  'description',
+  'amount',
+  'currency',
+  'category',
+] as const) {
+  @ApiProperty({
+    description: 'How often an expense is generated',
+    enum: RecurrenceCadence,
+    example: RecurrenceCadence.MONTHLY,
+  })
+  @IsEnum(RecurrenceCadence)
+  cadence: RecurrenceCadence;
+
+  @ApiProperty({
+    description: 'Due date of the first occurrence',
+    example: '2024-02-01',
+    format: 'date',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({
+    description: 'No occurrences are generated after this date',
+    example: '2024-12-31',
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Occurrences below this amount are approved automatically (team admins only). Send null to remove it',
+    example: 100,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  autoApproveBelow?: number | null;
+}
+
+export class UpdateRecurringExpenseDto extends PartialType(
+  OmitType(CreateRecurringExpenseDto, ['team', 'startDate'] as const),
+) {}
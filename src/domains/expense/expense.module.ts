@@ -1,21 +1,77 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ExpenseController } from './controllers/expense.controller';
+import { ExpenseCommentController } from './controllers/expense-comment.controller';
+import { RecurringExpenseController } from './controllers/recurring-expense.controller';
 import { ExpenseService } from './services/expense.service';
+import { ApprovalChainService } from './services/approval-chain.service';
+import { ExpenseAllocationService } from './services/expense-allocation.service';
+import { ExpenseCalculationService } from './services/expense-calculation.service';
+import { ExpenseCurrencyService } from './services/expense-currency.service';
+import { ExpenseTaxService } from './services/expense-tax.service';
+import { ExpensePolicyService } from './services/expense-policy.service';
+import { ExpenseVersionService } from './services/expense-version.service';
+import { TrashPurgeService } from './services/trash-purge.service';
+import { ExpenseLifecycleService } from './services/expense-lifecycle.service';
+import { SeparationOfDutiesService } from './services/separation-of-duties.service';
+import { ExpenseCommentService } from './services/expense-comment.service';
+import { RecurringExpenseService } from './services/recurring-expense.service';
 import { Expense, ExpenseSchema } from './schemas/expense.schema';
+import {
+  ExpenseComment,
+  ExpenseCommentSchema,
+} from './schemas/expense-comment.schema';
+import {
+  RecurringExpense,
+  RecurringExpenseSchema,
+} from './schemas/recurring-expense.schema';
 import { Team, TeamSchema } from '../team/schemas/team.schema';
+import { AuthModule } from '../auth/auth.module';
+import { RateModule } from '../rate/rate.module';
+import { TaxModule } from '../tax/tax.module';
+import { AuditModule } from '../audit/audit.module';
+import { TeamModule } from '../team/team.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 import { EmailService } from '@shared/services/email.service';
 import { AiService } from '@shared/services/ai.service';
 
 @Module({
   imports: [
+    AuthModule,
+    RateModule,
+    TaxModule,
+    AuditModule,
+    TeamModule,
+    IdempotencyModule,
     MongooseModule.forFeature([
       { name: Expense.name, schema: ExpenseSchema },
       { name: Team.name, schema: TeamSchema },
+      { name: ExpenseComment.name, schema: ExpenseCommentSchema },
+      { name: RecurringExpense.name, schema: RecurringExpenseSchema },
     ]),
   ],
-  controllers: [ExpenseController],
-  providers: [ExpenseService, EmailService, AiService],
-  exports: [ExpenseService],
+  controllers: [
+    ExpenseController,
+    ExpenseCommentController,
+    RecurringExpenseController,
+  ],
+  providers: [
+    ExpenseService,
+    ApprovalChainService,
+    ExpenseAllocationService,
+    ExpenseCalculationService,
+    ExpenseCurrencyService,
+    ExpenseTaxService,
+    ExpensePolicyService,
+    ExpenseVersionService,
+    ExpenseLifecycleService,
+    SeparationOfDutiesService,
+    ExpenseCommentService,
+    RecurringExpenseService,
+    TrashPurgeService,
+    EmailService,
+    AiService,
+  ],
+  exports: [ExpenseService, ExpenseLifecycleService],
 })
 export class ExpenseModule {}
@@ -1,3 +1,7 @@
 export { ExpenseModule } from './expense.module';
 export { ExpenseController } from './controllers/expense.controller';
+export { ExpenseCommentController } from './controllers/expense-comment.controller';
+export { RecurringExpenseController } from './controllers/recurring-expense.controller';
 export { ExpenseService } from './services/expense.service';
+export { ExpenseCommentService } from './services/expense-comment.service';
+export { RecurringExpenseService } from './services/recurring-expense.service';
@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ExpenseCategory } from '@shared/lib';
+import { ConversionSchema } from './conversion.schema';
+
+@Schema({ _id: false })
+export class AllocationSchema {
+  @Prop({ type: Types.ObjectId, ref: 'Team', required: true })
+  team: Types.ObjectId;
+
+  @Prop({ enum: ExpenseCategory, required: true })
+  category: ExpenseCategory;
+
+  // Always stored, computed from the percent when one was given
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ min: 0, max: 100 })
+  percent?: number;
+
+  // Amount in the base currency of the allocated team
+  @Prop({ type: ConversionSchema, default: null })
+  conversion?: ConversionSchema | null;
+}
+
+export const AllocationSchemaFactory =
+  SchemaFactory.createForClass(AllocationSchema);
@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+@Schema({ _id: false })
+export class AmountEditSchema {
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  user: Types.ObjectId;
+
+  @Prop({ trim: true, maxlength: 100 })
+  name: string;
+
+  @Prop({ trim: true, lowercase: true })
+  email: string;
+
+  @Prop({ required: true })
+  previousAmount: number;
+
+  @Prop({ required: true })
+  newAmount: number;
+
+  @Prop({ required: true })
+  editedAt: Date;
+}
+
+export const AmountEditSchemaFactory =
+  SchemaFactory.createForClass(AmountEditSchema);
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ApprovalDecision, ApproverRole, SodViolation } from '@shared/lib';
+
+@Schema({ _id: false })
+export class ApprovalRecordSchema {
+  @Prop({ required: true })
+  level: number;
+
+  // Team whose chain the step belongs to; split expenses go through several
+  @Prop({ type: Types.ObjectId, ref: 'Team' })
+  team?: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  stepName: string;
+
+  @Prop({ enum: ApproverRole, required: true })
+  approverRole: ApproverRole;
+
+  @Prop({ enum: ApprovalDecision, required: true })
+  decision: ApprovalDecision;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @Prop({ trim: true, maxlength: 100 })
+  name: string;
+
+  @Prop({ trim: true, lowercase: true })
+  email: string;
+
+  @Prop({ required: true })
+  decidedAt: Date;
+
+  // Set when a system admin overrode a separation of duties rule
+  @Prop({ enum: SodViolation })
+  sodOverride?: SodViolation;
+
+  @Prop({ trim: true, maxlength: 1000 })
+  overrideJustification?: string;
+}
+
+export const ApprovalRecordSchemaFactory =
+  SchemaFactory.createForClass(ApprovalRecordSchema);
@@ -1,7 +1,11 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 
 @Schema({ timestamps: true })
 export class ApprovedBySchema {
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  user: Types.ObjectId;
+
   @Prop({ trim: true, maxlength: 100 })
   name: string;
 
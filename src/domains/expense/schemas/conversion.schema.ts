@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// An amount converted to the base currency of the team it is charged to
+@Schema({ _id: false })
+export class ConversionSchema {
+  @Prop({ required: true, trim: true, uppercase: true })
+  baseCurrency: string;
+
+  @Prop({ required: true, min: 0 })
+  baseAmount: number;
+
+  // Units of the base currency for one unit of the expense currency
+  @Prop({ required: true, min: 0 })
+  rate: number;
+
+  @Prop({ required: true })
+  rateEffectiveFrom: Date;
+
+  @Prop({ required: true })
+  convertedAt: Date;
+}
+
+export const ConversionSchemaFactory =
+  SchemaFactory.createForClass(ConversionSchema);
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { SubmitterSchema } from './submitter.schema';
+
+export type ExpenseCommentDocument = ExpenseComment & Document;
+
+@Schema({ timestamps: true })
+export class ExpenseComment {
+  @Prop({ type: Types.ObjectId, ref: 'Expense', required: true })
+  expense: Types.ObjectId;
+
+  // Replies point to the top-level comment they answer
+  @Prop({ type: Types.ObjectId, ref: 'ExpenseComment', default: null })
+  parent: Types.ObjectId | null;
+
+  @Prop({ type: SubmitterSchema, required: true })
+  author: SubmitterSchema;
+
+  @Prop({ required: true, trim: true, maxlength: 2000 })
+  body: string;
+
+  // Emails of the team members mentioned with @email
+  @Prop({ type: [String], default: [] })
+  mentions: string[];
+
+  @Prop()
+  editedAt: Date;
+
+  // Deleted comments keep their place in the thread without their content
+  @Prop()
+  deletedAt: Date;
+}
+
+export const ExpenseCommentSchema =
+  SchemaFactory.createForClass(ExpenseComment);
+
+// Indexes
+ExpenseCommentSchema.index({ expense: 1, createdAt: 1 });
@@ -1,12 +1,22 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
-import { ExpenseCategory, ExpenseStatus, Submitter, ApprovedBy, Receipt } from '@shared/lib';
+import { DEFAULT_CURRENCY, ExpenseCategory, ExpenseStatus, ExpenseType, Submitter, ApprovedBy, Receipt, excludeSoftDeleted } from '@shared/lib';
 import { SubmitterSchema } from './submitter.schema';
 import { ApprovedBySchema } from './approved-by.schema';
+import { ApprovalRecordSchema } from './approval-record.schema';
+import { StatusChangeSchema } from './status-change.schema';
+import { AmountEditSchema } from './amount-edit.schema';
+import { AllocationSchema } from './allocation.schema';
+import { ConversionSchema } from './conversion.schema';
+import { MileageCalculationSchema } from './mileage-calculation.schema';
+import { PerDiemCalculationSchema } from './per-diem-calculation.schema';
+import { TaxSchema } from './tax.schema';
+import { PolicyViolationSchema } from './policy-violation.schema';
 
-export type ExpenseDocument = Expense & Document;
+export type ExpenseDocument = Expense & Document & { __v: number };
 
-@Schema({ timestamps: true })
+// Saves check and increment __v, the version clients see as the ETag
+@Schema({ timestamps: true, optimisticConcurrency: true })
 export class Expense {
   @Prop({ type: Types.ObjectId, ref: 'Team', required: true })
   team: Types.ObjectId;
@@ -17,13 +27,36 @@ export class Expense {
   @Prop({ required: true, min: 0 })
   amount: number;
 
+  // Currency the amount was incurred in
+  @Prop({ trim: true, uppercase: true, default: DEFAULT_CURRENCY })
+  currency: string;
+
+  // Amount in the team base currency: an estimate until the expense is
+  // approved, then fixed with the rate in effect at approval time
+  @Prop({ type: ConversionSchema, default: null })
+  conversion: ConversionSchema | null;
+
   @Prop({ enum: ExpenseCategory, required: true })
   category: ExpenseCategory;
 
+  // Mileage and per-diem amounts are computed from the rate tables
+  @Prop({ enum: ExpenseType, default: ExpenseType.STANDARD })
+  type: ExpenseType;
+
+  @Prop({ type: MileageCalculationSchema, default: null })
+  mileage: MileageCalculationSchema | null;
+
+  @Prop({ type: PerDiemCalculationSchema, default: null })
+  perDiem: PerDiemCalculationSchema | null;
+
+  // Net and tax parts of the amount, in the expense currency
+  @Prop({ type: TaxSchema, default: null })
+  tax: TaxSchema | null;
+
   @Prop({ enum: ExpenseCategory })
   aiSuggestedCategory: ExpenseCategory;
 
-  @Prop({ enum: ExpenseStatus, default: ExpenseStatus.PENDING })
+  @Prop({ enum: ExpenseStatus, default: ExpenseStatus.SUBMITTED })
   status: ExpenseStatus;
 
   @Prop({ type: SubmitterSchema, required: true })
@@ -32,6 +65,34 @@ export class Expense {
   @Prop({ type: ApprovedBySchema })
   approvedBy: ApprovedBySchema;
 
+  // Decisions taken on the team's approval chain, in order
+  @Prop({ type: [ApprovalRecordSchema], default: [] })
+  approvals: ApprovalRecordSchema[];
+
+  // Every status transition, oldest first
+  @Prop({ type: [StatusChangeSchema], default: [] })
+  statusHistory: StatusChangeSchema[];
+
+  // Who changed the amount after submission, used by separation of duties
+  @Prop({ type: [AmountEditSchema], default: [] })
+  amountEdits: AmountEditSchema[];
+
+  // Split of the amount across teams and categories; empty when not split
+  @Prop({ type: [AllocationSchema], default: [] })
+  allocations: AllocationSchema[];
+
+  // Payout batch the expense is reimbursed in, once it has been batched
+  @Prop({ type: Types.ObjectId, ref: 'PayoutBatch', default: null })
+  payoutBatch: Types.ObjectId | null;
+
+  // Expense report the expense is bundled in, if any
+  @Prop({ type: Types.ObjectId, ref: 'ExpenseReport', default: null })
+  report: Types.ObjectId | null;
+
+  // Recurring expense definition this expense was generated from, if any
+  @Prop({ type: Types.ObjectId, ref: 'RecurringExpense', default: null })
+  recurringExpense: Types.ObjectId | null;
+
   @Prop({
     type: {
       filename: String,
@@ -47,6 +108,17 @@ export class Expense {
     size: number;
   };
 
+  // Why the expense was needed, required by some spending policies
+  @Prop({ trim: true, maxlength: 1000 })
+  justification?: string;
+
+  @Prop({ min: 1, default: 1 })
+  attendees: number;
+
+  // Checked against the spending policies on every edit
+  @Prop({ type: [PolicyViolationSchema], default: [] })
+  policyViolations: PolicyViolationSchema[];
+
   @Prop({ required: true })
   date: Date;
 
@@ -55,11 +127,33 @@ export class Expense {
 
   @Prop()
   duplicateReason: string;
+
+  // Set when the expense is in the trash, which hides it from every query
+  @Prop({ type: Date, default: null })
+  deletedAt: Date | null;
+
+  @Prop({ type: SubmitterSchema, default: null })
+  deletedBy: SubmitterSchema | null;
 }
 
 export const ExpenseSchema = SchemaFactory.createForClass(Expense);
 
+excludeSoftDeleted(ExpenseSchema);
+
 // Indexes
 ExpenseSchema.index({ team: 1, date: -1 });
 ExpenseSchema.index({ status: 1 });
 ExpenseSchema.index({ category: 1 });
+ExpenseSchema.index({ status: 1, payoutBatch: 1 });
+ExpenseSchema.index({ report: 1 });
+ExpenseSchema.index({ 'allocations.team': 1, status: 1 });
+ExpenseSchema.index({ 'tax.code': 1, date: -1 }, { sparse: true });
+ExpenseSchema.index({ deletedAt: 1 });
+// One generated expense per recurring definition and due date
+ExpenseSchema.index(
+  { recurringExpense: 1, date: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { recurringExpense: { $type: 'objectId' } },
+  },
+);
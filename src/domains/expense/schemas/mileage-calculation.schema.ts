@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { VehicleType } from '@shared/lib';
+
+// Inputs and rate a mileage expense amount was computed from
+@Schema({ _id: false })
+export class MileageCalculationSchema {
+  @Prop({ enum: VehicleType, required: true })
+  vehicleType: VehicleType;
+
+  @Prop({ required: true, min: 0 })
+  distance: number;
+
+  @Prop({ required: true, min: 0 })
+  rate: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'MileageRate', required: true })
+  rateId: Types.ObjectId;
+
+  @Prop({ required: true })
+  rateEffectiveFrom: Date;
+}
+
+export const MileageCalculationSchemaFactory = SchemaFactory.createForClass(
+  MileageCalculationSchema,
+);
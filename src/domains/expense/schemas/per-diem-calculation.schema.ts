@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+// Inputs and rate a per-diem expense amount was computed from
+@Schema({ _id: false })
+export class PerDiemCalculationSchema {
+  @Prop({ required: true, trim: true, uppercase: true })
+  location: string;
+
+  @Prop({ required: true, min: 0 })
+  days: number;
+
+  @Prop({ required: true, min: 0 })
+  dailyRate: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'PerDiemRate', required: true })
+  rateId: Types.ObjectId;
+
+  @Prop({ required: true })
+  rateEffectiveFrom: Date;
+}
+
+export const PerDiemCalculationSchemaFactory = SchemaFactory.createForClass(
+  PerDiemCalculationSchema,
+);
@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ExpenseCategory, PolicyRule } from '@shared/lib';
+
+// A spending policy rule the expense breaks, shown to approvers
+@Schema({ _id: false })
+export class PolicyViolationSchema {
+  @Prop({ enum: PolicyRule, required: true })
+  rule: PolicyRule;
+
+  // Team whose policy is violated, one of the teams the expense is charged to
+  @Prop({ type: Types.ObjectId, ref: 'Team', required: true })
+  team: Types.ObjectId;
+
+  @Prop({ enum: ExpenseCategory, required: true })
+  category: ExpenseCategory;
+
+  @Prop({ required: true })
+  message: string;
+}
+
+export const PolicyViolationSchemaFactory = SchemaFactory.createForClass(
+  PolicyViolationSchema,
+);
@@ -0,0 +1,86 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  ExpenseCategory,
+  RecurrenceCadence,
+  RecurringExpenseStatus,
+} from '@shared/lib';
+import { SubmitterSchema } from './submitter.schema';
+
+export type RecurringExpenseDocument = RecurringExpense & Document;
+
+@Schema({ timestamps: true })
+export class RecurringExpense {
+  @Prop({ type: Types.ObjectId, ref: 'Team', required: true })
+  team: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, maxlength: 500 })
+  description: string;
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  // Unset means the base currency of the team when an occurrence is generated
+  @Prop({ trim: true, uppercase: true })
+  currency?: string;
+
+  @Prop({ enum: ExpenseCategory, required: true })
+  category: ExpenseCategory;
+
+  @Prop({ enum: RecurrenceCadence, required: true })
+  cadence: RecurrenceCadence;
+
+  @Prop({ required: true })
+  startDate: Date;
+
+  @Prop()
+  endDate: Date;
+
+  @Prop({
+    enum: RecurringExpenseStatus,
+    default: RecurringExpenseStatus.ACTIVE,
+  })
+  status: RecurringExpenseStatus;
+
+  // Generated expenses are submitted in this person's name
+  @Prop({ type: SubmitterSchema, required: true })
+  submittedBy: SubmitterSchema;
+
+  // Occurrences below this amount are approved without going through the chain
+  @Prop({ type: Number, min: 0, default: null })
+  autoApproveBelow: number | null;
+
+  // Team admin who set the auto-approval threshold, recorded as the approver
+  @Prop({ type: SubmitterSchema })
+  autoApproveSetBy: SubmitterSchema;
+
+  // Due dates are computed from the anchor so month ends do not drift
+  @Prop({ required: true })
+  anchorDate: Date;
+
+  @Prop({ default: 0 })
+  periodIndex: number;
+
+  @Prop({ required: true })
+  nextRunAt: Date;
+
+  @Prop({ default: 0 })
+  occurrenceCount: number;
+
+  @Prop()
+  lastGeneratedAt: Date;
+
+  // Set when the scheduler failed to generate an occurrence, cleared once it succeeds
+  @Prop({ type: String, default: null })
+  lastError: string | null;
+
+  @Prop({ type: Date, default: null })
+  lastFailedAt: Date | null;
+}
+
+export const RecurringExpenseSchema =
+  SchemaFactory.createForClass(RecurringExpense);
+
+// Indexes
+RecurringExpenseSchema.index({ status: 1, nextRunAt: 1 });
+RecurringExpenseSchema.index({ team: 1, createdAt: -1 });
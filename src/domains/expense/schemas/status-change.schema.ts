@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ExpenseStatus } from '@shared/lib';
+
+@Schema({ _id: false })
+export class StatusChangeSchema {
+  @Prop({ enum: ExpenseStatus })
+  from: ExpenseStatus;
+
+  @Prop({ enum: ExpenseStatus, required: true })
+  to: ExpenseStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  user: Types.ObjectId;
+
+  @Prop({ trim: true, maxlength: 100 })
+  name: string;
+
+  @Prop({ trim: true, lowercase: true })
+  email: string;
+
+  @Prop({ trim: true, maxlength: 1000 })
+  note: string;
+
+  @Prop({ required: true })
+  changedAt: Date;
+}
+
+export const StatusChangeSchemaFactory =
+  SchemaFactory.createForClass(StatusChangeSchema);
@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// Tax included in the gross amount of an expense, copied from its tax code
+@Schema({ _id: false })
+export class TaxSchema {
+  @Prop({ required: true })
+  country: string;
+
+  @Prop({ required: true })
+  code: string;
+
+  // Percent of the net amount
+  @Prop({ required: true, min: 0 })
+  rate: number;
+
+  @Prop({ required: true, min: 0 })
+  netAmount: number;
+
+  @Prop({ required: true, min: 0 })
+  taxAmount: number;
+
+  @Prop({ default: true })
+  reclaimable: boolean;
+}
+
+export const TaxSchemaFactory = SchemaFactory.createForClass(TaxSchema);
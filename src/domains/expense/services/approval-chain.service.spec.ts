@@ -0,0 +1,190 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Model, Types } from 'mongoose';
+import {
+  ApprovalDecision,
+  ApproverRole,
+  AuthenticatedUser,
+  SodViolation,
+  UserRole,
+} from '@shared/lib';
+import { Expense } from '../schemas/expense.schema';
+import { TeamDocument } from '../../team/schemas/team.schema';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import { ApprovalChainService, ApprovalTeams } from './approval-chain.service';
+import { ExpenseAllocationService } from './expense-allocation.service';
+
+// Collaborators are faked, so their schema imports are not needed
+jest.mock('../../auth/services/team-access.service', () => ({
+  TeamAccessService: class TeamAccessService {},
+}));
+jest.mock('../../team/schemas/team.schema', () => ({ Team: class Team {} }));
+
+describe('ApprovalChainService', () => {
+  const teamId = new Types.ObjectId();
+  const otherTeamId = new Types.ObjectId();
+  const chain = [
+    { name: 'Director', threshold: 5000, approverRole: ApproverRole.DIRECTOR },
+    { name: 'Team admin', threshold: 0, approverRole: ApproverRole.TEAM_ADMIN },
+    { name: 'Finance', threshold: 1000, approverRole: ApproverRole.FINANCE },
+  ];
+  const teams: ApprovalTeams = new Map([
+    [String(teamId), { approvalChain: chain }],
+    [String(otherTeamId), { approvalChain: [] }],
+  ]);
+  const finance: AuthenticatedUser = {
+    userId: new Types.ObjectId().toString(),
+    email: 'finance@example.com',
+    name: 'Finance',
+    role: UserRole.FINANCE,
+  };
+
+  let isTeamAdmin: jest.Mock;
+  let service: ApprovalChainService;
+
+  beforeEach(() => {
+    isTeamAdmin = jest.fn().mockResolvedValue(true);
+    service = new ApprovalChainService(
+      { isTeamAdmin } as unknown as TeamAccessService,
+      new ExpenseAllocationService({} as Model<TeamDocument>),
+    );
+  });
+
+  const expense = (overrides: Partial<Expense> = {}): Expense =>
+    ({
+      team: teamId,
+      amount: 100,
+      allocations: [],
+      approvals: [],
+      ...overrides,
+    }) as unknown as Expense;
+
+  describe('getRequiredSteps', () => {
+    it('always requires the first step and sorts the chain by threshold', () => {
+      expect(
+        service
+          .getRequiredSteps({ approvalChain: chain }, 100)
+          .map((step) => step.name),
+      ).toEqual(['Team admin']);
+    });
+
+    it('adds the steps whose threshold the amount exceeds', () => {
+      expect(
+        service
+          .getRequiredSteps({ approvalChain: chain }, 1000)
+          .map((step) => step.name),
+      ).toEqual(['Team admin']);
+      expect(
+        service
+          .getRequiredSteps({ approvalChain: chain }, 6000)
+          .map((step) => step.name),
+      ).toEqual(['Team admin', 'Finance', 'Director']);
+    });
+
+    it('falls back to the default chain', () => {
+      expect(
+        service.getRequiredSteps({ approvalChain: [] }, 10000),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('getPlan', () => {
+    it('uses the converted amount against the thresholds', () => {
+      const plan = service.getPlan(
+        expense({
+          amount: 900,
+          conversion: { baseAmount: 1200 } as Expense['conversion'],
+        }),
+        teams,
+      );
+      expect(plan.map((step) => step.name)).toEqual(['Team admin', 'Finance']);
+    });
+
+    it("plans a split expense through each team's chain for its portion", () => {
+      const plan = service.getPlan(
+        expense({
+          amount: 3000,
+          allocations: [
+            { team: teamId, amount: 2000 },
+            { team: otherTeamId, amount: 1000 },
+          ] as Expense['allocations'],
+        }),
+        teams,
+      );
+      expect(plan.map((step) => [step.team, step.name])).toEqual([
+        [String(teamId), 'Team admin'],
+        [String(teamId), 'Finance'],
+        [String(otherTeamId), 'Team admin'],
+      ]);
+    });
+  });
+
+  describe('recordDecision', () => {
+    it('keeps the expense open until the last required step is approved', async () => {
+      const pending = expense({ amount: 2000 });
+
+      const first = await service.recordDecision(
+        pending,
+        teams,
+        finance,
+        ApprovalDecision.APPROVED,
+      );
+      expect(first).toMatchObject({
+        completed: false,
+        step: { name: 'Team admin' },
+      });
+      expect(isTeamAdmin).toHaveBeenCalledWith(String(teamId), finance);
+
+      const second = await service.recordDecision(
+        pending,
+        teams,
+        finance,
+        ApprovalDecision.APPROVED,
+      );
+      expect(second).toMatchObject({
+        completed: true,
+        step: { name: 'Finance' },
+      });
+      expect(pending.approvals.map((record) => record.level)).toEqual([1, 2]);
+    });
+
+    it('settles the expense on a rejection at any step', async () => {
+      const result = await service.recordDecision(
+        expense({ amount: 2000 }),
+        teams,
+        finance,
+        ApprovalDecision.REJECTED,
+      );
+      expect(result.completed).toBe(true);
+    });
+
+    it('rejects users who cannot decide the current step', async () => {
+      isTeamAdmin.mockResolvedValue(false);
+      await expect(
+        service.recordDecision(
+          expense(),
+          teams,
+          finance,
+          ApprovalDecision.APPROVED,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('records a separation of duties override on the approval', async () => {
+      const approved = expense();
+      await service.recordDecision(
+        approved,
+        teams,
+        finance,
+        ApprovalDecision.APPROVED,
+        {
+          violation: SodViolation.SELF_APPROVAL,
+          justification: 'Only approver',
+        },
+      );
+      expect(approved.approvals[0]).toMatchObject({
+        sodOverride: SodViolation.SELF_APPROVAL,
+        overrideJustification: 'Only approver',
+      });
+    });
+  });
+});
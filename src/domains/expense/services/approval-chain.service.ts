@@ -0,0 +1,184 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  ApprovalChainStatus,
+  ApprovalDecision,
+  ApprovalStep,
+  ApproverRole,
+  AuthenticatedUser,
+  DEFAULT_APPROVAL_CHAIN,
+  SodOverride,
+  UserRole,
+} from '@shared/lib';
+import { Expense } from '../schemas/expense.schema';
+import { Team } from '../../team/schemas/team.schema';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import { ExpenseAllocationService } from './expense-allocation.service';
+
+// Teams whose chains apply to an expense, by team id
+export type ApprovalTeams = Map<string, Pick<Team, 'approvalChain'>>;
+
+// A required step together with the team it is decided for
+export type PlannedStep = ApprovalStep & { team: string };
+
+type ApprovableExpense = Pick<
+  Expense,
+  'team' | 'amount' | 'conversion' | 'allocations' | 'approvals'
+>;
+
+const APPROVER_LABELS: Record<ApproverRole, string> = {
+  [ApproverRole.TEAM_ADMIN]: 'a team admin',
+  [ApproverRole.FINANCE]: 'a finance approver',
+  [ApproverRole.DIRECTOR]: 'a director',
+};
+
+@Injectable()
+export class ApprovalChainService {
+  constructor(
+    private teamAccessService: TeamAccessService,
+    private expenseAllocationService: ExpenseAllocationService,
+  ) {}
+
+  getChain(team: Pick<Team, 'approvalChain'>): ApprovalStep[] {
+    const chain = team.approvalChain?.length
+      ? team.approvalChain
+      : DEFAULT_APPROVAL_CHAIN;
+    return [...chain].sort((a, b) => a.threshold - b.threshold);
+  }
+
+  // The first step always applies; later ones only above their threshold
+  getRequiredSteps(
+    team: Pick<Team, 'approvalChain'>,
+    amount: number,
+  ): ApprovalStep[] {
+    return this.getChain(team).filter(
+      (step, index) => index === 0 || amount > step.threshold,
+    );
+  }
+
+  /**
+   * The steps an expense goes through, in order. A split expense goes through
+   * the chain of every allocated team, each for the portion it is charged.
+   */
+  getPlan(expense: ApprovableExpense, teams: ApprovalTeams): PlannedStep[] {
+    return this.expenseAllocationService.getShares(expense).flatMap((share) => {
+      const team = teams.get(String(share.team));
+      return team
+        ? this.getRequiredSteps(team, share.amount).map((step) => ({
+            ...step,
+            team: String(share.team),
+          }))
+        : [];
+    });
+  }
+
+  getChainStatus(
+    expense: ApprovableExpense,
+    teams: ApprovalTeams,
+  ): ApprovalChainStatus[] {
+    const steps = this.getPlan(expense, teams);
+    const approvals = expense.approvals ?? [];
+    const rejected = approvals.some(
+      (record) => record.decision === ApprovalDecision.REJECTED,
+    );
+
+    return steps.map((step, index) => {
+      const record = approvals.find((r) => r.level === index + 1);
+      let status: ApprovalChainStatus['status'] = 'waiting';
+      if (record) {
+        status =
+          record.decision === ApprovalDecision.APPROVED
+            ? 'approved'
+            : 'rejected';
+      } else if (!rejected && index === this.getApprovedLevel(expense)) {
+        status = 'current';
+      }
+
+      return {
+        level: index + 1,
+        team: step.team,
+        name: step.name,
+        threshold: step.threshold,
+        approverRole: step.approverRole,
+        status,
+        decidedBy: record
+          ? { name: record.name, email: record.email }
+          : undefined,
+        decidedAt: record?.decidedAt,
+      };
+    });
+  }
+
+  getCurrentStep(
+    expense: ApprovableExpense,
+    teams: ApprovalTeams,
+  ): PlannedStep | undefined {
+    return this.getPlan(expense, teams)[this.getApprovedLevel(expense)];
+  }
+
+  async canDecide(
+    step: ApprovalStep,
+    teamId: string,
+    user: AuthenticatedUser,
+  ): Promise<boolean> {
+    switch (step.approverRole) {
+      case ApproverRole.TEAM_ADMIN:
+        return this.teamAccessService.isTeamAdmin(teamId, user);
+      case ApproverRole.FINANCE:
+        return [UserRole.FINANCE, UserRole.ADMIN].includes(user.role);
+      case ApproverRole.DIRECTOR:
+        return [UserRole.DIRECTOR, UserRole.ADMIN].includes(user.role);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Records the user's decision on the expense's current step.
+   * Returns `completed: true` when the decision settles the expense:
+   * a rejection at any step, or the approval of the last required step.
+   */
+  async recordDecision(
+    expense: Expense,
+    teams: ApprovalTeams,
+    user: AuthenticatedUser,
+    decision: ApprovalDecision,
+    override?: SodOverride,
+  ): Promise<{ completed: boolean; step: PlannedStep }> {
+    const steps = this.getPlan(expense, teams);
+    const level = this.getApprovedLevel(expense);
+    const step = steps[Math.min(level, steps.length - 1)];
+
+    if (!(await this.canDecide(step, step.team, user))) {
+      throw new ForbiddenException(
+        `Approval step "${step.name}" must be decided by ${APPROVER_LABELS[step.approverRole]}`,
+      );
+    }
+
+    expense.approvals.push({
+      level: level + 1,
+      team: new Types.ObjectId(step.team),
+      stepName: step.name,
+      approverRole: step.approverRole,
+      decision,
+      user: new Types.ObjectId(user.userId),
+      name: user.name,
+      email: user.email,
+      decidedAt: new Date(),
+      sodOverride: override?.violation,
+      overrideJustification: override?.justification,
+    });
+
+    return {
+      completed:
+        decision === ApprovalDecision.REJECTED || level + 1 >= steps.length,
+      step,
+    };
+  }
+
+  private getApprovedLevel(expense: Pick<Expense, 'approvals'>): number {
+    return (expense.approvals ?? []).filter(
+      (record) => record.decision === ApprovalDecision.APPROVED,
+    ).length;
+  }
+}
@@ -0,0 +1,124 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ExpenseCategory } from '@shared/lib';
+import { Expense } from '../schemas/expense.schema';
+import { AllocationSchema } from '../schemas/allocation.schema';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import { AllocationDto } from '../dto/expense.dto';
+
+export type TeamShare = { team: Types.ObjectId; amount: number };
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class ExpenseAllocationService {
+  constructor(@InjectModel(Team.name) private teamModel: Model<TeamDocument>) {}
+
+  /**
+   * Validates allocation lines against the expense amount and computes the
+   * amount of percent lines. Rounding differences go to the last percent line.
+   */
+  async build(
+    lines: AllocationDto[],
+    amount: number,
+    category: ExpenseCategory,
+  ): Promise<AllocationSchema[]> {
+    if (lines.length === 0) {
+      return [];
+    }
+    if (
+      lines.some(
+        (line) => (line.amount === undefined) === (line.percent === undefined),
+      )
+    ) {
+      throw new BadRequestException(
+        'Each allocation needs either an amount or a percent',
+      );
+    }
+
+    const teamIds = [...new Set(lines.map((line) => line.team))];
+    const teamCount = await this.teamModel.countDocuments({
+      _id: { $in: teamIds.map((id) => new Types.ObjectId(id)) },
+    });
+    if (teamCount !== teamIds.length) {
+      throw new BadRequestException('Allocation team not found');
+    }
+
+    const allocations: AllocationSchema[] = lines.map((line) => ({
+      team: new Types.ObjectId(line.team),
+      category: line.category ?? category,
+      amount: line.amount ?? roundCents((amount * line.percent!) / 100),
+      percent: line.percent,
+    }));
+
+    const difference = roundCents(amount - this.sum(allocations));
+    const lastPercentLine = [...allocations]
+      .reverse()
+      .find((allocation) => allocation.percent !== undefined);
+    if (
+      difference !== 0 &&
+      lastPercentLine &&
+      Math.abs(difference) <= 0.01 * allocations.length
+    ) {
+      lastPercentLine.amount = roundCents(lastPercentLine.amount + difference);
+    }
+
+    const total = roundCents(this.sum(allocations));
+    if (total !== roundCents(amount)) {
+      throw new BadRequestException(
+        `Allocations add up to ${total} but the expense amount is ${amount}`,
+      );
+    }
+    return allocations;
+  }
+
+  /**
+   * Amount charged to each team, in the team base currency; the whole amount
+   * to the expense team when not split. Expenses without a conversion predate
+   * currencies and count as is.
+   */
+  getShares(
+    expense: Pick<Expense, 'team' | 'amount' | 'conversion' | 'allocations'>,
+  ): TeamShare[] {
+    if (!expense.allocations?.length) {
+      return [
+        {
+          team: expense.team,
+          amount: expense.conversion?.baseAmount ?? expense.amount,
+        },
+      ];
+    }
+
+    const shares = new Map<string, TeamShare>();
+    for (const allocation of expense.allocations) {
+      const key = String(allocation.team);
+      const share = shares.get(key) ?? { team: allocation.team, amount: 0 };
+      share.amount = roundCents(
+        share.amount + (allocation.conversion?.baseAmount ?? allocation.amount),
+      );
+      shares.set(key, share);
+    }
+    return [...shares.values()];
+  }
+
+  // Portion of a split expense charged to one team, in its base currency
+  getTeamShare(expense: Pick<Expense, 'allocations'>, teamId: string): number {
+    return roundCents(
+      (expense.allocations ?? [])
+        .filter((allocation) => String(allocation.team) === teamId)
+        .reduce(
+          (total, allocation) =>
+            total + (allocation.conversion?.baseAmount ?? allocation.amount),
+          0,
+        ),
+    );
+  }
+
+  private sum(allocations: Array<{ amount: number }>): number {
+    return allocations.reduce(
+      (total, allocation) => total + allocation.amount,
+      0,
+    );
+  }
+}
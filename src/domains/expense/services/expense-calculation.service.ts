@@ -0,0 +1,112 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ExpenseType } from '@shared/lib';
+import { RateService } from '../../rate/services/rate.service';
+import { MileageCalculationSchema } from '../schemas/mileage-calculation.schema';
+import { PerDiemCalculationSchema } from '../schemas/per-diem-calculation.schema';
+import { MileageInputDto, PerDiemInputDto } from '../dto/expense.dto';
+
+export type ExpenseCalculation = {
+  amount: number;
+  // Currency of the rate, unset for standard expenses
+  currency?: string;
+  mileage: MileageCalculationSchema | null;
+  perDiem: PerDiemCalculationSchema | null;
+};
+
+export type ExpenseCalculationInputs = {
+  amount?: number;
+  currency?: string;
+  mileage?: MileageInputDto;
+  perDiem?: PerDiemInputDto;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class ExpenseCalculationService {
+  constructor(private rateService: RateService) {}
+
+  /**
+   * Resolves the amount of an expense: as given for standard expenses, from
+   * the rate in effect on the expense date for mileage and per-diem ones.
+   */
+  async calculate(
+    type: ExpenseType,
+    inputs: ExpenseCalculationInputs,
+    date: Date,
+  ): Promise<ExpenseCalculation> {
+    if (type !== ExpenseType.MILEAGE && inputs.mileage) {
+      throw new BadRequestException('mileage only applies to mileage expenses');
+    }
+    if (type !== ExpenseType.PER_DIEM && inputs.perDiem) {
+      throw new BadRequestException(
+        'perDiem only applies to per-diem expenses',
+      );
+    }
+    if (type !== ExpenseType.STANDARD && inputs.amount !== undefined) {
+      throw new BadRequestException(
+        `The amount of a ${type} expense is computed from the rate tables`,
+      );
+    }
+
+    if (type === ExpenseType.MILEAGE) {
+      if (!inputs.mileage) {
+        throw new BadRequestException('mileage is required');
+      }
+      const { vehicleType, distance } = inputs.mileage;
+      const rate = await this.rateService.getMileageRate(vehicleType, date);
+      this.assertRateCurrency(type, inputs.currency, rate.currency);
+      return {
+        amount: roundCents(distance * rate.rate),
+        currency: rate.currency,
+        mileage: {
+          vehicleType,
+          distance,
+          rate: rate.rate,
+          rateId: rate._id as MileageCalculationSchema['rateId'],
+          rateEffectiveFrom: rate.effectiveFrom,
+        },
+        perDiem: null,
+      };
+    }
+
+    if (type === ExpenseType.PER_DIEM) {
+      if (!inputs.perDiem) {
+        throw new BadRequestException('perDiem is required');
+      }
+      const { location, days } = inputs.perDiem;
+      const rate = await this.rateService.getPerDiemRate(location, date);
+      this.assertRateCurrency(type, inputs.currency, rate.currency);
+      return {
+        amount: roundCents(days * rate.dailyRate),
+        currency: rate.currency,
+        mileage: null,
+        perDiem: {
+          location: rate.location,
+          days,
+          dailyRate: rate.dailyRate,
+          rateId: rate._id as PerDiemCalculationSchema['rateId'],
+          rateEffectiveFrom: rate.effectiveFrom,
+        },
+      };
+    }
+
+    if (inputs.amount === undefined) {
+      throw new BadRequestException('amount is required');
+    }
+    return { amount: inputs.amount, mileage: null, perDiem: null };
+  }
+
+  // Computed amounts are in the currency of the rate they come from
+  private assertRateCurrency(
+    type: ExpenseType,
+    currency: string | undefined,
+    rateCurrency: string,
+  ): void {
+    if (currency && currency.toUpperCase() !== rateCurrency) {
+      throw new BadRequestException(
+        `The ${type} rate is in ${rateCurrency}, so the expense must be too`,
+      );
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
+import {
+  ExpenseComment,
+  ExpenseCommentDocument,
+} from '../schemas/expense-comment.schema';
+import { Expense, ExpenseDocument } from '../schemas/expense.schema';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import {
+  CreateExpenseCommentDto,
+  UpdateExpenseCommentDto,
+} from '../dto/expense-comment.dto';
+import { EmailService } from '../../../shared/services/email.service';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import { AuthenticatedUser } from '@shared/lib';
+
+const MENTION_PATTERN = /@([a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,})/gi;
+
+export type ExpenseCommentThread = ExpenseComment & {
+  _id: Types.ObjectId;
+  replies: ExpenseComment[];
+};
+
+@Injectable()
+export class ExpenseCommentService {
+  private readonly logger = new Logger(ExpenseCommentService.name);
+
+  constructor(
+    @InjectModel(ExpenseComment.name)
+    private commentModel: Model<ExpenseCommentDocument>,
+    @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    private emailService: EmailService,
+    private teamAccessService: TeamAccessService,
+    private configService: ConfigService,
+  ) {}
+
+  // Top-level comments, oldest first, each with its replies
+  async findAll(expenseId: string): Promise<ExpenseCommentThread[]> {
+    await this.findExpenseOrFail(expenseId);
+
+    const comments = await this.commentModel
+      .find({ expense: new Types.ObjectId(expenseId) })
+      .sort({ createdAt: 1 })
+      .lean<Array<ExpenseComment & { _id: Types.ObjectId }>>()
+      .exec();
+
+    const threads = new Map<string, ExpenseCommentThread>();
+    for (const comment of comments) {
+      if (comment.deletedAt) {
+        comment.body = '';
+        comment.mentions = [];
+      }
+      if (!comment.parent) {
+        threads.set(String(comment._id), { ...comment, replies: [] });
+      }
+    }
+    for (const comment of comments) {
+      if (comment.parent) {
+        threads.get(String(comment.parent))?.replies.push(comment);
+      }
+    }
+
+    // Deleted comments are only kept when they still hold a conversation
+    return [...threads.values()].filter(
+      (thread) => !thread.deletedAt || thread.replies.length > 0,
+    );
+  }
+
+  async create(
+    expenseId: string,
+    createCommentDto: CreateExpenseCommentDto,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseCommentDocument> {
+    const expense = await this.findExpenseOrFail(expenseId);
+
+    if (createCommentDto.parentId) {
+      const parent = await this.commentModel
+        .findOne({
+          _id: createCommentDto.parentId,
+          expense: expense._id,
+          deletedAt: null,
+        })
+        .exec();
+      if (!parent) {
+        throw new NotFoundException('Parent comment not found');
+      }
+      if (parent.parent) {
+        throw new BadRequestException(
+          'Replies can only be added to top-level comments',
+        );
+      }
+    }
+
+    const team = await this.teamModel.findById(expense.team).exec();
+    const mentions = this.resolveMentions(createCommentDto.body, team, user);
+
+    const comment = await this.commentModel.create({
+      expense: expense._id,
+      parent: createCommentDto.parentId
+        ? new Types.ObjectId(createCommentDto.parentId)
+        : null,
+      author: {
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+      },
+      body: createCommentDto.body,
+      mentions,
+    });
+
+    await this.notifyMentions(mentions, team, expense, comment, user);
+    return comment;
+  }
+
+  async update(
+    expenseId: string,
+    commentId: string,
+    updateCommentDto: UpdateExpenseCommentDto,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseCommentDocument> {
+    const expense = await this.findExpenseOrFail(expenseId);
+    const comment = await this.findOwnComment(expenseId, commentId, user);
+
+    const team = await this.teamModel.findById(expense.team).exec();
+    const mentions = this.resolveMentions(updateCommentDto.body, team, user);
+    const newMentions = mentions.filter(
+      (email) => !comment.mentions.includes(email),
+    );
+
+    comment.body = updateCommentDto.body;
+    comment.mentions = mentions;
+    comment.editedAt = new Date();
+    await comment.save();
+
+    // Only people who were not mentioned before get a new notification
+    await this.notifyMentions(newMentions, team, expense, comment, user);
+    return comment;
+  }
+
+  async remove(
+    expenseId: string,
+    commentId: string,
+    user: AuthenticatedUser,
+  ): Promise<void> {
+    const comment = await this.findOwnComment(expenseId, commentId, user);
+    comment.deletedAt = new Date();
+    await comment.save();
+  }
+
+  // Comments go with their expense when it is purged from the trash
+  async purgeByExpenses(
+    expenseIds: Types.ObjectId[],
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.commentModel.deleteMany(
+      { expense: { $in: expenseIds } },
+      { session },
+    );
+  }
+
+  // Number of visible comments per expense id
+  async countByExpense(
+    expenseIds: Types.ObjectId[],
+  ): Promise<Map<string, number>> {
+    const counts = await this.commentModel.aggregate<{
+      _id: Types.ObjectId;
+      count: number;
+    }>([
+      { $match: { expense: { $in: expenseIds }, deletedAt: null } },
+      { $group: { _id: '$expense', count: { $sum: 1 } } },
+    ]);
+    return new Map(counts.map(({ _id, count }) => [String(_id), count]));
+  }
+
+  private async findExpenseOrFail(id: string): Promise<ExpenseDocument> {
+    const expense = await this.expenseModel.findById(id).exec();
+    if (!expense) {
+      throw new NotFoundException('Expense not found');
+    }
+    return expense;
+  }
+
+  private async findOwnComment(
+    expenseId: string,
+    commentId: string,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseCommentDocument> {
+    const comment = await this.commentModel
+      .findOne({ _id: commentId, expense: expenseId, deletedAt: null })
+      .exec();
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+    if (!this.teamAccessService.isSameUser(comment.author, user)) {
+      throw new ForbiddenException('You can only change your own comments');
+    }
+    return comment;
+  }
+
+  // Mentioned emails that belong to team members, without the author
+  private resolveMentions(
+    body: string,
+    team: TeamDocument | null,
+    user: AuthenticatedUser,
+  ): string[] {
+    const memberEmails = new Set(
+      (team?.members ?? []).map((member) => member.email),
+    );
+    const mentions = new Set<string>();
+    for (const [, email] of body.matchAll(MENTION_PATTERN)) {
+      const normalized = email.toLowerCase();
+      if (memberEmails.has(normalized) && normalized !== user.email) {
+        mentions.add(normalized);
+      }
+    }
+    return [...mentions];
+  }
+
+  private async notifyMentions(
+    emails: string[],
+    team: TeamDocument | null,
+    expense: ExpenseDocument,
+    comment: ExpenseCommentDocument,
+    user: AuthenticatedUser,
+  ): Promise<void> {
+    if (!team || emails.length === 0) {
+      return;
+    }
+
+    const expenseUrl = `${this.configService.get<string>('appUrl')}/expenses/${expense._id}`;
+    for (const email of emails) {
+      const member = team.members.find((m) => m.email === email);
+      if (!member) continue;
+      const result = await this.emailService.sendCommentMention(
+        member,
+        user.name,
+        expense,
+        comment.body,
+        expenseUrl,
+      );
+      if (!result.success) {
+        this.logger.warn(
+          `Mention email to ${email} on expense ${expense._id} not sent: ${result.error}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { DEFAULT_CURRENCY } from '@shared/lib';
+import { ExpenseDocument } from '../schemas/expense.schema';
+import { ConversionSchema } from '../schemas/conversion.schema';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import {
+  ConversionRate,
+  ExchangeRateService,
+} from '../../rate/services/exchange-rate.service';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class ExpenseCurrencyService {
+  constructor(
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    private exchangeRateService: ExchangeRateService,
+  ) {}
+
+  /**
+   * Converts the expense amount, and each allocation, to the base currency of
+   * the team it is charged to, with the rates in effect at the given time.
+   */
+  async convert(expense: ExpenseDocument, at = new Date()): Promise<void> {
+    const teamIds = [
+      expense.team,
+      ...expense.allocations.map((allocation) => allocation.team),
+    ];
+    const teams = await this.teamModel
+      .find({ _id: { $in: teamIds } })
+      .select('baseCurrency')
+      .lean();
+    const baseCurrencies = new Map(
+      teams.map((team) => [String(team._id), team.baseCurrency]),
+    );
+
+    const rates = new Map<string, ConversionRate>();
+    const toBase = async (
+      teamId: Types.ObjectId,
+      amount: number,
+    ): Promise<ConversionSchema> => {
+      const baseCurrency =
+        baseCurrencies.get(String(teamId)) ?? DEFAULT_CURRENCY;
+      if (!rates.has(baseCurrency)) {
+        rates.set(
+          baseCurrency,
+          await this.exchangeRateService.getRate(
+            expense.currency,
+            baseCurrency,
+            at,
+          ),
+        );
+      }
+      const { rate, effectiveFrom } = rates.get(baseCurrency)!;
+      return {
+        baseCurrency,
+        baseAmount: roundCents(amount * rate),
+        rate,
+        rateEffectiveFrom: effectiveFrom,
+        convertedAt: at,
+      };
+    };
+
+    expense.conversion = await toBase(expense.team, expense.amount);
+    for (const allocation of expense.allocations) {
+      allocation.conversion = await toBase(allocation.team, allocation.amount);
+    }
+  }
+}
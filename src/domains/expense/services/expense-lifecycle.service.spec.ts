@@ -0,0 +1,83 @@
+import { ConflictException } from '@nestjs/common';
+import { ExpenseStatus } from '@shared/lib';
+import { ExpenseLifecycleService } from './expense-lifecycle.service';
+
+describe('ExpenseLifecycleService', () => {
+  const lifecycle = new ExpenseLifecycleService();
+
+  describe('assertTransition', () => {
+    it('allows the regular approval path', () => {
+      expect(() =>
+        lifecycle.assertTransition(
+          ExpenseStatus.DRAFT,
+          ExpenseStatus.SUBMITTED,
+        ),
+      ).not.toThrow();
+      expect(() =>
+        lifecycle.assertTransition(
+          ExpenseStatus.SUBMITTED,
+          ExpenseStatus.APPROVED,
+        ),
+      ).not.toThrow();
+      expect(() =>
+        lifecycle.assertTransition(
+          ExpenseStatus.APPROVED,
+          ExpenseStatus.REIMBURSED,
+        ),
+      ).not.toThrow();
+    });
+
+    it('allows asking for and providing more information', () => {
+      expect(
+        lifecycle.canTransition(
+          ExpenseStatus.SUBMITTED,
+          ExpenseStatus.NEEDS_INFO,
+        ),
+      ).toBe(true);
+      expect(
+        lifecycle.canTransition(
+          ExpenseStatus.NEEDS_INFO,
+          ExpenseStatus.SUBMITTED,
+        ),
+      ).toBe(true);
+    });
+
+    it('rejects moving an approved expense back to submitted', () => {
+      expect(() =>
+        lifecycle.assertTransition(
+          ExpenseStatus.APPROVED,
+          ExpenseStatus.SUBMITTED,
+        ),
+      ).toThrow(ConflictException);
+    });
+
+    it('treats rejected, reimbursed and cancelled as final', () => {
+      for (const status of [
+        ExpenseStatus.REJECTED,
+        ExpenseStatus.REIMBURSED,
+        ExpenseStatus.CANCELLED,
+      ]) {
+        expect(lifecycle.isFinal(status)).toBe(true);
+        expect(() =>
+          lifecycle.assertTransition(status, ExpenseStatus.SUBMITTED),
+        ).toThrow(ConflictException);
+      }
+    });
+
+    it('never allows going back to draft', () => {
+      for (const status of Object.values(ExpenseStatus)) {
+        expect(lifecycle.canTransition(status, ExpenseStatus.DRAFT)).toBe(
+          false,
+        );
+      }
+    });
+  });
+
+  describe('isEditable', () => {
+    it('only allows editing before a decision is taken', () => {
+      expect(lifecycle.isEditable(ExpenseStatus.DRAFT)).toBe(true);
+      expect(lifecycle.isEditable(ExpenseStatus.NEEDS_INFO)).toBe(true);
+      expect(lifecycle.isEditable(ExpenseStatus.APPROVED)).toBe(false);
+    });
+  });
+});
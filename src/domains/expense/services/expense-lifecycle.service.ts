@@ -0,0 +1,58 @@
+import { Injectable, ConflictException } from '@nestjs/common';
+import { ExpenseStatus, SPENDING_STATUSES } from '@shared/lib';
+
+const TRANSITIONS: Record<ExpenseStatus, ExpenseStatus[]> = {
+  [ExpenseStatus.DRAFT]: [ExpenseStatus.SUBMITTED, ExpenseStatus.CANCELLED],
+  [ExpenseStatus.SUBMITTED]: [
+    ExpenseStatus.APPROVED,
+    ExpenseStatus.REJECTED,
+    ExpenseStatus.NEEDS_INFO,
+    ExpenseStatus.CANCELLED,
+  ],
+  [ExpenseStatus.NEEDS_INFO]: [
+    ExpenseStatus.SUBMITTED,
+    ExpenseStatus.CANCELLED,
+  ],
+  [ExpenseStatus.APPROVED]: [ExpenseStatus.REIMBURSED, ExpenseStatus.CANCELLED],
+  [ExpenseStatus.REJECTED]: [],
+  [ExpenseStatus.REIMBURSED]: [],
+  [ExpenseStatus.CANCELLED]: [],
+};
+
+// Statuses in which the submitter can still change the expense details
+const EDITABLE_STATUSES: ExpenseStatus[] = [
+  ExpenseStatus.DRAFT,
+  ExpenseStatus.SUBMITTED,
+  ExpenseStatus.NEEDS_INFO,
+];
+
+@Injectable()
+export class ExpenseLifecycleService {
+  getAllowedTransitions(from: ExpenseStatus): ExpenseStatus[] {
+    return TRANSITIONS[from] ?? [];
+  }
+
+  canTransition(from: ExpenseStatus, to: ExpenseStatus): boolean {
+    return this.getAllowedTransitions(from).includes(to);
+  }
+
+  assertTransition(from: ExpenseStatus, to: ExpenseStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new ConflictException(
+        `Cannot move an expense from ${from} to ${to}`,
+      );
+    }
+  }
+
+  isEditable(status: ExpenseStatus): boolean {
+    return EDITABLE_STATUSES.includes(status);
+  }
+
+  isFinal(status: ExpenseStatus): boolean {
+    return this.getAllowedTransitions(status).length === 0;
+  }
+
+  countsTowardsSpending(status: ExpenseStatus): boolean {
+    return SPENDING_STATUSES.includes(status);
+  }
+}
@@ -0,0 +1,147 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DEFAULT_CURRENCY,
+  ExpenseCategory,
+  PolicyEnforcement,
+  PolicyRule,
+  formatMoney,
+} from '@shared/lib';
+import { ExpenseDocument } from '../schemas/expense.schema';
+import { PolicyViolationSchema } from '../schemas/policy-violation.schema';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import { SpendingPolicySchema } from '../../team/schemas/spending-policy.schema';
+
+type PolicyLine = {
+  team: Types.ObjectId;
+  category: ExpenseCategory;
+  amount: number;
+};
+
+@Injectable()
+export class ExpensePolicyService {
+  constructor(@InjectModel(Team.name) private teamModel: Model<TeamDocument>) {}
+
+  /**
+   * Checks the expense against the spending policies of every team it is
+   * charged to and records the violations on it. Violations of blocking
+   * policies reject the expense unless `block` is false. Expects the
+   * conversion to the team base currency to be up to date.
+   */
+  async apply(
+    expense: ExpenseDocument,
+    options: { block?: boolean } = {},
+  ): Promise<void> {
+    const lines = this.getLines(expense);
+    const teams = await this.teamModel
+      .find({ _id: { $in: lines.map((line) => line.team) } })
+      .select('name baseCurrency spendingPolicies')
+      .exec();
+
+    const violations: PolicyViolationSchema[] = [];
+    const blocking: string[] = [];
+    for (const line of lines) {
+      const team = teams.find((t) => String(t._id) === String(line.team));
+      const policy = team?.spendingPolicies?.find(
+        (p) => p.category === line.category,
+      );
+      if (!team || !policy) continue;
+
+      for (const [rule, message] of this.check(
+        expense,
+        line,
+        policy,
+        team.baseCurrency ?? DEFAULT_CURRENCY,
+      )) {
+        violations.push({
+          rule,
+          team: line.team,
+          category: line.category,
+          message,
+        });
+        if (policy.enforcement === PolicyEnforcement.BLOCK) {
+          blocking.push(message);
+        }
+      }
+    }
+
+    if (blocking.length && options.block !== false) {
+      throw new BadRequestException(
+        `The expense violates the spending policy: ${blocking.join('; ')}`,
+      );
+    }
+    expense.policyViolations = violations;
+  }
+
+  private check(
+    expense: ExpenseDocument,
+    line: PolicyLine,
+    policy: SpendingPolicySchema,
+    currency: string,
+  ): Array<[PolicyRule, string]> {
+    const results: Array<[PolicyRule, string]> = [];
+    const limited = policy.perAttendee
+      ? line.amount / (expense.attendees || 1)
+      : line.amount;
+    if (policy.maxAmount !== undefined && limited > policy.maxAmount) {
+      results.push([
+        PolicyRule.MAX_AMOUNT,
+        `${line.category} expenses are limited to ${formatMoney(policy.maxAmount, currency)}${policy.perAttendee ? ' per attendee' : ''}`,
+      ]);
+    }
+    if (
+      policy.receiptRequiredAbove !== undefined &&
+      line.amount > policy.receiptRequiredAbove &&
+      !expense.receipt?.filename
+    ) {
+      results.push([
+        PolicyRule.RECEIPT_REQUIRED,
+        `${line.category} expenses above ${formatMoney(policy.receiptRequiredAbove, currency)} need a receipt`,
+      ]);
+    }
+    if (
+      policy.justificationRequiredAbove !== undefined &&
+      line.amount > policy.justificationRequiredAbove &&
+      !expense.justification?.trim()
+    ) {
+      results.push([
+        PolicyRule.JUSTIFICATION_REQUIRED,
+        `${line.category} expenses above ${formatMoney(policy.justificationRequiredAbove, currency)} need a justification`,
+      ]);
+    }
+    // Expense dates are calendar days stored at UTC midnight
+    if (policy.weekendNotAllowed && [0, 6].includes(expense.date.getUTCDay())) {
+      results.push([
+        PolicyRule.WEEKEND_NOT_ALLOWED,
+        `${line.category} expenses cannot be incurred on a weekend`,
+      ]);
+    }
+    return results;
+  }
+
+  // Each team checks its own portion, in its base currency
+  private getLines(expense: ExpenseDocument): PolicyLine[] {
+    if (!expense.allocations?.length) {
+      return [
+        {
+          team: expense.team,
+          category: expense.category,
+          amount: expense.conversion?.baseAmount ?? expense.amount,
+        },
+      ];
+    }
+    const lines = new Map<string, PolicyLine>();
+    for (const allocation of expense.allocations) {
+      const key = `${String(allocation.team)}|${allocation.category}`;
+      const line = lines.get(key) ?? {
+        team: allocation.team,
+        category: allocation.category,
+        amount: 0,
+      };
+      line.amount += allocation.conversion?.baseAmount ?? allocation.amount;
+      lines.set(key, line);
+    }
+    return [...lines.values()];
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { TaxCodeService } from '../../tax/services/tax-code.service';
+import { TaxSchema } from '../schemas/tax.schema';
+import { TaxInputDto } from '../dto/expense.dto';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class ExpenseTaxService {
+  constructor(private taxCodeService: TaxCodeService) {}
+
+  /**
+   * Splits the gross amount of an expense into net and tax with the rate of
+   * the tax code. Net and tax amounts sent with it must reconcile.
+   */
+  async build(input: TaxInputDto, amount: number): Promise<TaxSchema> {
+    const taxCode = await this.taxCodeService.getActiveCode(
+      input.country,
+      input.code,
+    );
+    if (input.rate !== undefined && input.rate !== taxCode.rate) {
+      throw new BadRequestException(
+        `Tax code ${taxCode.code} has a rate of ${taxCode.rate}%, not ${input.rate}%`,
+      );
+    }
+
+    return {
+      country: taxCode.country,
+      code: taxCode.code,
+      rate: taxCode.rate,
+      reclaimable: taxCode.reclaimable,
+      ...this.split(amount, taxCode.rate, input),
+    };
+  }
+
+  // Splits a new amount at the rate the expense was recorded with
+  rebase(tax: TaxSchema, amount: number): TaxSchema {
+    return { ...tax, ...this.split(amount, tax.rate, {}) };
+  }
+
+  private split(
+    amount: number,
+    rate: number,
+    given: Pick<TaxInputDto, 'netAmount' | 'taxAmount'>,
+  ): Pick<TaxSchema, 'netAmount' | 'taxAmount'> {
+    const taxAmount =
+      given.taxAmount ??
+      (given.netAmount !== undefined
+        ? roundCents(amount - given.netAmount)
+        : roundCents((amount * rate) / (100 + rate)));
+    const netAmount = given.netAmount ?? roundCents(amount - taxAmount);
+
+    if (roundCents(netAmount + taxAmount) !== roundCents(amount)) {
+      throw new BadRequestException(
+        `Net amount ${netAmount} and tax amount ${taxAmount} do not add up to the amount ${amount}`,
+      );
+    }
+    if (netAmount < 0 || taxAmount < 0) {
+      throw new BadRequestException('Net and tax amounts cannot be negative');
+    }
+    // Receipts round the tax to the cent, so allow for that much difference
+    if (Math.abs(roundCents((netAmount * rate) / 100) - taxAmount) > 0.01) {
+      throw new BadRequestException(
+        `Tax amount ${taxAmount} is not ${rate}% of the net amount ${netAmount}`,
+      );
+    }
+    return { netAmount, taxAmount };
+  }
+}
@@ -0,0 +1,98 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AuditAction, AuditEntityType } from '@shared/lib';
+import { AuditService } from '../../audit/services/audit.service';
+import { ExpenseDocument } from '../schemas/expense.schema';
+import { ExpenseVersion, ExpenseVersionValues } from '../types/types';
+
+// Fields whose changes make a new version of the expense
+const VERSIONED_FIELDS = [
+  'description',
+  'amount',
+  'category',
+  'date',
+  'status',
+] as const;
+
+@Injectable()
+export class ExpenseVersionService {
+  constructor(private auditService: AuditService) {}
+
+  /**
+   * Rebuilds the versions of an expense from its audit log, oldest first, by
+   * walking back from the current values and undoing each recorded change.
+   * Expenses created before the audit log start from the values they had
+   * at their first recorded change.
+   */
+  async getVersions(expense: ExpenseDocument): Promise<ExpenseVersion[]> {
+    const entries = await this.auditService.findForEntity(
+      AuditEntityType.EXPENSE,
+      expense._id as string,
+    );
+
+    let values = this.pick(expense.toObject());
+    let created = false;
+    const versions: Omit<ExpenseVersion, 'version'>[] = [];
+    for (const entry of [...entries].reverse()) {
+      const changes = entry.changes.filter((change) =>
+        (VERSIONED_FIELDS as readonly string[]).includes(change.field),
+      );
+      if (entry.action === AuditAction.CREATE) {
+        created = true;
+      } else if (changes.length === 0) {
+        continue;
+      }
+      versions.unshift({
+        values,
+        changes: changes.map(({ field, before, after }) => ({
+          field,
+          before,
+          after,
+        })),
+        changedAt: entry.createdAt,
+        changedBy: entry.actor,
+        operation: entry.operation,
+      });
+      if (created) break;
+      values = { ...values };
+      for (const change of changes) {
+        (values as Record<string, any>)[change.field] = change.before;
+      }
+    }
+
+    if (!created) {
+      versions.unshift({
+        values,
+        changes: [],
+        changedAt: (expense as any).createdAt,
+        changedBy: null,
+        operation: null,
+      });
+    }
+    return versions.map((version, index) => ({
+      version: index + 1,
+      ...version,
+    }));
+  }
+
+  async getVersion(
+    expense: ExpenseDocument,
+    version: number,
+  ): Promise<ExpenseVersion> {
+    const versions = await this.getVersions(expense);
+    const found = versions.find((v) => v.version === version);
+    if (!found) {
+      throw new NotFoundException(
+        `Version ${version} of this expense not found`,
+      );
+    }
+    return found;
+  }
+
+  // Values as the audit log stores them, so dates are ISO strings
+  private pick(snapshot: Record<string, any>): ExpenseVersionValues {
+    const plain = JSON.parse(JSON.stringify(snapshot));
+    return Object.fromEntries(
+      VERSIONED_FIELDS.map((field) => [field, plain[field] ?? null]),
+    ) as ExpenseVersionValues;
+  }
+}
@@ -0,0 +1,432 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClientSession, Connection, Model, Types } from 'mongoose';
+import {
+  AuditAction,
+  AuditEntityType,
+  AuthenticatedUser,
+  BulkActionOutcome,
+  ExpenseStatus,
+  UserRole,
+} from '@shared/lib';
+import { ExpenseDocument } from '../schemas/expense.schema';
+import { BulkActionDto } from '../dto/expense.dto';
+import { TeamDocument } from '../../team/schemas/team.schema';
+import { EmailService } from '../../../shared/services/email.service';
+import { AiService } from '../../../shared/services/ai.service';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import { AuditService } from '../../audit/services/audit.service';
+import { ApprovalChainService } from './approval-chain.service';
+import { ExpenseAllocationService } from './expense-allocation.service';
+import { ExpenseCalculationService } from './expense-calculation.service';
+import { ExpenseCommentService } from './expense-comment.service';
+import { ExpenseCurrencyService } from './expense-currency.service';
+import { ExpenseLifecycleService } from './expense-lifecycle.service';
+import { ExpensePolicyService } from './expense-policy.service';
+import { ExpenseTaxService } from './expense-tax.service';
+import { ExpenseVersionService } from './expense-version.service';
+import { SeparationOfDutiesService } from './separation-of-duties.service';
+import { ExpenseService } from './expense.service';
+
+// Collaborators are faked, so their schema imports are not needed
+jest.mock('../schemas/expense.schema', () => ({ Expense: class Expense {} }));
+jest.mock('../../team/schemas/team.schema', () => ({ Team: class Team {} }));
+jest.mock('../../../shared/services/email.service', () => ({
+  EmailService: class EmailService {},
+}));
+jest.mock('../../../shared/services/ai.service', () => ({
+  AiService: class AiService {},
+}));
+jest.mock('../../auth/services/team-access.service', () => ({
+  TeamAccessService: class TeamAccessService {},
+}));
+jest.mock('../../audit/services/audit.service', () => ({
+  AuditService: class AuditService {},
+}));
+jest.mock('./approval-chain.service', () => ({
+  ApprovalChainService: class ApprovalChainService {},
+}));
+jest.mock('./expense-calculation.service', () => ({
+  ExpenseCalculationService: class ExpenseCalculationService {},
+}));
+jest.mock('./expense-comment.service', () => ({
+  ExpenseCommentService: class ExpenseCommentService {},
+}));
+jest.mock('./expense-currency.service', () => ({
+  ExpenseCurrencyService: class ExpenseCurrencyService {},
+}));
+jest.mock('./expense-policy.service', () => ({
+  ExpensePolicyService: class ExpensePolicyService {},
+}));
+jest.mock('./expense-tax.service', () => ({
+  ExpenseTaxService: class ExpenseTaxService {},
+}));
+jest.mock('./expense-version.service', () => ({
+  ExpenseVersionService: class ExpenseVersionService {},
+}));
+
+describe('ExpenseService', () => {
+  const session = {} as ClientSession;
+  const teamId = new Types.ObjectId();
+  const user: AuthenticatedUser = {
+    userId: new Types.ObjectId().toString(),
+    email: 'admin@example.com',
+    name: 'Admin',
+    role: UserRole.ADMIN,
+  };
+  const member: AuthenticatedUser = {
+    userId: new Types.ObjectId().toString(),
+    email: 'member@example.com',
+    name: 'Member',
+    role: UserRole.USER,
+  };
+
+  let expense: Record<string, any>;
+  let expenseModel: Record<string, jest.Mock>;
+  let teamModel: Record<string, jest.Mock>;
+  let connection: { transaction: jest.Mock };
+  let auditService: { recordMany: jest.Mock };
+  let teamAccessService: Record<string, jest.Mock>;
+  let approvalChainService: { recordDecision: jest.Mock };
+  let emailService: { sendExpenseApprovalNotification: jest.Mock };
+  let service: ExpenseService;
+
+  const createExpense = (overrides: Record<string, unknown> = {}) => ({
+    _id: new Types.ObjectId(),
+    __v: 3,
+    team: teamId,
+    amount: 120,
+    status: ExpenseStatus.APPROVED,
+    allocations: [],
+    approvals: [],
+    statusHistory: [],
+    submittedBy: { email: 'submitter@example.com', name: 'Submitter' },
+    deletedAt: null,
+    payoutBatch: null,
+    save: jest.fn().mockResolvedValue(undefined),
+    populate: jest.fn().mockResolvedValue(undefined),
+    toObject() {
+      return { status: this.status, deletedAt: this.deletedAt };
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    expense = createExpense();
+    const query = { exec: () => Promise.resolve(expense) };
+    expenseModel = {
+      find: jest.fn(),
+      findById: jest.fn().mockReturnValue(query),
+      findOne: jest.fn().mockReturnValue(query),
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1 }),
+    };
+    teamModel = {
+      countDocuments: jest.fn().mockResolvedValue(1),
+      find: jest.fn().mockResolvedValue([{ _id: teamId, approvalChain: [] }]),
+      findById: jest.fn().mockResolvedValue({
+        name: 'Engineering',
+        budget: 10000,
+        currentSpending: 500,
+      }),
+      updateOne: jest.fn().mockResolvedValue({}),
+    };
+    connection = {
+      transaction: jest.fn((work: (session: ClientSession) => unknown) =>
+        work(session),
+      ),
+    };
+    auditService = { recordMany: jest.fn().mockResolvedValue(undefined) };
+    teamAccessService = {
+      isTeamAdmin: jest.fn().mockResolvedValue(true),
+      assertAnyTeamRole: jest.fn().mockResolvedValue(undefined),
+      expenseTeamIds: jest.fn().mockReturnValue([String(teamId)]),
+    };
+    approvalChainService = {
+      recordDecision: jest
+        .fn()
+        .mockResolvedValue({ completed: true, step: { name: 'Team admin' } }),
+    };
+    emailService = {
+      sendExpenseApprovalNotification: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new ExpenseService(
+      connection as unknown as Connection,
+      expenseModel as unknown as Model<ExpenseDocument>,
+      teamModel as unknown as Model<TeamDocument>,
+      emailService as unknown as EmailService,
+      {} as AiService,
+      teamAccessService as unknown as TeamAccessService,
+      approvalChainService as unknown as ApprovalChainService,
+      new ExpenseLifecycleService(),
+      new SeparationOfDutiesService(
+        new ConfigService({}),
+        teamAccessService as unknown as TeamAccessService,
+      ),
+      {} as ExpenseCommentService,
+      new ExpenseAllocationService({} as Model<TeamDocument>),
+      {} as ExpenseCalculationService,
+      { convert: jest.fn() } as unknown as ExpenseCurrencyService,
+      {} as ExpenseTaxService,
+      {} as ExpensePolicyService,
+      {} as ExpenseVersionService,
+      auditService as unknown as AuditService,
+      new ConfigService({}),
+    );
+  });
+
+  describe('spending', () => {
+    it('releases the spending of a deleted approved expense in the same transaction as the save and audit entry', async () => {
+      await service.remove(String(expense._id), user);
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(expense.save).toHaveBeenCalledWith({ session });
+      expect(teamModel.updateOne).toHaveBeenCalledWith(
+        { _id: String(teamId) },
+        { $inc: { currentSpending: -120 } },
+        { session },
+      );
+      expect(auditService.recordMany).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            entityType: AuditEntityType.EXPENSE,
+            entityId: expense._id,
+            action: AuditAction.DELETE,
+            operation: 'expense.delete',
+          }),
+        ],
+        session,
+      );
+    });
+
+    it('claims the expense as it was loaded before saving it', async () => {
+      await service.remove(String(expense._id), user);
+
+      expect(expenseModel.updateOne).toHaveBeenCalledWith(
+        {
+          _id: expense._id,
+          __v: 3,
+          status: ExpenseStatus.APPROVED,
+          deletedAt: null,
+        },
+        { $set: { status: ExpenseStatus.APPROVED } },
+        { session },
+      );
+    });
+
+    it('moves the spending of every allocated team by its portion', async () => {
+      const otherTeamId = new Types.ObjectId();
+      expense.allocations = [
+        { team: teamId, amount: 80 },
+        { team: otherTeamId, amount: 40 },
+      ];
+
+      await service.remove(String(expense._id), user);
+
+      expect(teamModel.updateOne).toHaveBeenCalledTimes(2);
+      expect(teamModel.updateOne).toHaveBeenCalledWith(
+        { _id: String(teamId) },
+        { $inc: { currentSpending: -80 } },
+        { session },
+      );
+      expect(teamModel.updateOne).toHaveBeenCalledWith(
+        { _id: String(otherTeamId) },
+        { $inc: { currentSpending: -40 } },
+        { session },
+      );
+    });
+
+    it('leaves spending alone for expenses that do not count towards it', async () => {
+      expense.status = ExpenseStatus.SUBMITTED;
+
+      await service.remove(String(expense._id), user);
+
+      expect(teamModel.updateOne).not.toHaveBeenCalled();
+      expect(auditService.recordMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('charges a restored approved expense to its team again', async () => {
+      expense.deletedAt = new Date();
+
+      await service.restore(String(expense._id), user);
+
+      expect(expenseModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ deletedAt: { $ne: null } }),
+        expect.anything(),
+        { session },
+      );
+      expect(teamModel.updateOne).toHaveBeenCalledWith(
+        { _id: String(teamId) },
+        { $inc: { currentSpending: 120 } },
+        { session },
+      );
+      expect(teamModel.findById).toHaveBeenCalledWith(teamId);
+    });
+
+    it('writes nothing when the expense was changed at the same time', async () => {
+      expenseModel.updateOne.mockResolvedValue({ matchedCount: 0 });
+
+      await expect(service.remove(String(expense._id), user)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(expense.save).not.toHaveBeenCalled();
+      expect(teamModel.updateOne).not.toHaveBeenCalled();
+      expect(auditService.recordMany).not.toHaveBeenCalled();
+    });
+
+    it('fails the change when the audit entry cannot be written', async () => {
+      auditService.recordMany.mockRejectedValue(new Error('write conflict'));
+
+      await expect(service.remove(String(expense._id), user)).rejects.toThrow(
+        'write conflict',
+      );
+    });
+  });
+
+  describe('bulkAction', () => {
+    const approve = (
+      expenses: Array<Record<string, any>>,
+      options: Partial<BulkActionDto> = {},
+      actor: AuthenticatedUser = user,
+    ) => {
+      expenseModel.find.mockReturnValue({
+        exec: () => Promise.resolve(expenses),
+      });
+      return service.bulkAction(
+        {
+          action: 'approve',
+          expenseIds: expenses.map((item) => String(item._id)),
+          ...options,
+        } as BulkActionDto,
+        actor,
+      );
+    };
+
+    it('reports an outcome for every expense', async () => {
+      const pending = createExpense({ status: ExpenseStatus.SUBMITTED });
+      const approved = createExpense();
+      const stale = createExpense({ status: ExpenseStatus.SUBMITTED });
+      const missingId = new Types.ObjectId().toString();
+
+      const response = await approve([pending, approved, stale], {
+        expenseIds: [pending, approved, stale]
+          .map((item) => String(item._id))
+          .concat(missingId),
+        versions: { [String(stale._id)]: 2 },
+      });
+
+      expect(
+        response.results.map((result) => [result.expenseId, result.outcome]),
+      ).toEqual([
+        [String(pending._id), BulkActionOutcome.UPDATED],
+        [String(approved._id), BulkActionOutcome.SKIPPED],
+        [String(stale._id), BulkActionOutcome.CONFLICT],
+        [missingId, BulkActionOutcome.NOT_FOUND],
+      ]);
+      expect(response).toMatchObject({
+        dryRun: false,
+        updatedCount: 1,
+        message: '1 of 4 expenses approved',
+      });
+      expect(pending.save).toHaveBeenCalledTimes(1);
+      expect(approved.save).not.toHaveBeenCalled();
+      expect(stale.save).not.toHaveBeenCalled();
+      expect(teamModel.updateOne).toHaveBeenCalledWith(
+        { _id: String(teamId) },
+        { $inc: { currentSpending: 120 } },
+        { session },
+      );
+    });
+
+    it('decides an expense listed twice only once', async () => {
+      const pending = createExpense({ status: ExpenseStatus.SUBMITTED });
+
+      const response = await approve([pending], {
+        expenseIds: [String(pending._id), String(pending._id)],
+      });
+
+      expect(response.results).toHaveLength(1);
+      expect(approvalChainService.recordDecision).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps going when one expense was changed at the same time', async () => {
+      const first = createExpense({ status: ExpenseStatus.SUBMITTED });
+      const second = createExpense({ status: ExpenseStatus.SUBMITTED });
+      expenseModel.updateOne.mockResolvedValueOnce({ matchedCount: 0 });
+
+      const response = await approve([first, second]);
+
+      expect(response.results.map((result) => result.outcome)).toEqual([
+        BulkActionOutcome.CONFLICT,
+        BulkActionOutcome.UPDATED,
+      ]);
+      expect(response.results[0].status).toBe(ExpenseStatus.SUBMITTED);
+      expect(
+        emailService.sendExpenseApprovalNotification,
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports expenses the user cannot decide as forbidden without details', async () => {
+      teamAccessService.assertAnyTeamRole.mockRejectedValue(
+        new ForbiddenException(
+          'Only team admins can approve or reject expenses',
+        ),
+      );
+      const pending = createExpense({ status: ExpenseStatus.SUBMITTED });
+
+      const response = await approve([pending], {}, member);
+
+      expect(response.results).toEqual([
+        {
+          expenseId: String(pending._id),
+          outcome: BulkActionOutcome.FORBIDDEN,
+          reason: 'Only team admins can approve or reject expenses',
+        },
+      ]);
+      expect(pending.save).not.toHaveBeenCalled();
+    });
+
+    it('checks every expense without saving or notifying on a dry run', async () => {
+      const pending = createExpense({ status: ExpenseStatus.SUBMITTED });
+      const blocked = createExpense({ status: ExpenseStatus.SUBMITTED });
+      approvalChainService.recordDecision
+        .mockResolvedValueOnce({
+          completed: true,
+          step: { name: 'Team admin' },
+        })
+        .mockRejectedValueOnce(
+          new ForbiddenException(
+            'Approval step "Finance" must be decided by a finance approver',
+          ),
+        );
+
+      const response = await approve([pending, blocked], { dryRun: true });
+
+      expect(response).toMatchObject({
+        dryRun: true,
+        updatedCount: 1,
+        message: '1 of 2 expenses would be approved',
+      });
+      expect(response.results).toEqual([
+        {
+          expenseId: String(pending._id),
+          outcome: BulkActionOutcome.UPDATED,
+          status: ExpenseStatus.APPROVED,
+        },
+        {
+          expenseId: String(blocked._id),
+          outcome: BulkActionOutcome.FORBIDDEN,
+          status: ExpenseStatus.SUBMITTED,
+          reason:
+            'Approval step "Finance" must be decided by a finance approver',
+        },
+      ]);
+      expect(connection.transaction).not.toHaveBeenCalled();
+      expect(pending.save).not.toHaveBeenCalled();
+      expect(auditService.recordMany).not.toHaveBeenCalled();
+      expect(
+        emailService.sendExpenseApprovalNotification,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,39 +2,127 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  PreconditionFailedException,
+  HttpException,
   Logger,
 } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model, Types } from 'mongoose';
 import {
   Expense,
   ExpenseSchema,
   ExpenseDocument,
 } from '../schemas/expense.schema';
 import { Team, TeamSchema, TeamDocument } from '../../team/schemas/team.schema';
+import { RecurringExpenseDocument } from '../schemas/recurring-expense.schema';
 import {
   CreateExpenseDto,
   UpdateExpenseDto,
   BulkActionDto,
+  ResubmitExpenseDto,
 } from '../dto/expense.dto';
 import { EmailService } from '../../../shared/services/email.service';
 import { AiService } from '../../../shared/services/ai.service';
-import { CreateExpenseResponse } from '../types/types';
-import { ExpenseStatus } from '@shared/lib';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import {
+  ApprovalChainService,
+  ApprovalTeams,
+  PlannedStep,
+} from './approval-chain.service';
+import {
+  ExpenseAllocationService,
+  TeamShare,
+} from './expense-allocation.service';
+import { ExpenseCalculationService } from './expense-calculation.service';
+import { ExpenseCurrencyService } from './expense-currency.service';
+import { ExpenseTaxService } from './expense-tax.service';
+import { ExpensePolicyService } from './expense-policy.service';
+import { ExpenseVersionService } from './expense-version.service';
+import { ExpenseLifecycleService } from './expense-lifecycle.service';
+import { SeparationOfDutiesService } from './separation-of-duties.service';
+import { ExpenseCommentService } from './expense-comment.service';
+import {
+  AuditEntry,
+  AuditService,
+} from '../../audit/services/audit.service';
+import { StatusChangeSchema } from '../schemas/status-change.schema';
+import {
+  BulkActionResult,
+  CreateExpenseResponse,
+  ExpenseVersion,
+  ListedExpense,
+  ListedTeam,
+  StatusChangeOptions,
+} from '../types/types';
+import {
+  ApprovalChainStatus,
+  ApprovalDecision,
+  ApproverRole,
+  AuditAction,
+  AuditEntityType,
+  AuthenticatedUser,
+  BulkActionOutcome,
+  DEFAULT_CURRENCY,
+  ExpenseStatus,
+  ExpenseType,
+  MemberRole,
+  SPENDING_STATUSES,
+  UserRole,
+  formatMoney,
+} from '@shared/lib';
+
+// Roles that can decide any expense in bulk, not only those of teams they administer
+const BULK_ACTION_BYPASS_ROLES = [
+  UserRole.ADMIN,
+  UserRole.FINANCE,
+  UserRole.DIRECTOR,
+];
+
+// What an expense counts towards team spending at a point in time
+type SpendingState = {
+  status: ExpenseStatus;
+  deleted: boolean;
+  shares: TeamShare[];
+};
+
+// An expense to save, with the audit entry that records the change
+type ExpenseChange = {
+  expense: ExpenseDocument;
+  previous: SpendingState | null;
+  audit: Pick<AuditEntry, 'action' | 'operation' | 'before' | 'actor'>;
+};
 
 @Injectable()
 export class ExpenseService {
   private readonly logger = new Logger(ExpenseService.name);
 
   constructor(
+    @InjectConnection() private connection: Connection,
     @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
     @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
     private emailService: EmailService,
     private aiService: AiService,
+    private teamAccessService: TeamAccessService,
+    private approvalChainService: ApprovalChainService,
+    private expenseLifecycleService: ExpenseLifecycleService,
+    private separationOfDutiesService: SeparationOfDutiesService,
+    private expenseCommentService: ExpenseCommentService,
+    private expenseAllocationService: ExpenseAllocationService,
+    private expenseCalculationService: ExpenseCalculationService,
+    private expenseCurrencyService: ExpenseCurrencyService,
+    private expenseTaxService: ExpenseTaxService,
+    private expensePolicyService: ExpensePolicyService,
+    private expenseVersionService: ExpenseVersionService,
+    private auditService: AuditService,
+    private configService: ConfigService,
   ) {}
 
   async create(
     createExpenseDto: CreateExpenseDto,
+    user: AuthenticatedUser,
   ): Promise<CreateExpenseResponse> {
     const teamId = Types.ObjectId.isValid(String(createExpenseDto.team))
       ? new Types.ObjectId(String(createExpenseDto.team))
@@ -45,14 +133,25 @@ export class ExpenseService {
       throw new BadRequestException('Team not found');
     }
 
+    const calculation = await this.expenseCalculationService.calculate(
+      createExpenseDto.type ?? ExpenseType.STANDARD,
+      createExpenseDto,
+      new Date(createExpenseDto.date),
+    );
+    const { amount, mileage, perDiem } = calculation;
+    const currency =
+      calculation.currency ??
+      createExpenseDto.currency?.toUpperCase() ??
+      team.baseCurrency;
+
     const aiSuggestion = await this.aiService.suggestExpenseCategory(
       createExpenseDto.description,
-      createExpenseDto.amount,
+      amount,
+      currency,
     );
-    let aiSuggestedCategory: any = null;
-    if (aiSuggestion.success) {
-      aiSuggestedCategory = aiSuggestion.category;
-    }
+    const aiSuggestedCategory = aiSuggestion.success
+      ? (aiSuggestion.category ?? null)
+      : null;
 
     const recentExpenses = await this.expenseModel
       .find({
@@ -66,45 +165,176 @@ export class ExpenseService {
 
     const duplicateCheck = await this.aiService.detectDuplicateExpense(
       createExpenseDto.description,
-      createExpenseDto.amount,
+      amount,
+      currency,
       createExpenseDto.team,
       recentExpenses,
     );
 
+    const allocations = await this.expenseAllocationService.build(
+      createExpenseDto.allocations ?? [],
+      amount,
+      createExpenseDto.category,
+    );
+    const tax = createExpenseDto.tax
+      ? await this.expenseTaxService.build(createExpenseDto.tax, amount)
+      : null;
+
+    const submittedBy = {
+      user: new Types.ObjectId(user.userId),
+      name: user.name,
+      email: user.email,
+    };
     const expense = new this.expenseModel({
       ...createExpenseDto,
       team: teamId,
+      amount,
+      currency,
+      mileage,
+      perDiem,
+      allocations,
+      tax,
       date: new Date(createExpenseDto.date),
+      status: createExpenseDto.status ?? ExpenseStatus.SUBMITTED,
+      submittedBy,
+      statusHistory: [
+        {
+          to: createExpenseDto.status ?? ExpenseStatus.SUBMITTED,
+          ...submittedBy,
+          changedAt: new Date(),
+        },
+      ],
       aiSuggestedCategory,
       isDuplicate: duplicateCheck.success ? duplicateCheck.isDuplicate : false,
       duplicateReason: duplicateCheck.success ? duplicateCheck.reason : null,
     });
 
-    const savedExpense = await expense.save();
+    await this.expenseCurrencyService.convert(expense);
+    await this.expensePolicyService.apply(expense);
+
+    // New expenses don't count towards spending yet; this saves them with their audit entry
+    await this.saveWithSpending([
+      {
+        expense,
+        previous: null,
+        audit: { action: AuditAction.CREATE, operation: 'expense.create' },
+      },
+    ]);
+
+    const result: CreateExpenseResponse = {
+      expense,
+      aiSuggestion: aiSuggestion.success
+        ? { category: aiSuggestion.category }
+        : null,
+      duplicateWarning:
+        duplicateCheck.success && duplicateCheck.isDuplicate
+          ? {
+              isDuplicate: true,
+              confidence: duplicateCheck.confidence,
+              reason: duplicateCheck.reason,
+            }
+          : null,
+    };
+    return result;
+  }
 
-    const result = {
-      expense: savedExpense,
-      aiSuggestion: null,
-      duplicateWarning: null,
-    } as unknown as CreateExpenseResponse;
+  /**
+   * Generates the expense of one due date of a recurring definition. It is
+   * submitted in the owner's name, or approved right away when the amount is
+   * below the definition's auto-approval threshold and the team admin step of
+   * the approval chain is the only one it needs.
+   */
+  async createRecurringOccurrence(
+    recurring: RecurringExpenseDocument,
+    date: Date,
+  ): Promise<ExpenseDocument> {
+    const now = new Date();
+    const submittedBy = {
+      user: recurring.submittedBy.user,
+      name: recurring.submittedBy.name,
+      email: recurring.submittedBy.email,
+    };
+    const team = recurring.currency
+      ? null
+      : await this.teamModel.findById(recurring.team).select('baseCurrency');
 
-    if (aiSuggestion.success) {
-      result.aiSuggestion = { category: aiSuggestion.category } as any;
-    }
-    if (duplicateCheck.success && duplicateCheck.isDuplicate) {
-      result.duplicateWarning = {
-        isDuplicate: true,
-        confidence: duplicateCheck.confidence,
-        reason: duplicateCheck.reason,
-      } as any;
-    }
+    const expense = new this.expenseModel({
+      team: recurring.team,
+      description: recurring.description,
+      amount: recurring.amount,
+      currency: recurring.currency ?? team?.baseCurrency,
+      category: recurring.category,
+      date,
+      status: ExpenseStatus.SUBMITTED,
+      submittedBy,
+      recurringExpense: recurring._id,
+      statusHistory: [
+        {
+          to: ExpenseStatus.SUBMITTED,
+          ...submittedBy,
+          note: 'Generated from a recurring expense',
+          changedAt: now,
+        },
+      ],
+    });
 
-    return result;
+    await this.expenseCurrencyService.convert(expense, now);
+    // Thresholds of the chain are in base currency, so this runs after the conversion
+    const autoApproveStep = await this.getAutoApproveStep(recurring, expense);
+    if (autoApproveStep) {
+      const approver = recurring.autoApproveSetBy;
+      expense.status = ExpenseStatus.APPROVED;
+      expense.approvedBy = {
+        user: approver.user,
+        name: approver.name,
+        email: approver.email,
+        approvedAt: now,
+      };
+      expense.approvals.push({
+        level: 1,
+        team: new Types.ObjectId(autoApproveStep.team),
+        stepName: autoApproveStep.name,
+        approverRole: autoApproveStep.approverRole,
+        decision: ApprovalDecision.APPROVED,
+        user: approver.user,
+        name: approver.name,
+        email: approver.email,
+        decidedAt: now,
+      });
+      expense.statusHistory.push({
+        from: ExpenseStatus.SUBMITTED,
+        to: ExpenseStatus.APPROVED,
+        user: approver.user,
+        name: approver.name,
+        email: approver.email,
+        note: `Auto-approved below ${recurring.autoApproveBelow}`,
+        changedAt: now,
+      });
+    }
+    // Nobody is there to fix a generated expense, so violations are only flagged
+    await this.expensePolicyService.apply(expense, { block: false });
+
+    // Auto-approved occurrences count towards spending right away
+    const increasedTeams = await this.saveWithSpending([
+      {
+        expense,
+        previous: null,
+        audit: {
+          action: AuditAction.CREATE,
+          operation: 'expense.recurring-occurrence',
+          actor: null,
+        },
+      },
+    ]);
+    await this.notifyStatusChange(expense, ExpenseStatus.SUBMITTED);
+    await this.sendBudgetAlerts(increasedTeams);
+    return expense;
   }
 
   async findAll(
     query: any,
-  ): Promise<{ expenses: ExpenseDocument[]; pagination: any }> {
+    user: AuthenticatedUser,
+  ): Promise<{ expenses: ListedExpense[]; pagination: any }> {
     const {
       team,
       status,
@@ -112,6 +342,7 @@ export class ExpenseService {
       startDate,
       endDate,
       search,
+      policyViolations,
       limit = 50,
       page = 1,
       sortBy = 'date',
@@ -119,25 +350,43 @@ export class ExpenseService {
     } = query;
 
     const filter: any = {};
+    const conditions: any[] = [];
 
+    // Members only see expenses of the teams they belong to or that are split with them
+    const memberTeamIds = await this.teamAccessService.getUserTeamIds(user);
     if (team) {
-      filter.team = Types.ObjectId.isValid(String(team))
-        ? new Types.ObjectId(String(team))
-        : team;
+      if (!memberTeamIds.some((id) => String(id) === String(team))) {
+        throw new ForbiddenException('You are not a member of this team');
+      }
+      const teamId = new Types.ObjectId(String(team));
+      conditions.push({ $or: [{ team: teamId }, { 'allocations.team': teamId }] });
+    } else {
+      conditions.push({
+        $or: [
+          { team: { $in: memberTeamIds } },
+          { 'allocations.team': { $in: memberTeamIds } },
+        ],
+      });
     }
     if (status) filter.status = status;
     if (category) filter.category = category;
+    if (policyViolations !== undefined) {
+      filter['policyViolations.0'] = { $exists: String(policyViolations) === 'true' };
+    }
     if (startDate || endDate) {
       filter.date = {};
       if (startDate) filter.date.$gte = new Date(startDate);
       if (endDate) filter.date.$lte = new Date(endDate);
     }
     if (search) {
-      filter.$or = [
-        { description: { $regex: search, $options: 'i' } },
-        { category: { $regex: search, $options: 'i' } },
-      ];
+      conditions.push({
+        $or: [
+          { description: { $regex: search, $options: 'i' } },
+          { category: { $regex: search, $options: 'i' } },
+        ],
+      });
     }
+    filter.$and = conditions;
 
     const pageNum: number = typeof page === 'number' ? page : parseInt(page);
     const limitNum: number = typeof limit === 'number' ? limit : parseInt(limit);
@@ -149,12 +398,25 @@ export class ExpenseService {
       .sort(sort)
       .limit(Math.min(parseInt(limit), 50)) 
       .skip(skip)
-      .populate('team', 'name budget currentSpending')
+      .populate('team', 'name budget baseCurrency currentSpending')
       .lean() 
       .exec();
 
     const total = await this.expenseModel.countDocuments(filter);
 
+    const commentCounts = await this.expenseCommentService.countByExpense(
+      expenses.map((expense) => expense._id as Types.ObjectId),
+    );
+    for (const expense of expenses as any[]) {
+      expense.commentCount = commentCounts.get(String(expense._id)) ?? 0;
+      // Portion charged to the filtered team, which is only part of a split expense
+      if (team) {
+        expense.allocatedAmount = expense.allocations?.length
+          ? this.expenseAllocationService.getTeamShare(expense, String(team))
+          : (expense.conversion?.baseAmount ?? expense.amount);
+      }
+    }
+
     const pagination: any = {
       total: Number(total),
       page: Number(pageNum),
@@ -162,14 +424,14 @@ export class ExpenseService {
       pages: Math.ceil(Number(total) / Number(limitNum)),
     };
 
-    const typedExpenses = expenses as unknown as ExpenseDocument[];
+    const typedExpenses = expenses as unknown as ListedExpense[];
     return { expenses: typedExpenses, pagination };
   }
 
   async findOne(id: string): Promise<ExpenseDocument> {
     const expense = await this.expenseModel
       .findById(id)
-      .populate('team', 'name budget')
+      .populate('team', 'name budget baseCurrency')
       .exec();
     if (!expense) {
       throw new NotFoundException('Expense not found');
@@ -177,145 +439,983 @@ export class ExpenseService {
     return expense as unknown as ExpenseDocument;
   }
 
+  async getApprovalChain(
+    id: string,
+  ): Promise<{ status: ExpenseStatus; steps: ApprovalChainStatus[] }> {
+    const expense = await this.expenseModel.findById(id).exec();
+    if (!expense) {
+      throw new NotFoundException('Expense not found');
+    }
+    const teams = await this.loadApprovalTeams(expense);
+
+    return {
+      status: expense.status,
+      steps: this.approvalChainService.getChainStatus(expense, teams),
+    };
+  }
+
+  // Pending expenses whose current approval step the user is allowed to decide
+  async findPendingApprovals(
+    user: AuthenticatedUser,
+  ): Promise<ExpenseDocument[]> {
+    const adminTeamIds = await this.teamAccessService.getUserTeamIds(user, [
+      MemberRole.ADMIN,
+    ]);
+    const hasSystemApproverRole = [
+      UserRole.FINANCE,
+      UserRole.DIRECTOR,
+      UserRole.ADMIN,
+    ].includes(user.role);
+
+    const filter: any = { status: ExpenseStatus.SUBMITTED };
+    if (!hasSystemApproverRole) {
+      filter.$or = [
+        { team: { $in: adminTeamIds } },
+        { 'allocations.team': { $in: adminTeamIds } },
+      ];
+    }
+
+    const expenses = await this.expenseModel
+      .find(filter)
+      .sort({ date: 1 })
+      .limit(500)
+      .exec();
+
+    const teamIds = new Set(
+      expenses.flatMap((expense) =>
+        this.expenseAllocationService
+          .getShares(expense)
+          .map((share) => String(share.team)),
+      ),
+    );
+    const teams: ApprovalTeams = new Map(
+      (await this.teamModel.find({ _id: { $in: [...teamIds] } })).map(
+        (team) => [String(team._id), team],
+      ),
+    );
+
+    const queue: ExpenseDocument[] = [];
+    for (const expense of expenses) {
+      const step = this.approvalChainService.getCurrentStep(expense, teams);
+      if (
+        step &&
+        (await this.approvalChainService.canDecide(step, step.team, user))
+      ) {
+        queue.push(expense);
+      }
+    }
+    await this.expenseModel.populate(queue, {
+      path: 'team',
+      select: 'name budget currentSpending',
+    });
+    return queue;
+  }
+
   async update(
     id: string,
     updateExpenseDto: UpdateExpenseDto,
-  ): Promise<Expense> {
+    user: AuthenticatedUser,
+    expectedVersion?: number,
+  ): Promise<ExpenseDocument> {
     const expense = await this.expenseModel.findById(id).exec();
     if (!expense) {
       throw new NotFoundException('Expense not found');
     }
+    this.assertVersion(expense, expectedVersion);
+    const before = expense.toObject();
+    const previous = this.getSpendingState(expense);
 
     this.logger.log(
       `[update] Updating expense ${id}, current status: ${expense.status}, new status: ${updateExpenseDto.status}`,
     );
-    this.logger.log(
-      `[update] Expense team field type: ${typeof expense.team}, value: ${expense.team}`,
-    );
 
     const oldStatus = expense.status;
+    const isTeamAdmin = await this.teamAccessService.isTeamAdmin(
+      String(expense.team),
+      user,
+    );
+    const editsDetails =
+      updateExpenseDto.description !== undefined ||
+      updateExpenseDto.amount !== undefined ||
+      updateExpenseDto.currency !== undefined ||
+      updateExpenseDto.mileage !== undefined ||
+      updateExpenseDto.perDiem !== undefined ||
+      updateExpenseDto.tax !== undefined ||
+      updateExpenseDto.justification !== undefined ||
+      updateExpenseDto.attendees !== undefined ||
+      updateExpenseDto.receipt !== undefined ||
+      updateExpenseDto.category !== undefined ||
+      updateExpenseDto.date !== undefined ||
+      updateExpenseDto.allocations !== undefined;
+    if (editsDetails) {
+      if (!isTeamAdmin && !this.isSubmitter(expense, user)) {
+        throw new ForbiddenException('Members can only edit their own expenses');
+      }
+      if (!this.expenseLifecycleService.isEditable(oldStatus)) {
+        throw new ConflictException(`A ${oldStatus} expense can no longer be edited`);
+      }
+    }
+
+    let amount = updateExpenseDto.amount;
+    let currency = updateExpenseDto.currency?.toUpperCase();
+    if (
+      updateExpenseDto.mileage ||
+      updateExpenseDto.perDiem ||
+      (expense.type !== ExpenseType.STANDARD &&
+        (amount !== undefined ||
+          currency !== undefined ||
+          updateExpenseDto.date))
+    ) {
+      // Computed amounts follow new inputs and the rate in effect on the new date
+      const calculation = await this.expenseCalculationService.calculate(
+        expense.type,
+        {
+          amount,
+          currency,
+          mileage: updateExpenseDto.mileage ?? expense.mileage ?? undefined,
+          perDiem: updateExpenseDto.perDiem ?? expense.perDiem ?? undefined,
+        },
+        updateExpenseDto.date ? new Date(updateExpenseDto.date) : expense.date,
+      );
+      amount = calculation.amount;
+      currency = calculation.currency ?? currency;
+      expense.mileage = calculation.mileage;
+      expense.perDiem = calculation.perDiem;
+    }
 
     if (updateExpenseDto.description)
       expense.description = updateExpenseDto.description;
-    if (updateExpenseDto.amount !== undefined)
-      expense.amount = updateExpenseDto.amount;
+    if (amount !== undefined && amount !== expense.amount) {
+      expense.amountEdits.push({
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+        previousAmount: expense.amount,
+        newAmount: amount,
+        editedAt: new Date(),
+      });
+      expense.amount = amount;
+      // A new amount may require a different chain, so approvals start over
+      expense.approvals = [];
+    }
+    if (currency && currency !== expense.currency) {
+      expense.currency = currency;
+      // Thresholds apply to the converted amount, so approvals start over
+      expense.approvals = [];
+    }
+    if (updateExpenseDto.justification !== undefined)
+      expense.justification = updateExpenseDto.justification;
+    if (updateExpenseDto.attendees) expense.attendees = updateExpenseDto.attendees;
+    if (updateExpenseDto.receipt) expense.receipt = updateExpenseDto.receipt;
     if (updateExpenseDto.category) expense.category = updateExpenseDto.category;
     if (updateExpenseDto.date) expense.date = new Date(updateExpenseDto.date);
-    if (updateExpenseDto.status) expense.status = updateExpenseDto.status;
+    if (updateExpenseDto.allocations !== undefined) {
+      expense.allocations = await this.expenseAllocationService.build(
+        updateExpenseDto.allocations,
+        expense.amount,
+        expense.category,
+      );
+      // Other teams may now have to approve, so approvals start over
+      expense.approvals = [];
+    } else if (expense.isModified('amount') && expense.allocations.length) {
+      await this.rebuildAllocations(expense);
+    }
+    if (updateExpenseDto.tax !== undefined) {
+      expense.tax = updateExpenseDto.tax
+        ? await this.expenseTaxService.build(updateExpenseDto.tax, expense.amount)
+        : null;
+    } else if (expense.isModified('amount') && expense.tax) {
+      expense.tax = this.expenseTaxService.rebase(expense.tax, expense.amount);
+    }
+    if (editsDetails) {
+      await this.expenseCurrencyService.convert(expense);
+      await this.expensePolicyService.apply(expense);
+    }
+
+    if (updateExpenseDto.status && updateExpenseDto.status !== oldStatus) {
+      await this.applyStatusChange(
+        expense,
+        updateExpenseDto.status,
+        user,
+        isTeamAdmin,
+        {
+          note: updateExpenseDto.statusNote,
+          overrideJustification: updateExpenseDto.overrideJustification,
+        },
+      );
+    }
+
+    const increasedTeams = await this.saveWithSpending([
+      {
+        expense,
+        previous,
+        audit: {
+          action: AuditAction.UPDATE,
+          operation: 'expense.update',
+          before,
+        },
+      },
+    ]);
+    await this.notifyStatusChange(expense, oldStatus);
+    await this.sendBudgetAlerts(increasedTeams);
+
+    await expense.populate('team', 'name budget');
+    return expense;
+  }
+
+  // Percent lines follow the new amount; fixed amounts must be sent again
+  private async rebuildAllocations(expense: ExpenseDocument): Promise<void> {
+    expense.allocations = await this.expenseAllocationService.build(
+      expense.allocations.map((allocation) => ({
+        team: String(allocation.team),
+        category: allocation.category,
+        amount: allocation.percent === undefined ? allocation.amount : undefined,
+        percent: allocation.percent,
+      })),
+      expense.amount,
+      expense.category,
+    );
+  }
+
+  async getVersions(id: string): Promise<ExpenseVersion[]> {
+    const expense = await this.expenseModel.findById(id).exec();
+    if (!expense) {
+      throw new NotFoundException('Expense not found');
+    }
+    return this.expenseVersionService.getVersions(expense);
+  }
 
+  /**
+   * Restores the description, amount, category, date and status of an
+   * earlier version. Admins use it to undo mistakes, so the lifecycle is not
+   * enforced and nobody is notified, but team spending follows the restored
+   * amount and status.
+   */
+  async revertToVersion(
+    id: string,
+    version: number,
+    user: AuthenticatedUser,
+    overrideJustification?: string,
+  ): Promise<Expense> {
+    const expense = await this.expenseModel.findById(id).exec();
+    if (!expense) {
+      throw new NotFoundException('Expense not found');
+    }
+    if (expense.payoutBatch) {
+      throw new ConflictException(
+        'This expense is part of a payout batch and cannot be reverted',
+      );
+    }
+
+    const { values } = await this.expenseVersionService.getVersion(
+      expense,
+      version,
+    );
+    const before = expense.toObject();
+    const oldStatus = expense.status;
+    const previous = this.getSpendingState(expense);
+    const now = new Date();
+
+    expense.description = values.description;
+    expense.category = values.category;
+    expense.date = new Date(values.date);
+    if (values.amount !== expense.amount) {
+      expense.amountEdits.push({
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+        previousAmount: expense.amount,
+        newAmount: values.amount,
+        editedAt: now,
+      });
+      expense.amount = values.amount;
+      if (expense.tax) {
+        expense.tax = this.expenseTaxService.rebase(expense.tax, expense.amount);
+      }
+    }
     if (
-      updateExpenseDto.status &&
-      updateExpenseDto.status !== oldStatus &&
-      (updateExpenseDto.status === 'approved' ||
-        updateExpenseDto.status === 'rejected')
+      expense.allocations.length &&
+      (expense.isModified('amount') || expense.isModified('category'))
     ) {
-      expense.approvedBy = {
-        name: updateExpenseDto.approvedBy?.name || 'System',
-        email:
-          updateExpenseDto.approvedBy?.email || 'system@expensemanagement.com',
-        approvedAt: new Date(),
-      };
+      await this.rebuildAllocations(expense);
+    }
+
+    // Restoring an approved status, or a different amount while approved,
+    // approves the expense again, so the separation of duties rules apply
+    const override =
+      this.expenseLifecycleService.countsTowardsSpending(values.status) &&
+      (values.status !== oldStatus || expense.isModified('amount'))
+        ? this.separationOfDutiesService.enforce(
+            expense,
+            user,
+            overrideJustification,
+          )
+        : undefined;
+    if (override) {
+      this.logger.warn(
+        `Separation of duties (${override.violation}) overridden by ${user.email} reverting expense ${expense._id}: ${override.justification}`,
+      );
+    }
+
+    if (values.status !== oldStatus) {
+      expense.statusHistory.push({
+        from: oldStatus,
+        to: values.status,
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+        note: override
+          ? `Reverted to version ${version}. Separation of duties (${override.violation}) overridden: ${override.justification}`
+          : `Reverted to version ${version}`,
+        changedAt: now,
+      } as StatusChangeSchema);
+      expense.status = values.status;
+      if (this.expenseLifecycleService.isEditable(values.status)) {
+        // Back in the approval queue, the chain starts over
+        expense.approvals = [];
+        expense.set('approvedBy', undefined);
+      } else if (
+        this.expenseLifecycleService.countsTowardsSpending(values.status) &&
+        !expense.approvedBy
+      ) {
+        expense.approvedBy = {
+          user: new Types.ObjectId(user.userId),
+          name: user.name,
+          email: user.email,
+          approvedAt: now,
+        };
+      }
+    }
+
+    if (expense.isModified('amount') || expense.isModified('date')) {
+      await this.expenseCurrencyService.convert(expense);
+    }
+    await this.expensePolicyService.apply(expense, { block: false });
+
+    // Team spending moves from what the current version counted to the restored one
+    const increasedTeams = await this.saveWithSpending([
+      {
+        expense,
+        previous,
+        audit: {
+          action: AuditAction.UPDATE,
+          operation: 'expense.revert',
+          before,
+        },
+      },
+    ]);
+    this.logger.log(
+      `Expense ${expense._id} reverted to version ${version} by ${user.email}`,
+    );
+    await this.sendBudgetAlerts(increasedTeams);
+
+    await expense.populate('team', 'name budget');
+    return expense;
+  }
+
+  // Sends a submitted expense back to its submitter with a question
+  async requestInformation(
+    id: string,
+    question: string,
+    user: AuthenticatedUser,
+  ): Promise<Expense> {
+    return this.update(
+      id,
+      { status: ExpenseStatus.NEEDS_INFO, statusNote: question },
+      user,
+    );
+  }
+
+  // Answers an information request, optionally with edits, and puts the expense back in the approval queue
+  async resubmit(
+    id: string,
+    resubmitExpenseDto: ResubmitExpenseDto,
+    user: AuthenticatedUser,
+  ): Promise<Expense> {
+    const expense = await this.expenseModel.findById(id).exec();
+    if (!expense) {
+      throw new NotFoundException('Expense not found');
+    }
+    if (expense.status !== ExpenseStatus.NEEDS_INFO) {
+      throw new ConflictException(
+        'Only expenses waiting for information can be resubmitted',
+      );
+    }
+
+    const { response, ...edits } = resubmitExpenseDto;
+    return this.update(
+      id,
+      { ...edits, status: ExpenseStatus.SUBMITTED, statusNote: response },
+      user,
+    );
+  }
+
+  /**
+   * Moves the expense to a new status, enforcing the lifecycle transitions
+   * (409 on illegal moves) and who may perform each of them. Approvals and
+   * rejections go through the team's approval chain, so the expense stays
+   * submitted until the last required step is approved.
+   */
+  private async applyStatusChange(
+    expense: ExpenseDocument,
+    status: ExpenseStatus,
+    user: AuthenticatedUser,
+    isTeamAdmin: boolean,
+    options: StatusChangeOptions = {},
+  ): Promise<void> {
+    this.expenseLifecycleService.assertTransition(expense.status, status);
+
+    switch (status) {
+      case ExpenseStatus.APPROVED:
+      case ExpenseStatus.REJECTED: {
+        const teams = await this.loadApprovalTeams(expense);
+        const override =
+          status === ExpenseStatus.APPROVED
+            ? this.separationOfDutiesService.enforce(
+                expense,
+                user,
+                options.overrideJustification,
+              )
+            : undefined;
+        const { completed, step } =
+          await this.approvalChainService.recordDecision(
+            expense,
+            teams,
+            user,
+            status === ExpenseStatus.APPROVED
+              ? ApprovalDecision.APPROVED
+              : ApprovalDecision.REJECTED,
+            override,
+          );
+        this.logger.log(
+          `Expense ${expense._id} step "${step.name}" ${status} by ${user.email}`,
+        );
+        if (override) {
+          this.logger.warn(
+            `Separation of duties (${override.violation}) overridden by ${user.email} on expense ${expense._id}: ${override.justification}`,
+          );
+        }
+        if (!completed) {
+          return;
+        }
+        // The converted amount is fixed with the rates at approval time
+        await this.expenseCurrencyService.convert(expense);
+        expense.approvedBy = {
+          user: new Types.ObjectId(user.userId),
+          name: user.name,
+          email: user.email,
+          approvedAt: new Date(),
+        };
+        break;
+      }
+      case ExpenseStatus.NEEDS_INFO:
+        if (!isTeamAdmin && !(await this.canDecideCurrentStep(expense, user))) {
+          throw new ForbiddenException(
+            'Only approvers of this expense can ask for more information',
+          );
+        }
+        if (!options.note?.trim()) {
+          throw new BadRequestException(
+            'A question for the submitter is required',
+          );
+        }
+        break;
+      case ExpenseStatus.SUBMITTED:
+        if (!isTeamAdmin && !this.isSubmitter(expense, user)) {
+          throw new ForbiddenException('Only the submitter can submit this expense');
+        }
+        break;
+      case ExpenseStatus.CANCELLED:
+        if (expense.payoutBatch) {
+          throw new ConflictException(
+            'This expense is part of a payout batch and can no longer be cancelled',
+          );
+        }
+        // Approved expenses already count towards the budget, so only admins can withdraw them
+        if (
+          !isTeamAdmin &&
+          (expense.status === ExpenseStatus.APPROVED ||
+            !this.isSubmitter(expense, user))
+        ) {
+          throw new ForbiddenException(
+            'Only the submitter or a team admin can cancel this expense',
+          );
+        }
+        break;
+      case ExpenseStatus.REIMBURSED:
+        if (![UserRole.FINANCE, UserRole.ADMIN].includes(user.role)) {
+          throw new ForbiddenException(
+            'Only finance can mark expenses as reimbursed',
+          );
+        }
+        break;
+    }
+
+    expense.statusHistory.push({
+      from: expense.status,
+      to: status,
+      user: new Types.ObjectId(user.userId),
+      name: user.name,
+      email: user.email,
+      note: options.note,
+      changedAt: new Date(),
+    } as StatusChangeSchema);
+    expense.status = status;
+  }
+
+  private async canDecideCurrentStep(
+    expense: ExpenseDocument,
+    user: AuthenticatedUser,
+  ): Promise<boolean> {
+    const teams = await this.loadApprovalTeams(expense);
+    const step = this.approvalChainService.getCurrentStep(expense, teams);
+    return (
+      !!step && this.approvalChainService.canDecide(step, step.team, user)
+    );
+  }
+
+  /**
+   * The team admin step that approves a recurring occurrence on its own, if
+   * it can be auto-approved: the amount is below the threshold, the admin who
+   * set the threshold is not the owner of the definition and still
+   * administers the team, and no later step of the chain applies to the
+   * amount.
+   */
+  private async getAutoApproveStep(
+    recurring: RecurringExpenseDocument,
+    expense: ExpenseDocument,
+  ): Promise<PlannedStep | undefined> {
+    const approver = recurring.autoApproveSetBy;
+    if (
+      recurring.autoApproveBelow == null ||
+      !approver ||
+      recurring.amount >= recurring.autoApproveBelow
+    ) {
+      return undefined;
+    }
+    if (
+      String(approver.user) === String(recurring.submittedBy.user) ||
+      approver.email === recurring.submittedBy.email
+    ) {
+      return undefined;
+    }
+
+    const plan = this.approvalChainService.getPlan(
+      expense,
+      await this.loadApprovalTeams(expense),
+    );
+    if (plan.length !== 1 || plan[0].approverRole !== ApproverRole.TEAM_ADMIN) {
+      return undefined;
+    }
+    // The admin may have been demoted or removed since setting the threshold
+    const stillAdmin = await this.teamAccessService.isTeamAdmin(plan[0].team, {
+      userId: String(approver.user),
+      name: approver.name,
+      email: approver.email,
+      role: UserRole.USER,
+    });
+    return stillAdmin ? plan[0] : undefined;
+  }
+
+  // Teams whose approval chains apply to the expense, by id
+  private async loadApprovalTeams(
+    expense: ExpenseDocument,
+  ): Promise<ApprovalTeams> {
+    const teamIds = this.expenseAllocationService
+      .getShares(expense)
+      .map((share) => share.team);
+    const teams = await this.teamModel.find({ _id: { $in: teamIds } });
+    if (teams.length !== teamIds.length) {
+      throw new NotFoundException('Team not found');
     }
+    return new Map(teams.map((team) => [String(team._id), team]));
+  }
 
-    const savedExpense = await expense.save();
+  // Notifications driven by a saved status transition
+  private async notifyStatusChange(
+    expense: ExpenseDocument,
+    oldStatus: ExpenseStatus,
+  ): Promise<void> {
+    if (expense.status === oldStatus) {
+      return;
+    }
 
     if (
-      updateExpenseDto.status &&
-      updateExpenseDto.status !== oldStatus &&
-      (updateExpenseDto.status === 'approved' ||
-        updateExpenseDto.status === 'rejected')
+      expense.status === ExpenseStatus.APPROVED ||
+      expense.status === ExpenseStatus.REJECTED
     ) {
       await this.emailService.sendExpenseApprovalNotification(
-        savedExpense,
-        updateExpenseDto.status === 'approved',
+        expense,
+        expense.status === ExpenseStatus.APPROVED,
       );
     }
 
-    if (updateExpenseDto.status === 'approved' && oldStatus !== 'approved') {
-      const teamId =
-        typeof expense.team === 'object' && expense.team !== null
-          ? (expense.team as any)._id
-          : expense.team;
+    await this.notifyInformationExchange(expense, oldStatus);
+  }
 
-      this.logger.log(
-        `Expense approved: ${expense._id}, amount: ${expense.amount}, team: ${teamId}`,
+  // Emails the submitter the approver's question, and the approver the answer
+  private async notifyInformationExchange(
+    expense: ExpenseDocument,
+    oldStatus: ExpenseStatus,
+  ): Promise<void> {
+    const history = expense.statusHistory ?? [];
+    const expenseUrl = `${this.configService.get<string>('appUrl')}/expenses/${expense._id}`;
+
+    if (expense.status === ExpenseStatus.NEEDS_INFO) {
+      const request = history[history.length - 1];
+      await this.emailService.sendInformationRequest(
+        expense,
+        request.name,
+        request.note,
+        expenseUrl,
       );
-      const team = await this.teamModel.findById(teamId);
-      if (team) {
-        const oldSpending = team.currentSpending;
-        team.currentSpending += expense.amount;
-        await team.save();
-        this.logger.log(
-          `Team ${team.name} spending updated: ${oldSpending} -> ${team.currentSpending}`,
+    } else if (
+      oldStatus === ExpenseStatus.NEEDS_INFO &&
+      expense.status === ExpenseStatus.SUBMITTED
+    ) {
+      const request = [...history]
+        .reverse()
+        .find((change) => change.to === ExpenseStatus.NEEDS_INFO);
+      if (request) {
+        await this.emailService.sendInformationProvided(
+          expense,
+          request,
+          history[history.length - 1].note,
+          expenseUrl,
         );
+      }
+    }
+  }
 
-        // Check if budget alerts need to be sent
-        const utilization = (team.currentSpending / team.budget) * 100;
-        this.logger.log(`Budget utilization: ${utilization.toFixed(1)}%`);
-
-        if (utilization >= 100 && !team.budgetAlerts.hundredPercentSent) {
-          this.logger.log(`Sending 100% budget alert for ${team.name}`);
-          await this.emailService.sendBudgetAlert(team, 'hundred_percent');
-          team.budgetAlerts.hundredPercentSent = true;
-          await team.save();
-        } else if (utilization >= 80 && !team.budgetAlerts.eightyPercentSent) {
-          this.logger.log(`Sending 80% budget alert for ${team.name}`);
-          await this.emailService.sendBudgetAlert(team, 'eighty_percent');
-          team.budgetAlerts.eightyPercentSent = true;
-          await team.save();
+  private getSpendingState(expense: ExpenseDocument): SpendingState {
+    return {
+      status: expense.status,
+      deleted: !!expense.deletedAt,
+      shares: this.expenseAllocationService.getShares(expense),
+    };
+  }
+
+  /**
+   * Saves the expenses and moves each team's spending by what they count now
+   * minus what they counted before (`previous`, null for new expenses), all
+   * in one transaction. Writes are conditional on the version and status the
+   * change was computed from, so concurrent changes of the same expense
+   * conflict instead of overwriting each other or counting it twice. The
+   * audit entries are written in the same transaction, so the version
+   * history rebuilt from them always matches the saved expenses.
+   * Returns the teams whose spending went up.
+   */
+  private async saveWithSpending(
+    changes: ExpenseChange[],
+  ): Promise<Types.ObjectId[]> {
+    return this.connection.transaction(async (session) => {
+      const increasedTeams = new Map<string, Types.ObjectId>();
+      for (const { expense, previous } of changes) {
+        if (
+          previous &&
+          !(await this.claimExpense(expense, previous, session))
+        ) {
+          throw new ConflictException(
+            'The expense was changed at the same time, reload it and try again',
+          );
         }
-      } else {
-        this.logger.error(
-          ` Team not found for expense ${expense._id}, team ID: ${teamId}`,
+        await expense.save({ session });
+
+        const deltas = this.getSpendingDeltas(
+          previous,
+          this.getSpendingState(expense),
         );
+        for (const [teamId, delta] of deltas) {
+          this.logger.log(
+            `Expense ${expense._id} moved from ${previous?.status ?? 'new'} to ${expense.status}, spending delta for team ${teamId}: ${delta}`,
+          );
+          await this.teamModel.updateOne(
+            { _id: teamId },
+            { $inc: { currentSpending: delta } },
+            { session },
+          );
+          if (delta > 0) {
+            increasedTeams.set(teamId, new Types.ObjectId(teamId));
+          }
+        }
+      }
+      await this.auditService.recordMany(
+        changes.map(({ expense, audit }) => ({
+          entityType: AuditEntityType.EXPENSE,
+          entityId: expense._id as Types.ObjectId,
+          after: expense.toObject(),
+          ...audit,
+        })),
+        session,
+      );
+      return [...increasedTeams.values()];
+    });
+  }
+
+  // Locks the expense for the transaction if it is still as it was loaded
+  private async claimExpense(
+    expense: ExpenseDocument,
+    previous: SpendingState,
+    session: ClientSession,
+  ): Promise<boolean> {
+    const result = await this.expenseModel.updateOne(
+      {
+        _id: expense._id,
+        __v: expense.__v,
+        status: previous.status,
+        deletedAt: previous.deleted ? { $ne: null } : null,
+      },
+      { $set: { status: expense.status } },
+      { session },
+    );
+    return result.matchedCount === 1;
+  }
+
+  // Split expenses are charged to every allocated team for its portion
+  private getSpendingDeltas(
+    previous: SpendingState | null,
+    next: SpendingState,
+  ): Map<string, number> {
+    const counted = (state: SpendingState | null) =>
+      new Map(
+        state &&
+        !state.deleted &&
+        this.expenseLifecycleService.countsTowardsSpending(state.status)
+          ? state.shares.map((share) => [String(share.team), share.amount])
+          : [],
+      );
+    const before = counted(previous);
+    const after = counted(next);
+
+    const deltas = new Map<string, number>();
+    for (const teamId of new Set([...before.keys(), ...after.keys()])) {
+      const delta = (after.get(teamId) ?? 0) - (before.get(teamId) ?? 0);
+      if (delta !== 0) {
+        deltas.set(teamId, delta);
       }
     }
+    return deltas;
+  }
 
-    if (oldStatus === 'approved' && updateExpenseDto.status !== 'approved') {
-      const teamId =
-        typeof expense.team === 'object' && expense.team !== null
-          ? (expense.team as any)._id
-          : expense.team;
+  // Each alert flag is claimed before emailing, so concurrent approvals send it once
+  private async sendBudgetAlerts(teamIds: Types.ObjectId[]): Promise<void> {
+    for (const teamId of teamIds) {
+      const team = await this.teamModel.findById(teamId);
+      if (!team) {
+        this.logger.error(`Team not found while checking budget alerts, team ID: ${teamId}`);
+        continue;
+      }
 
+      const utilization = (team.currentSpending / team.budget) * 100;
       this.logger.log(
-        `Expense unapproved: ${expense._id}, amount: ${expense.amount}, team: ${teamId}`,
+        `Team ${team.name} spending is ${team.currentSpending}, budget utilization: ${utilization.toFixed(1)}%`,
       );
-      const team = await this.teamModel.findById(teamId);
-      if (team) {
-        const oldSpending = team.currentSpending;
-        team.currentSpending = Math.max(
-          0,
-          team.currentSpending - expense.amount,
-        );
-        await team.save();
-        this.logger.log(
-          `Team ${team.name} spending updated: ${oldSpending} -> ${team.currentSpending}`,
-        );
+
+      if (
+        utilization >= 100 &&
+        (await this.claimBudgetAlert(teamId, 'hundredPercentSent'))
+      ) {
+        this.logger.log(`Sending 100% budget alert for ${team.name}`);
+        await this.emailService.sendBudgetAlert(team, 'hundred_percent');
+      } else if (
+        utilization >= 80 &&
+        (await this.claimBudgetAlert(teamId, 'eightyPercentSent'))
+      ) {
+        this.logger.log(`Sending 80% budget alert for ${team.name}`);
+        await this.emailService.sendBudgetAlert(team, 'eighty_percent');
       }
     }
+  }
 
-    await savedExpense.populate('team', 'name budget');
-    return savedExpense;
+  private async claimBudgetAlert(
+    teamId: Types.ObjectId,
+    flag: keyof Team['budgetAlerts'],
+  ): Promise<boolean> {
+    const result = await this.teamModel.updateOne(
+      { _id: teamId, [`budgetAlerts.${flag}`]: { $ne: true } },
+      { $set: { [`budgetAlerts.${flag}`]: true } },
+    );
+    return result.modifiedCount === 1;
   }
 
-  async remove(id: string): Promise<void> {
+  // If-Match precondition: the client must have seen the current version
+  private assertVersion(
+    expense: ExpenseDocument,
+    expectedVersion: number | undefined,
+  ): void {
+    if (expectedVersion !== undefined && expectedVersion !== expense.__v) {
+      throw new PreconditionFailedException(
+        'The expense has changed since it was loaded, reload it and try again',
+      );
+    }
+  }
+
+  private isSubmitter(expense: Expense, user: AuthenticatedUser): boolean {
+    return expense.submittedBy.user
+      ? String(expense.submittedBy.user) === user.userId
+      : expense.submittedBy.email === user.email;
+  }
+
+  // Moves the expense to the trash, from which it can be restored until purged
+  async remove(
+    id: string,
+    user: AuthenticatedUser,
+    expectedVersion?: number,
+  ): Promise<void> {
     const expense = await this.expenseModel.findById(id).exec();
     if (!expense) {
       throw new NotFoundException('Expense not found');
     }
+    this.assertVersion(expense, expectedVersion);
+    if (expense.payoutBatch) {
+      throw new ConflictException(
+        'This expense is part of a payout batch and cannot be deleted',
+      );
+    }
 
-    if (expense.status === 'approved') {
-      const team = await this.teamModel.findById(expense.team);
-      if (team) {
-        team.currentSpending = Math.max(
-          0,
-          team.currentSpending - expense.amount,
+    const before = expense.toObject();
+    const previous = this.getSpendingState(expense);
+    expense.deletedAt = new Date();
+    expense.deletedBy = {
+      user: new Types.ObjectId(user.userId),
+      name: user.name,
+      email: user.email,
+    };
+    // Deleting behaves like leaving the lifecycle, so counted amounts are released
+    await this.saveWithSpending([
+      {
+        expense,
+        previous,
+        audit: {
+          action: AuditAction.DELETE,
+          operation: 'expense.delete',
+          before,
+        },
+      },
+    ]);
+  }
+
+  // Deleted expenses, most recently deleted first; team admins see their teams' ones
+  async findDeleted(
+    query: any,
+    user: AuthenticatedUser,
+  ): Promise<{ expenses: ExpenseDocument[]; pagination: any }> {
+    const { team, limit = 50, page = 1 } = query;
+    const filter: any = { deletedAt: { $ne: null } };
+
+    if (user.role !== UserRole.ADMIN) {
+      const adminTeamIds = await this.teamAccessService.getUserTeamIds(user, [
+        MemberRole.ADMIN,
+      ]);
+      filter.$or = [
+        { team: { $in: adminTeamIds } },
+        { 'allocations.team': { $in: adminTeamIds } },
+      ];
+      if (team && !adminTeamIds.some((id) => String(id) === String(team))) {
+        throw new ForbiddenException(
+          'Only team admins can see the deleted expenses of this team',
         );
-        await team.save();
       }
     }
+    if (team) {
+      const teamId = new Types.ObjectId(String(team));
+      filter.$and = [{ $or: [{ team: teamId }, { 'allocations.team': teamId }] }];
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [expenses, total] = await Promise.all([
+      this.expenseModel
+        .find(filter)
+        .sort({ deletedAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .exec(),
+      this.expenseModel.countDocuments(filter),
+    ]);
+
+    return {
+      expenses,
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  // Takes the expense out of the trash and counts it towards spending again
+  async restore(id: string, user: AuthenticatedUser): Promise<Expense> {
+    const expense = Types.ObjectId.isValid(id)
+      ? await this.expenseModel
+          .findOne({ _id: id, deletedAt: { $ne: null } })
+          .exec()
+      : null;
+    if (!expense) {
+      throw new NotFoundException('Expense not found in the trash');
+    }
+
+    const teamIds = new Set([
+      String(expense.team),
+      ...expense.allocations.map((allocation) => String(allocation.team)),
+    ]);
+    const activeTeams = await this.teamModel.countDocuments({
+      _id: { $in: [...teamIds] },
+    });
+    if (activeTeams !== teamIds.size) {
+      throw new ConflictException(
+        'The team of this expense is deleted, restore it first',
+      );
+    }
+
+    const before = expense.toObject();
+    const previous = this.getSpendingState(expense);
+    expense.deletedAt = null;
+    expense.deletedBy = null;
+    const increasedTeams = await this.saveWithSpending([
+      {
+        expense,
+        previous,
+        audit: {
+          action: AuditAction.RESTORE,
+          operation: 'expense.restore',
+          before,
+        },
+      },
+    ]);
+    this.logger.log(`Expense ${expense._id} restored by ${user.email}`);
+    await this.sendBudgetAlerts(increasedTeams);
+
+    await expense.populate('team', 'name budget');
+    return expense;
+  }
+
+  // Permanently removes expenses deleted before the cutoff, with their comments
+  async purgeDeleted(deletedBefore: Date): Promise<number> {
+    const expenses = await this.expenseModel
+      .find({ deletedAt: { $lt: deletedBefore } })
+      .exec();
+    if (expenses.length === 0) {
+      return 0;
+    }
 
-    await this.expenseModel.findByIdAndDelete(id).exec();
+    const expenseIds = expenses.map((expense) => expense._id as Types.ObjectId);
+    await this.connection.transaction(async (session) => {
+      await this.expenseModel.deleteMany({ _id: { $in: expenseIds } }, { session });
+      await this.expenseCommentService.purgeByExpenses(expenseIds, session);
+      await this.auditService.recordMany(
+        expenses.map((expense) => ({
+          entityType: AuditEntityType.EXPENSE,
+          entityId: expense._id as Types.ObjectId,
+          action: AuditAction.DELETE,
+          operation: 'expense.purge',
+          before: expense.toObject(),
+          actor: null,
+        })),
+        session,
+      );
+    });
+    return expenses.length;
   }
 
   async getInsights(teamId: string): Promise<any> {
@@ -329,14 +1429,15 @@ export class ExpenseService {
     const expenses = await this.expenseModel
       .find({
         team: teamObjectId,
-        status: 'approved',
+        status: { $in: SPENDING_STATUSES },
       })
       .sort({ date: -1 });
 
     const insights = await this.aiService.generateSpendingInsights(
       teamId,
-      expenses,
+      this.inBaseCurrency(expenses),
       team.budget,
+      team.baseCurrency,
     );
 
     if (!insights.success) {
@@ -357,15 +1458,16 @@ export class ExpenseService {
     const expenses = await this.expenseModel
       .find({
         team: teamObjectId,
-        status: 'approved',
+        status: { $in: SPENDING_STATUSES },
       })
       .sort({ date: -1 });
 
     const forecast = await this.aiService.forecastBudgetExceedance(
       teamId,
-      expenses,
+      this.inBaseCurrency(expenses),
       team.budget,
       team.currentSpending,
+      team.baseCurrency,
     );
 
     if (!forecast.success) {
@@ -375,73 +1477,283 @@ export class ExpenseService {
     return forecast.forecast;
   }
 
+  // Expenses with their amount in the team base currency, for budget analysis
+  private inBaseCurrency(expenses: ExpenseDocument[]) {
+    return expenses.map((expense) => ({
+      ...expense.toObject(),
+      amount: expense.conversion?.baseAmount ?? expense.amount,
+    }));
+  }
+
+  /**
+   * Approves or rejects every expense on its own, so one that can't be
+   * decided doesn't hold back the others, and reports the outcome of each.
+   * Expenses already in the target status are skipped. With `dryRun` the
+   * decisions are checked but nothing is saved.
+   */
   async bulkAction(
     bulkActionDto: BulkActionDto,
-  ): Promise<{ message: string; updatedCount: number }> {
-    const { expenseIds, action, approvedBy } = bulkActionDto;
-    const newStatus = action === 'approve' ? 'approved' : 'rejected';
+    user: AuthenticatedUser,
+  ): Promise<{
+    message: string;
+    dryRun: boolean;
+    updatedCount: number;
+    results: BulkActionResult[];
+  }> {
+    const { action, versions = {}, dryRun = false } = bulkActionDto;
+    const newStatus =
+      action === 'approve' ? ExpenseStatus.APPROVED : ExpenseStatus.REJECTED;
+
+    // An expense listed twice is only decided once
+    const expenseIds = [...new Set(bulkActionDto.expenseIds.map(String))];
+    const expenses = await this.expenseModel
+      .find({
+        _id: { $in: expenseIds.filter((id) => Types.ObjectId.isValid(id)) },
+      })
+      .exec();
+    const expensesById = new Map(
+      expenses.map((expense) => [String(expense._id), expense]),
+    );
 
-    const expenses = await this.expenseModel.find({ _id: { $in: expenseIds } });
+    const results: BulkActionResult[] = [];
+    const increasedTeams = new Map<string, Types.ObjectId>();
+    for (const expenseId of expenseIds) {
+      const expense = expensesById.get(expenseId);
+      if (!expense) {
+        results.push({
+          expenseId,
+          outcome: BulkActionOutcome.NOT_FOUND,
+          reason: 'Expense not found',
+        });
+        continue;
+      }
 
-    if (expenses.length !== expenseIds.length) {
-      throw new BadRequestException('Some expenses not found');
+      const { result, teams } = await this.decideInBulk(
+        expense,
+        newStatus,
+        user,
+        {
+          operation: `expense.bulk-${action}`,
+          expectedVersion: versions[expenseId],
+          overrideJustification: bulkActionDto.overrideJustification,
+          dryRun,
+        },
+      );
+      results.push(result);
+      teams.forEach((teamId) => increasedTeams.set(String(teamId), teamId));
     }
+    await this.sendBudgetAlerts([...increasedTeams.values()]);
 
-    const updatePromises = (expenses as unknown as ExpenseDocument[]).map(async (expense) => {
-      const oldStatus = expense.status;
-      expense.status = newStatus as ExpenseStatus;
-      expense.approvedBy = {
-        name: approvedBy.name,
-        email: approvedBy.email,
-        approvedAt: new Date(),
-      };
-
-      const savedExpense = await expense.save();
+    const updatedCount = results.filter(
+      (result) => result.outcome === BulkActionOutcome.UPDATED,
+    ).length;
+    return {
+      message: `${updatedCount} of ${results.length} expenses ${dryRun ? 'would be ' : ''}${action}d`,
+      dryRun,
+      updatedCount,
+      results,
+    };
+  }
 
-      await this.emailService.sendExpenseApprovalNotification(
-        savedExpense,
-        newStatus === 'approved',
-      );
+  // Decides one expense of a bulk action; errors become its outcome
+  private async decideInBulk(
+    expense: ExpenseDocument,
+    status: ExpenseStatus,
+    user: AuthenticatedUser,
+    options: {
+      operation: string;
+      expectedVersion?: number;
+      overrideJustification?: string;
+      dryRun: boolean;
+    },
+  ): Promise<{ result: BulkActionResult; teams: Types.ObjectId[] }> {
+    const expenseId = String(expense._id);
+    const previous = this.getSpendingState(expense);
+    const unchanged = (outcome: BulkActionOutcome, reason: string) => ({
+      result: { expenseId, outcome, status: previous.status, reason },
+      teams: [],
+    });
+    // Nothing about the expense is reported to users who cannot decide it
+    const forbidden = (error: unknown) => ({
+      result: {
+        expenseId,
+        outcome: BulkActionOutcome.FORBIDDEN,
+        reason: this.describeBulkError(expenseId, error),
+      },
+      teams: [],
+    });
 
-      if (newStatus === 'approved' && oldStatus !== 'approved') {
-        const team = await this.teamModel.findById(expense.team);
-        if (team) {
-          team.currentSpending += expense.amount;
-          await team.save();
+    if (!BULK_ACTION_BYPASS_ROLES.includes(user.role)) {
+      try {
+        await this.teamAccessService.assertAnyTeamRole(
+          this.teamAccessService.expenseTeamIds(expense),
+          user,
+          [MemberRole.ADMIN],
+          'Only team admins can approve or reject expenses',
+        );
+      } catch (error) {
+        if (error instanceof ForbiddenException) {
+          return forbidden(error);
         }
+        return unchanged(
+          BulkActionOutcome.FAILED,
+          this.describeBulkError(expenseId, error),
+        );
       }
+    }
 
-      return savedExpense as unknown as ExpenseDocument;
-    });
+    if (
+      options.expectedVersion !== undefined &&
+      Number(options.expectedVersion) !== expense.__v
+    ) {
+      return unchanged(
+        BulkActionOutcome.CONFLICT,
+        'The expense has changed since it was loaded',
+      );
+    }
+    // Nothing changes, so neither does team spending
+    if (expense.status === status) {
+      return unchanged(
+        BulkActionOutcome.SKIPPED,
+        `The expense is already ${status}`,
+      );
+    }
+
+    const before = expense.toObject();
+    try {
+      const isTeamAdmin = await this.teamAccessService.isTeamAdmin(
+        String(expense.team),
+        user,
+      );
+      await this.applyStatusChange(expense, status, user, isTeamAdmin, {
+        overrideJustification: options.overrideJustification,
+      });
+    } catch (error) {
+      return unchanged(
+        error instanceof ForbiddenException
+          ? BulkActionOutcome.FORBIDDEN
+          : BulkActionOutcome.FAILED,
+        this.describeBulkError(expenseId, error),
+      );
+    }
+    if (options.dryRun) {
+      return {
+        result: {
+          expenseId,
+          outcome: BulkActionOutcome.UPDATED,
+          status: expense.status,
+        },
+        teams: [],
+      };
+    }
 
-    await Promise.all(updatePromises);
+    let teams: Types.ObjectId[];
+    try {
+      teams = await this.saveWithSpending([
+        {
+          expense,
+          previous,
+          audit: {
+            action: AuditAction.UPDATE,
+            operation: options.operation,
+            before,
+          },
+        },
+      ]);
+    } catch (error) {
+      return unchanged(
+        error instanceof ConflictException
+          ? BulkActionOutcome.CONFLICT
+          : BulkActionOutcome.FAILED,
+        this.describeBulkError(expenseId, error),
+      );
+    }
 
+    // The decision is saved, a failed email doesn't undo it
+    try {
+      await this.notifyStatusChange(expense, previous.status);
+    } catch (error) {
+      this.logger.error(
+        `Error sending notifications for expense ${expenseId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
     return {
-      message: `${expenses.length} expenses ${action}d successfully`,
-      updatedCount: expenses.length,
+      result: {
+        expenseId,
+        outcome: BulkActionOutcome.UPDATED,
+        status: expense.status,
+      },
+      teams,
     };
   }
 
-  async exportPdf(filter: any): Promise<Buffer> {
-    const { expenses } = await this.findAll({
-      ...filter,
-      limit: 50,
-      page: 1,
-      sortBy: 'date',
-      sortOrder: 'desc',
+  // Listed expenses come with their team populated, unless it no longer exists
+  private isListedTeam(team: unknown): team is ListedTeam {
+    return typeof team === 'object' && team !== null && 'name' in team;
+  }
+
+  private describeBulkError(expenseId: string, error: unknown): string {
+    if (error instanceof HttpException) {
+      return error.message;
+    }
+    this.logger.error(
+      `Error in bulk action on expense ${expenseId}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 'The expense could not be updated';
+  }
+
+  // Expenses created before the lifecycle was introduced were stored as 'pending'
+  async migrateLegacyStatuses(): Promise<number> {
+    const legacy = await this.expenseModel.collection
+      .find({ status: 'pending' }, { projection: { _id: 1 } })
+      .toArray();
+    // The status is versioned, so the change and its audit entries are saved together
+    const result = await this.connection.transaction(async (session) => {
+      const updated = await this.expenseModel.collection.updateMany(
+        {
+          _id: { $in: legacy.map((expense) => expense._id) },
+          status: 'pending',
+        },
+        { $set: { status: ExpenseStatus.SUBMITTED }, $inc: { __v: 1 } },
+        { session },
+      );
+      await this.auditService.recordMany(
+        legacy.map((expense) => ({
+          entityType: AuditEntityType.EXPENSE,
+          entityId: expense._id,
+          action: AuditAction.UPDATE,
+          operation: 'expense.migrate-legacy-status',
+          before: { status: 'pending' },
+          after: { status: ExpenseStatus.SUBMITTED },
+          actor: null,
+        })),
+        session,
+      );
+      return updated;
     });
+    this.logger.log(
+      `Migrated ${result.modifiedCount} legacy pending expenses to submitted`,
+    );
+    return result.modifiedCount;
+  }
+
+  async exportPdf(filter: any, user: AuthenticatedUser): Promise<Buffer> {
+    const { expenses } = await this.findAll(
+      {
+        ...filter,
+        limit: 50,
+        page: 1,
+        sortBy: 'date',
+        sortOrder: 'desc',
+      },
+      user,
+    );
 
     const PDFDocument = (await import('pdfkit')).default;
     const doc = new PDFDocument({ size: 'A4', margin: 40 });
     const chunks: Buffer[] = [];
     const { format } = await import('date-fns');
 
-    const money = new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-    });
-
     const marginLeft = 40;
     const marginRight = 555; 
     const tableTopStart = 170; 
@@ -519,7 +1831,7 @@ export class ExpenseService {
       doc.y = tableTopStart;
       drawHeader();
 
-      let totalAmount = 0;
+      const totals = new Map<string, number>();
       expenses.forEach((e, idx) => {
         ensureSpaceForRow();
         const y = doc.y + 8;
@@ -531,17 +1843,24 @@ export class ExpenseService {
           doc.fillColor('#000000');
         }
 
-        const teamName = typeof (e as any).team === 'object' && (e as any).team?.name
-          ? (e as any).team.name
-          : String((e as any).team ?? 'N/A');
-
-        const desc = truncate((e as any).description, 50);
-        const amount = money.format(Number((e as any).amount ?? 0));
-        const category = String((e as any).category ?? '');
-        const dateStr = format(new Date((e as any).date), 'yyyy-MM-dd');
+        const team = this.isListedTeam(e.team) ? e.team : null;
+        const ownerTeamName = team ? team.name : String(e.team ?? 'N/A');
+        const teamName = e.allocations?.length
+          ? `${ownerTeamName} (split)`
+          : ownerTeamName;
+        // Filtered by team, split expenses only count the portion of that team.
+        // Amounts are in the base currency of the expense team.
+        const lineAmount = e.allocatedAmount ?? e.conversion?.baseAmount ?? e.amount ?? 0;
+        const lineCurrency =
+          e.conversion?.baseCurrency ?? team?.baseCurrency ?? DEFAULT_CURRENCY;
+
+        const desc = truncate(e.description, 50);
+        const amount = formatMoney(lineAmount, lineCurrency);
+        const category = String(e.category ?? '');
+        const dateStr = format(new Date(e.date), 'yyyy-MM-dd');
         const teamNameTruncated = truncate(teamName, 18);
 
-        totalAmount += Number((e as any).amount ?? 0);
+        totals.set(lineCurrency, (totals.get(lineCurrency) ?? 0) + lineAmount);
 
         doc.fontSize(10).text(desc, colX.description, y, { width: colWidth.description });
         doc.text(amount, colX.amount, y, { width: colWidth.amount, align: 'right' });
@@ -558,8 +1877,13 @@ export class ExpenseService {
       doc.strokeColor('#000000');
       doc.moveDown(0.25);
       doc.font('Helvetica-Bold');
-      doc.text('Total', colX.description, doc.y, { width: colWidth.description });
-      doc.text(money.format(totalAmount), colX.amount, doc.y, { width: colWidth.amount, align: 'right' });
+      // Teams with different base currencies get a total each
+      if (totals.size === 0) totals.set(DEFAULT_CURRENCY, 0);
+      for (const [currency, totalAmount] of totals) {
+        const totalY = doc.y;
+        doc.text(totals.size > 1 ? `Total ${currency}` : 'Total', colX.description, totalY, { width: colWidth.description });
+        doc.text(formatMoney(totalAmount, currency), colX.amount, totalY, { width: colWidth.amount, align: 'right' });
+      }
       doc.font('Helvetica');
 
       doc.end();
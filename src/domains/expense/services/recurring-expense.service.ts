@@ -0,0 +1,493 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  startOfDay,
+} from 'date-fns';
+import {
+  RecurringExpense,
+  RecurringExpenseDocument,
+} from '../schemas/recurring-expense.schema';
+import { Expense, ExpenseDocument } from '../schemas/expense.schema';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import {
+  CreateRecurringExpenseDto,
+  UpdateRecurringExpenseDto,
+} from '../dto/recurring-expense.dto';
+import { ExpenseService } from './expense.service';
+import { ApprovalChainService } from './approval-chain.service';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import {
+  ApproverRole,
+  AuthenticatedUser,
+  MemberRole,
+  RecurrenceCadence,
+  RecurringExpenseStatus,
+  UserRole,
+} from '@shared/lib';
+
+const CADENCE_STEP: Record<
+  RecurrenceCadence,
+  (date: Date, amount: number) => Date
+> = {
+  [RecurrenceCadence.WEEKLY]: addWeeks,
+  [RecurrenceCadence.MONTHLY]: addMonths,
+  [RecurrenceCadence.QUARTERLY]: addQuarters,
+  [RecurrenceCadence.YEARLY]: addYears,
+};
+
+// Definitions handled per scheduler run, the rest waits for the next one
+const RUN_BATCH_SIZE = 100;
+// Missed occurrences generated while creating a definition; the scheduler catches up on the rest
+const CREATE_BACKFILL_LIMIT = 10;
+
+@Injectable()
+export class RecurringExpenseService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(RecurringExpenseService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectModel(RecurringExpense.name)
+    private recurringModel: Model<RecurringExpenseDocument>,
+    @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    private expenseService: ExpenseService,
+    private approvalChainService: ApprovalChainService,
+    private teamAccessService: TeamAccessService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (
+      !this.configService.get<boolean>('recurringExpenses.schedulerEnabled')
+    ) {
+      this.logger.log('Recurring expense scheduler disabled');
+      return;
+    }
+
+    const minutes =
+      this.configService.get<number>('recurringExpenses.intervalMinutes') || 60;
+    this.timer = setInterval(() => void this.runDue(), minutes * 60 * 1000);
+    this.timer.unref();
+    // Catch up on occurrences that fell due while the server was down
+    void this.runDue();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async create(
+    createRecurringDto: CreateRecurringExpenseDto,
+    user: AuthenticatedUser,
+  ): Promise<RecurringExpenseDocument> {
+    const startDate = new Date(createRecurringDto.startDate);
+    this.assertDateRange(startDate, createRecurringDto.endDate);
+
+    const recurring = new this.recurringModel({
+      ...createRecurringDto,
+      team: new Types.ObjectId(createRecurringDto.team),
+      startDate,
+      endDate: createRecurringDto.endDate
+        ? new Date(createRecurringDto.endDate)
+        : undefined,
+      submittedBy: {
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+      },
+      anchorDate: startDate,
+      periodIndex: 0,
+      nextRunAt: startDate,
+    });
+    await this.applyAutoApproval(
+      recurring,
+      createRecurringDto.autoApproveBelow,
+      user,
+    );
+
+    await recurring.save();
+    // A start date in the past generates the first missed occurrences right away
+    await this.materialize(recurring, new Date(), CREATE_BACKFILL_LIMIT);
+    return recurring;
+  }
+
+  async findAll(
+    user: AuthenticatedUser,
+    team?: string,
+  ): Promise<RecurringExpenseDocument[]> {
+    const filter: any = {};
+    if (team) {
+      await this.assertCanView(team, user);
+      filter.team = new Types.ObjectId(team);
+    } else if (user.role !== UserRole.ADMIN) {
+      filter.team = { $in: await this.teamAccessService.getUserTeamIds(user) };
+    }
+
+    return this.recurringModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .populate('team', 'name')
+      .exec();
+  }
+
+  async findOne(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<RecurringExpenseDocument> {
+    const recurring = await this.findRecurringOrFail(id);
+    await this.assertCanView(String(recurring.team), user);
+    return recurring;
+  }
+
+  // Expenses generated from the definition, newest first
+  async findGenerated(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<ExpenseDocument[]> {
+    const recurring = await this.findOne(id, user);
+    return this.expenseModel
+      .find({ recurringExpense: recurring._id })
+      .sort({ date: -1 })
+      .exec();
+  }
+
+  // Changes apply to future occurrences only; generated expenses are kept as they are
+  async update(
+    id: string,
+    updateRecurringDto: UpdateRecurringExpenseDto,
+    user: AuthenticatedUser,
+  ): Promise<RecurringExpenseDocument> {
+    const recurring = await this.findRecurringOrFail(id);
+    await this.assertCanManage(recurring, user);
+
+    const { autoApproveBelow, endDate, cadence, ...details } =
+      updateRecurringDto;
+    Object.assign(recurring, details);
+
+    if (cadence && cadence !== recurring.cadence) {
+      // The new cadence counts from the next due date
+      recurring.cadence = cadence;
+      recurring.anchorDate = recurring.nextRunAt;
+      recurring.periodIndex = 0;
+    }
+    if (endDate !== undefined) {
+      this.assertDateRange(recurring.startDate, endDate);
+      recurring.endDate = new Date(endDate);
+      if (
+        recurring.status === RecurringExpenseStatus.ENDED &&
+        recurring.nextRunAt <= recurring.endDate
+      ) {
+        recurring.status = RecurringExpenseStatus.ACTIVE;
+      }
+    }
+    if (autoApproveBelow !== undefined) {
+      await this.applyAutoApproval(recurring, autoApproveBelow, user);
+    }
+
+    return recurring.save();
+  }
+
+  async pause(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<RecurringExpenseDocument> {
+    const recurring = await this.findRecurringOrFail(id);
+    await this.assertCanManage(recurring, user);
+    if (recurring.status !== RecurringExpenseStatus.ACTIVE) {
+      throw new ConflictException(
+        `A ${recurring.status} recurring expense cannot be paused`,
+      );
+    }
+
+    recurring.status = RecurringExpenseStatus.PAUSED;
+    return recurring.save();
+  }
+
+  // Occurrences that fell due while paused are skipped, not generated
+  async resume(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<RecurringExpenseDocument> {
+    const recurring = await this.findRecurringOrFail(id);
+    await this.assertCanManage(recurring, user);
+    if (recurring.status !== RecurringExpenseStatus.PAUSED) {
+      throw new ConflictException(
+        `A ${recurring.status} recurring expense cannot be resumed`,
+      );
+    }
+
+    const today = startOfDay(new Date());
+    while (recurring.nextRunAt < today) {
+      recurring.periodIndex += 1;
+      recurring.nextRunAt = this.dueDate(recurring, recurring.periodIndex);
+    }
+    recurring.status = this.hasEnded(recurring)
+      ? RecurringExpenseStatus.ENDED
+      : RecurringExpenseStatus.ACTIVE;
+    return recurring.save();
+  }
+
+  // Stops the definition; expenses generated so far are kept
+  async remove(id: string, user: AuthenticatedUser): Promise<void> {
+    const recurring = await this.findRecurringOrFail(id);
+    await this.assertCanManage(recurring, user);
+    await this.recurringModel.findByIdAndDelete(id).exec();
+  }
+
+  /**
+   * Generates every occurrence that is due. Safe to run concurrently and to
+   * retry: an occurrence is created at most once per due date.
+   */
+  async runDue(now = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    let generated = 0;
+    try {
+      const due = await this.recurringModel
+        .find({
+          status: RecurringExpenseStatus.ACTIVE,
+          nextRunAt: { $lte: now },
+        })
+        // Definitions that failed before go last, so they cannot hold up the rest
+        .sort({ lastFailedAt: 1, nextRunAt: 1 })
+        .limit(RUN_BATCH_SIZE)
+        .exec();
+      for (const recurring of due) {
+        try {
+          generated += await this.materialize(recurring, now);
+        } catch (error) {
+          await this.recordFailure(recurring, error, now);
+        }
+      }
+      if (generated > 0) {
+        this.logger.log(`Generated ${generated} recurring expenses`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error generating recurring expenses: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+    return generated;
+  }
+
+  private async materialize(
+    recurring: RecurringExpenseDocument,
+    now: Date,
+    limit = Infinity,
+  ): Promise<number> {
+    let generated = 0;
+    let current: RecurringExpenseDocument | null = recurring;
+    let remaining = limit;
+    while (
+      remaining > 0 &&
+      current &&
+      current.status === RecurringExpenseStatus.ACTIVE &&
+      current.nextRunAt <= now
+    ) {
+      remaining -= 1;
+      const dueDate = current.nextRunAt;
+      if (this.hasEnded(current)) {
+        current.status = RecurringExpenseStatus.ENDED;
+        await current.save();
+        break;
+      }
+
+      try {
+        await this.expenseService.createRecurringOccurrence(current, dueDate);
+        generated += 1;
+      } catch (error) {
+        // Already generated by an earlier, interrupted run
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+      }
+
+      const periodIndex = current.periodIndex + 1;
+      const nextRunAt = this.dueDate(current, periodIndex);
+      current = await this.recurringModel
+        .findOneAndUpdate(
+          { _id: current._id, nextRunAt: dueDate },
+          {
+            $set: {
+              periodIndex,
+              nextRunAt,
+              lastGeneratedAt: now,
+              lastError: null,
+              lastFailedAt: null,
+            },
+            $inc: { occurrenceCount: 1 },
+          },
+          { new: true },
+        )
+        .exec();
+    }
+    return generated;
+  }
+
+  // The definition is retried on the next run, after the ones that did not fail
+  private async recordFailure(
+    recurring: RecurringExpenseDocument,
+    error: unknown,
+    now: Date,
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    this.logger.error(
+      `Error generating recurring expense ${String(recurring._id)}: ${message}`,
+    );
+    try {
+      await this.recurringModel.updateOne(
+        { _id: recurring._id },
+        { $set: { lastError: message, lastFailedAt: now } },
+      );
+    } catch (updateError) {
+      this.logger.error(
+        `Error recording the failure of recurring expense ${String(recurring._id)}: ${updateError instanceof Error ? updateError.message : String(updateError)}`,
+      );
+    }
+  }
+
+  private dueDate(recurring: RecurringExpense, periodIndex: number): Date {
+    return CADENCE_STEP[recurring.cadence](recurring.anchorDate, periodIndex);
+  }
+
+  private hasEnded(recurring: RecurringExpense): boolean {
+    return !!recurring.endDate && recurring.nextRunAt > recurring.endDate;
+  }
+
+  /**
+   * Auto-approval stands in for the team admin step of the approval chain, so
+   * only a team admin other than the owner may set it, and only below the
+   * amount from which a later step applies. Occurrences are checked against
+   * the chain again when they are generated.
+   */
+  private async applyAutoApproval(
+    recurring: RecurringExpenseDocument,
+    autoApproveBelow: number | null | undefined,
+    user: AuthenticatedUser,
+  ): Promise<void> {
+    if (autoApproveBelow == null) {
+      recurring.autoApproveBelow = null;
+      return;
+    }
+
+    await this.teamAccessService.assertTeamRole(
+      String(recurring.team),
+      user,
+      [MemberRole.ADMIN],
+      'Only team admins can auto-approve recurring expenses',
+    );
+    if (this.teamAccessService.isSameUser(recurring.submittedBy, user)) {
+      throw new ForbiddenException(
+        'You cannot auto-approve a recurring expense you own',
+      );
+    }
+    await this.assertWithinTeamAdminLimit(recurring, autoApproveBelow);
+
+    recurring.autoApproveBelow = autoApproveBelow;
+    recurring.autoApproveSetBy = {
+      user: new Types.ObjectId(user.userId),
+      name: user.name,
+      email: user.email,
+    };
+  }
+
+  private async assertWithinTeamAdminLimit(
+    recurring: RecurringExpenseDocument,
+    autoApproveBelow: number,
+  ): Promise<void> {
+    const team = await this.teamModel
+      .findById(recurring.team)
+      .select('approvalChain baseCurrency');
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+
+    const [first, next] = this.approvalChainService.getChain(team);
+    if (first.approverRole !== ApproverRole.TEAM_ADMIN) {
+      throw new BadRequestException(
+        'Auto-approval requires an approval chain that starts with a team admin step',
+      );
+    }
+    // Thresholds are in base currency; other currencies are checked per occurrence
+    const sameCurrency =
+      !recurring.currency || recurring.currency === team.baseCurrency;
+    if (sameCurrency && next && autoApproveBelow > next.threshold) {
+      throw new BadRequestException(
+        `autoApproveBelow cannot exceed ${next.threshold}, above which the "${next.name}" step applies`,
+      );
+    }
+  }
+
+  private async assertCanView(
+    teamId: string,
+    user: AuthenticatedUser,
+  ): Promise<void> {
+    if (user.role === UserRole.ADMIN) {
+      return;
+    }
+    await this.teamAccessService.assertTeamRole(teamId, user, [
+      MemberRole.ADMIN,
+      MemberRole.MEMBER,
+    ]);
+  }
+
+  // The owner of the definition or an admin of its team
+  private async assertCanManage(
+    recurring: RecurringExpenseDocument,
+    user: AuthenticatedUser,
+  ): Promise<void> {
+    if (this.teamAccessService.isSameUser(recurring.submittedBy, user)) {
+      return;
+    }
+    if (
+      !(await this.teamAccessService.isTeamAdmin(String(recurring.team), user))
+    ) {
+      throw new ForbiddenException(
+        'Only the owner or a team admin can change a recurring expense',
+      );
+    }
+  }
+
+  private assertDateRange(start: Date, end?: string): void {
+    if (end && new Date(end) < start) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+  }
+
+  private async findRecurringOrFail(
+    id: string,
+  ): Promise<RecurringExpenseDocument> {
+    const recurring = Types.ObjectId.isValid(id)
+      ? await this.recurringModel.findById(id).exec()
+      : null;
+    if (!recurring) {
+      throw new NotFoundException('Recurring expense not found');
+    }
+    return recurring;
+  }
+}
@@ -0,0 +1,103 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthenticatedUser, SodViolation, UserRole } from '@shared/lib';
+import { Expense } from '../schemas/expense.schema';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import { SeparationOfDutiesService } from './separation-of-duties.service';
+
+// Collaborators are faked, so their schema imports are not needed
+jest.mock('../../auth/services/team-access.service', () => ({
+  TeamAccessService: class TeamAccessService {},
+}));
+
+describe('SeparationOfDutiesService', () => {
+  const submitter: AuthenticatedUser = {
+    userId: 'submitter-id',
+    email: 'submitter@example.com',
+    name: 'Submitter',
+    role: UserRole.ADMIN,
+  };
+  const approver: AuthenticatedUser = {
+    userId: 'approver-id',
+    email: 'approver@example.com',
+    name: 'Approver',
+    role: UserRole.DIRECTOR,
+  };
+  const expense = {
+    submittedBy: { email: submitter.email, name: submitter.name },
+    amountEdits: [{ email: approver.email, name: approver.name }],
+  } as unknown as Pick<Expense, 'submittedBy' | 'amountEdits'>;
+
+  const createService = (rules: {
+    blockSelfApproval: boolean;
+    blockAmountEditorApproval: boolean;
+  }) =>
+    new SeparationOfDutiesService(
+      new ConfigService({ separationOfDuties: rules }),
+      {
+        isSameUser: (member: { email: string }, user: AuthenticatedUser) =>
+          member.email === user.email,
+      } as unknown as TeamAccessService,
+    );
+
+  describe('findViolation', () => {
+    it('blocks submitters from approving their own expenses', () => {
+      const service = createService({
+        blockSelfApproval: true,
+        blockAmountEditorApproval: false,
+      });
+      expect(service.findViolation(expense, submitter)).toBe(
+        SodViolation.SELF_APPROVAL,
+      );
+      expect(service.findViolation(expense, approver)).toBeUndefined();
+    });
+
+    it('blocks amount editors only when the rule is enabled', () => {
+      const service = createService({
+        blockSelfApproval: false,
+        blockAmountEditorApproval: true,
+      });
+      expect(service.findViolation(expense, approver)).toBe(
+        SodViolation.AMOUNT_EDITOR,
+      );
+      expect(service.findViolation(expense, submitter)).toBeUndefined();
+    });
+  });
+
+  describe('enforce', () => {
+    const service = createService({
+      blockSelfApproval: true,
+      blockAmountEditorApproval: true,
+    });
+
+    it('lets approvals that break no rule through', () => {
+      expect(
+        service.enforce({ ...expense, amountEdits: [] }, approver),
+      ).toBeUndefined();
+    });
+
+    it('rejects a violation by anyone but a system admin, even with a justification', () => {
+      expect(() =>
+        service.enforce(expense, approver, 'I am in charge'),
+      ).toThrow(ForbiddenException);
+    });
+
+    it('requires system admins to justify an override', () => {
+      expect(() => service.enforce(expense, submitter)).toThrow(
+        /System admins can override this by providing a justification/,
+      );
+      expect(() => service.enforce(expense, submitter, '   ')).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('returns the override to record when a system admin justifies it', () => {
+      expect(
+        service.enforce(expense, submitter, '  Sole approver on leave  '),
+      ).toEqual({
+        violation: SodViolation.SELF_APPROVAL,
+        justification: 'Sole approver on leave',
+      });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AuthenticatedUser,
+  SodOverride,
+  SodViolation,
+  UserRole,
+} from '@shared/lib';
+import { Expense } from '../schemas/expense.schema';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+
+const VIOLATION_MESSAGES: Record<SodViolation, string> = {
+  [SodViolation.SELF_APPROVAL]: 'You cannot approve an expense you submitted',
+  [SodViolation.AMOUNT_EDITOR]:
+    'You cannot approve an expense whose amount you changed',
+};
+
+@Injectable()
+export class SeparationOfDutiesService {
+  constructor(
+    private configService: ConfigService,
+    private teamAccessService: TeamAccessService,
+  ) {}
+
+  // First configured rule the user would break by approving the expense
+  findViolation(
+    expense: Pick<Expense, 'submittedBy' | 'amountEdits'>,
+    user: AuthenticatedUser,
+  ): SodViolation | undefined {
+    if (
+      this.configService.get<boolean>('separationOfDuties.blockSelfApproval') &&
+      this.teamAccessService.isSameUser(expense.submittedBy, user)
+    ) {
+      return SodViolation.SELF_APPROVAL;
+    }
+    if (
+      this.configService.get<boolean>(
+        'separationOfDuties.blockAmountEditorApproval',
+      ) &&
+      (expense.amountEdits ?? []).some((edit) =>
+        this.teamAccessService.isSameUser(edit, user),
+      )
+    ) {
+      return SodViolation.AMOUNT_EDITOR;
+    }
+    return undefined;
+  }
+
+  /**
+   * Throws when the approval breaks a rule, unless a system admin overrides
+   * it with a justification. Returns the override to record, if any.
+   */
+  enforce(
+    expense: Pick<Expense, 'submittedBy' | 'amountEdits'>,
+    user: AuthenticatedUser,
+    justification?: string,
+  ): SodOverride | undefined {
+    const violation = this.findViolation(expense, user);
+    if (!violation) {
+      return undefined;
+    }
+
+    if (user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException(VIOLATION_MESSAGES[violation]);
+    }
+    if (!justification?.trim()) {
+      throw new ForbiddenException(
+        `${VIOLATION_MESSAGES[violation]}. System admins can override this by providing a justification`,
+      );
+    }
+    return { violation, justification: justification.trim() };
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { subDays } from 'date-fns';
+import { ExpenseService } from './expense.service';
+import { TeamService } from '../../team/services/team.service';
+
+// Deleted documents only need to go once their retention window is over
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Permanently removes expenses and teams that have been in the trash for
+ * longer than the retention window. Expenses go first, so a team whose
+ * expenses expire at the same time is purged in the same run.
+ */
+@Injectable()
+export class TrashPurgeService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TrashPurgeService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private expenseService: ExpenseService,
+    private teamService: TeamService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!this.configService.get<boolean>('trash.purgeEnabled')) {
+      this.logger.log('Trash purge disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.purge(), PURGE_INTERVAL_MS);
+    this.timer.unref();
+    void this.purge();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async purge(now = new Date()): Promise<{ expenses: number; teams: number }> {
+    const purged = { expenses: 0, teams: 0 };
+    if (this.running) {
+      return purged;
+    }
+    this.running = true;
+
+    try {
+      const retentionDays =
+        this.configService.get<number>('trash.retentionDays') || 30;
+      const deletedBefore = subDays(now, retentionDays);
+      purged.expenses = await this.expenseService.purgeDeleted(deletedBefore);
+      purged.teams = await this.teamService.purgeDeleted(deletedBefore);
+      if (purged.expenses > 0 || purged.teams > 0) {
+        this.logger.log(
+          `Purged ${purged.expenses} expenses and ${purged.teams} teams deleted before ${deletedBefore.toISOString()}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error purging the trash: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+    return purged;
+  }
+}
@@ -1,16 +1,56 @@
-import { ExpenseCategory } from "@shared/lib";
+import { BulkActionOutcome, ExpenseCategory, ExpenseStatus } from "@shared/lib";
 import { ExpenseDocument } from "../schemas/expense.schema";
+import { SubmitterSchema } from "../schemas/submitter.schema";
+import { Team } from "../../team/schemas/team.schema";
 
 export type CreateExpenseResponse = {
     expense: ExpenseDocument;
-    aiSuggestion?: { 
-      category: ExpenseCategory | undefined; 
-      [key: string]: any;
+    aiSuggestion: {
+      category: ExpenseCategory | undefined;
     } | null;
-    duplicateWarning?: {
-      isDuplicate: boolean ;
+    duplicateWarning: {
+      isDuplicate: boolean;
       confidence: number | undefined;
       reason: string | undefined;
-      [key: string]: any;
     } | null;
-  }
\ No newline at end of file
+  }
+// A listed expense with its comment count and, when listed by team, that team's portion
+export type ListedExpense = ExpenseDocument & {
+    commentCount: number;
+    allocatedAmount?: number;
+  }
+// The fields of a populated team that expense lists show
+export type ListedTeam = Pick<Team, 'name' | 'baseCurrency'>;
+export type StatusChangeOptions = {
+    // Recorded in the status history
+    note?: string;
+    // Lets a system admin approve despite a separation of duties rule
+    overrideJustification?: string;
+  }
+export type BulkActionResult = {
+    expenseId: string;
+    outcome: BulkActionOutcome;
+    // Status of the expense after the action, unset when it was not found or
+    // the user may not decide it
+    status?: ExpenseStatus;
+    // Why the expense was skipped or not updated
+    reason?: string;
+  }
+export type ExpenseVersionValues = {
+    description: string;
+    amount: number;
+    category: ExpenseCategory;
+    // ISO date, as recorded in the audit log
+    date: string;
+    status: ExpenseStatus;
+  }
+export type ExpenseVersion = {
+    version: number;
+    values: ExpenseVersionValues;
+    // Fields that changed from the previous version
+    changes: { field: string; before: any; after: any }[];
+    changedAt: Date;
+    changedBy: SubmitterSchema | null;
+    // Unset for the first version of expenses created before the audit log
+    operation: string | null;
+  }
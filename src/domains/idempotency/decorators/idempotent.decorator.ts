@@ -0,0 +1,30 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import {
+  ApiConflictResponse,
+  ApiHeader,
+  ApiUnprocessableEntityResponse,
+} from '@nestjs/swagger';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyInterceptor,
+} from '../interceptors/idempotency.interceptor';
+
+// Accepts an Idempotency-Key so retries of the request are answered once
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      description:
+        'Unique key of the request (e.g. a UUID). Retries with the same key and body get the first response again, with an Idempotent-Replayed header, instead of repeating the request.',
+      required: false,
+    }),
+    ApiUnprocessableEntityResponse({
+      description:
+        'The Idempotency-Key was already used for a different request',
+    }),
+    ApiConflictResponse({
+      description:
+        'A request with the same Idempotency-Key is still being processed',
+    }),
+  );
@@ -0,0 +1,4 @@
+export { IdempotencyModule } from './idempotency.module';
+export { IdempotencyService } from './services/idempotency.service';
+export { IdempotencyInterceptor } from './interceptors/idempotency.interceptor';
+export { Idempotent } from './decorators/idempotent.decorator';
@@ -0,0 +1,154 @@
+import { CallHandler, ExecutionContext, StreamableFile } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { UserRole } from '@shared/lib';
+import { IdempotencyService } from '../services/idempotency.service';
+import {
+  IDEMPOTENT_REPLAYED_HEADER,
+  IdempotencyInterceptor,
+} from './idempotency.interceptor';
+
+// The service is faked, so its schema import is not needed
+jest.mock('../services/idempotency.service', () => ({
+  IdempotencyService: class IdempotencyService {},
+}));
+
+describe('IdempotencyInterceptor', () => {
+  const user = {
+    userId: 'user-id',
+    email: 'user@example.com',
+    name: 'User',
+    role: UserRole.USER,
+  };
+
+  let headers: Record<string, string>;
+  let response: { setHeader: jest.Mock; getHeader: jest.Mock };
+  let idempotencyService: Record<string, jest.Mock>;
+  let interceptor: IdempotencyInterceptor;
+
+  const context = (key?: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          originalUrl: '/api/expenses',
+          body: { amount: 10 },
+          user,
+          header: () => key,
+        }),
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const handler = (result: unknown): CallHandler & { handle: jest.Mock } => ({
+    handle: jest.fn(() => of(result)),
+  });
+
+  beforeEach(() => {
+    headers = {};
+    response = {
+      setHeader: jest.fn((name: string, value: string) => {
+        headers[name] = value;
+      }),
+      getHeader: jest.fn((name: string) => headers[name]),
+    };
+    idempotencyService = {
+      fingerprint: jest.fn().mockReturnValue('fingerprint'),
+      begin: jest.fn().mockResolvedValue(null),
+      complete: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    interceptor = new IdempotencyInterceptor(
+      idempotencyService as unknown as IdempotencyService,
+    );
+  });
+
+  it('runs requests without a key as usual', async () => {
+    const next = handler({ success: true });
+
+    const result = await lastValueFrom(
+      await interceptor.intercept(context(), next),
+    );
+
+    expect(result).toEqual({ success: true });
+    expect(idempotencyService.begin).not.toHaveBeenCalled();
+  });
+
+  it('stores the response of the first request', async () => {
+    const result = await lastValueFrom(
+      await interceptor.intercept(context('key-1'), handler({ id: 1 })),
+    );
+
+    expect(result).toEqual({ id: 1 });
+    expect(idempotencyService.begin).toHaveBeenCalledWith(
+      'user-id',
+      'key-1',
+      'fingerprint',
+    );
+    expect(idempotencyService.complete).toHaveBeenCalledWith(
+      'user-id',
+      'key-1',
+      {
+        body: Buffer.from('{"id":1}'),
+        contentType: null,
+        contentDisposition: null,
+      },
+    );
+  });
+
+  it('replays the stored response without running the handler again', async () => {
+    idempotencyService.begin.mockResolvedValue({
+      body: Buffer.from('{"id":1}'),
+      contentType: null,
+      contentDisposition: null,
+    });
+    const next = handler({ id: 2 });
+
+    const result = await lastValueFrom(
+      await interceptor.intercept(context('key-1'), next),
+    );
+
+    expect(result).toEqual({ id: 1 });
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(headers[IDEMPOTENT_REPLAYED_HEADER]).toBe('true');
+  });
+
+  it('replays stored files with their headers', async () => {
+    idempotencyService.begin.mockResolvedValue({
+      body: Buffer.from('%PDF'),
+      contentType: 'application/pdf',
+      contentDisposition: 'attachment; filename="report.pdf"',
+    });
+
+    const result = await lastValueFrom(
+      await interceptor.intercept(context('key-1'), handler(null)),
+    );
+
+    expect(result).toBeInstanceOf(StreamableFile);
+    expect(headers['Content-Type']).toBe('application/pdf');
+    expect(headers['Content-Disposition']).toBe(
+      'attachment; filename="report.pdf"',
+    );
+  });
+
+  it('releases the key when the handler fails so a retry runs again', async () => {
+    const error = new Error('Budget exceeded');
+    const next = { handle: () => throwError(() => error) };
+
+    await expect(
+      lastValueFrom(await interceptor.intercept(context('key-1'), next)),
+    ).rejects.toBe(error);
+    expect(idempotencyService.release).toHaveBeenCalledWith('user-id', 'key-1');
+    expect(idempotencyService.complete).not.toHaveBeenCalled();
+  });
+
+  it('keeps the key locked when the response cannot be stored', async () => {
+    idempotencyService.complete.mockRejectedValue(new Error('write failed'));
+
+    const result = await lastValueFrom(
+      await interceptor.intercept(context('key-1'), handler({ id: 1 })),
+    );
+
+    expect(result).toEqual({ id: 1 });
+    expect(idempotencyService.release).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  StreamableFile,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Observable, catchError, from, mergeMap, of } from 'rxjs';
+import { buffer } from 'stream/consumers';
+import { AuthenticatedUser } from '@shared/lib';
+import {
+  IdempotencyService,
+  StoredResponse,
+} from '../services/idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Makes a POST handler safe to retry: the first response to an
+ * Idempotency-Key is stored and sent again for retries with the same key and
+ * body instead of running the handler twice. Requests without the header run
+ * as usual. Handlers return JSON or a StreamableFile with their headers set
+ * on the response.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(private idempotencyService: IdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+    const user = request.user as AuthenticatedUser | undefined;
+    if (key === undefined || !user) {
+      return next.handle();
+    }
+
+    const stored = await this.idempotencyService.begin(
+      user.userId,
+      key,
+      this.idempotencyService.fingerprint(
+        request.method,
+        request.originalUrl,
+        request.body,
+      ),
+    );
+    if (stored) {
+      response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return of(this.replay(stored, response));
+    }
+
+    // Only failures of the handler free the key; the response is stored after
+    return next.handle().pipe(
+      catchError((error) => from(this.release(user.userId, key, error))),
+      mergeMap((result) =>
+        from(this.store(user.userId, key, result, response)),
+      ),
+    );
+  }
+
+  private async release(
+    userId: string,
+    key: string,
+    error: unknown,
+  ): Promise<never> {
+    try {
+      await this.idempotencyService.release(userId, key);
+    } catch (releaseError) {
+      this.logger.error(
+        `Error releasing Idempotency-Key: ${releaseError instanceof Error ? releaseError.message : String(releaseError)}`,
+      );
+    }
+    throw error;
+  }
+
+  /**
+   * Stores the response and hands it on, reading files into memory first.
+   * The handler has already run, so a failure to store is only logged: the
+   * key stays locked until it times out rather than letting a retry run the
+   * handler again right away.
+   */
+  private async store(
+    userId: string,
+    key: string,
+    result: unknown,
+    response: Response,
+  ): Promise<unknown> {
+    let stored: StoredResponse;
+    if (result instanceof StreamableFile) {
+      let body: Buffer;
+      try {
+        body = await buffer(result.getStream());
+      } catch (error) {
+        // The file could not be produced, so the request failed after all
+        return this.release(userId, key, error);
+      }
+      stored = {
+        body,
+        contentType: this.header(response, 'Content-Type'),
+        contentDisposition: this.header(response, 'Content-Disposition'),
+      };
+      result = new StreamableFile(body);
+    } else {
+      stored = {
+        body: Buffer.from(JSON.stringify(result ?? null)),
+        contentType: null,
+        contentDisposition: null,
+      };
+    }
+
+    try {
+      await this.idempotencyService.complete(userId, key, stored);
+    } catch (error) {
+      this.logger.error(
+        `Error storing the response of an Idempotency-Key: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return result;
+  }
+
+  private replay(stored: StoredResponse, response: Response): unknown {
+    const body = Buffer.from(stored.body ?? '');
+    if (!stored.contentType) {
+      return JSON.parse(body.toString());
+    }
+    response.setHeader('Content-Type', stored.contentType);
+    if (stored.contentDisposition) {
+      response.setHeader('Content-Disposition', stored.contentDisposition);
+    }
+    return new StreamableFile(body);
+  }
+
+  private header(response: Response, name: string): string | null {
+    const value = response.getHeader(name);
+    return value === undefined ? null : String(value);
+  }
+}
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type IdempotencyKeyDocument = IdempotencyKey & Document;
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class IdempotencyKey {
+  // Keys are chosen by the client, so each user has their own
+  @Prop({ type: Types.ObjectId, required: true })
+  user: Types.ObjectId;
+
+  @Prop({ required: true })
+  key: string;
+
+  // Hash of the method, URL and body of the first request with the key
+  @Prop({ required: true })
+  fingerprint: string;
+
+  // False while the first request is still running
+  @Prop({ default: false })
+  completed: boolean;
+
+  // The response of the first request: JSON, or a file with its headers
+  @Prop({ type: Buffer, default: null })
+  body: Buffer | null;
+
+  @Prop({ type: String, default: null })
+  contentType: string | null;
+
+  @Prop({ type: String, default: null })
+  contentDisposition: string | null;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  createdAt: Date;
+}
+
+export const IdempotencyKeySchema =
+  SchemaFactory.createForClass(IdempotencyKey);
+
+IdempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+// MongoDB removes keys once they expire
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
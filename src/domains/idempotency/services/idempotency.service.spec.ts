@@ -0,0 +1,152 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { IdempotencyKeyDocument } from '../schemas/idempotency-key.schema';
+import { IdempotencyService } from './idempotency.service';
+
+// The schema class only provides the model name here
+jest.mock('../schemas/idempotency-key.schema', () => ({
+  IdempotencyKey: class IdempotencyKey {},
+}));
+
+describe('IdempotencyService', () => {
+  const userId = new Types.ObjectId().toString();
+  const duplicateKeyError = Object.assign(new Error('E11000'), {
+    code: 11000,
+  });
+
+  let idempotencyKeyModel: Record<string, jest.Mock>;
+  let service: IdempotencyService;
+
+  const existingKey = (key: Record<string, unknown> | null) =>
+    idempotencyKeyModel.findOne.mockReturnValue({
+      exec: () => Promise.resolve(key),
+    });
+
+  beforeEach(() => {
+    idempotencyKeyModel = {
+      deleteOne: jest.fn().mockResolvedValue({}),
+      create: jest.fn().mockResolvedValue({}),
+      findOne: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({}),
+    };
+    service = new IdempotencyService(
+      idempotencyKeyModel as unknown as Model<IdempotencyKeyDocument>,
+      new ConfigService({ idempotency: { ttlHours: 2 } }),
+    );
+  });
+
+  describe('fingerprint', () => {
+    it('tells requests apart by method, URL and body', () => {
+      const fingerprint = service.fingerprint('POST', '/api/expenses', {
+        amount: 10,
+      });
+      expect(service.fingerprint('POST', '/api/expenses', { amount: 10 })).toBe(
+        fingerprint,
+      );
+      expect(
+        service.fingerprint('POST', '/api/expenses', { amount: 11 }),
+      ).not.toBe(fingerprint);
+      expect(
+        service.fingerprint('POST', '/api/payouts', { amount: 10 }),
+      ).not.toBe(fingerprint);
+    });
+  });
+
+  describe('begin', () => {
+    it('claims an unused key so the request runs', async () => {
+      await expect(service.begin(userId, 'key-1', 'abc')).resolves.toBeNull();
+      expect(idempotencyKeyModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'key-1', fingerprint: 'abc' }),
+      );
+    });
+
+    it('returns the stored response to replay for a retry of the same request', async () => {
+      idempotencyKeyModel.create.mockRejectedValue(duplicateKeyError);
+      const stored = {
+        fingerprint: 'abc',
+        completed: true,
+        body: Buffer.from('{"success":true}'),
+        contentType: null,
+      };
+      existingKey(stored);
+
+      await expect(service.begin(userId, 'key-1', 'abc')).resolves.toBe(stored);
+    });
+
+    it('rejects reusing a key for a different request', async () => {
+      idempotencyKeyModel.create.mockRejectedValue(duplicateKeyError);
+      existingKey({ fingerprint: 'other', completed: true });
+
+      await expect(service.begin(userId, 'key-1', 'abc')).rejects.toThrow(
+        UnprocessableEntityException,
+      );
+    });
+
+    it('rejects a retry while the first request is still running', async () => {
+      idempotencyKeyModel.create.mockRejectedValue(duplicateKeyError);
+      existingKey({ fingerprint: 'abc', completed: false });
+
+      await expect(service.begin(userId, 'key-1', 'abc')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('clears an expired key before claiming it again', async () => {
+      await service.begin(userId, 'key-1', 'abc');
+
+      expect(idempotencyKeyModel.deleteOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'key-1',
+          expiresAt: { $lte: expect.any(Date) },
+        }),
+      );
+    });
+
+    it('rejects empty and overlong keys', async () => {
+      await expect(service.begin(userId, ' ', 'abc')).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.begin(userId, 'k'.repeat(256), 'abc'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('complete', () => {
+    it('stores the response until the configured expiry', async () => {
+      const before = Date.now();
+      await service.complete(userId, 'key-1', {
+        body: Buffer.from('{}'),
+        contentType: null,
+        contentDisposition: null,
+      });
+
+      const [filter, update] = idempotencyKeyModel.updateOne.mock.calls[0];
+      expect(filter).toEqual({
+        user: new Types.ObjectId(userId),
+        key: 'key-1',
+      });
+      expect(update.$set.completed).toBe(true);
+      expect(update.$set.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 2 * 60 * 60 * 1000,
+      );
+    });
+  });
+
+  describe('release', () => {
+    it('only frees keys whose request did not complete', async () => {
+      await service.release(userId, 'key-1');
+
+      expect(idempotencyKeyModel.deleteOne).toHaveBeenCalledWith({
+        user: new Types.ObjectId(userId),
+        key: 'key-1',
+        completed: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { addHours, addMinutes } from 'date-fns';
+import {
+  IdempotencyKey,
+  IdempotencyKeyDocument,
+} from '../schemas/idempotency-key.schema';
+
+export type StoredResponse = Pick<
+  IdempotencyKey,
+  'body' | 'contentType' | 'contentDisposition'
+>;
+
+const MAX_KEY_LENGTH = 255;
+// A request that never completes, e.g. because the server stopped, frees its key after this long
+const LOCK_TIMEOUT_MINUTES = 5;
+
+@Injectable()
+export class IdempotencyService {
+  constructor(
+    @InjectModel(IdempotencyKey.name)
+    private idempotencyKeyModel: Model<IdempotencyKeyDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  // Requests are the same when they have the same method, URL and body
+  fingerprint(method: string, url: string, body: unknown): string {
+    return createHash('sha256')
+      .update(JSON.stringify([method, url, body ?? null]))
+      .digest('hex');
+  }
+
+  /**
+   * Claims the key for a request. Returns null when the request should run,
+   * or the response of the first request when the key was already used for
+   * the same one.
+   */
+  async begin(
+    userId: string,
+    key: string,
+    fingerprint: string,
+  ): Promise<StoredResponse | null> {
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+    const user = new Types.ObjectId(userId);
+
+    // Expired keys can linger until MongoDB removes them
+    await this.idempotencyKeyModel.deleteOne({
+      user,
+      key,
+      expiresAt: { $lte: new Date() },
+    });
+    try {
+      await this.idempotencyKeyModel.create({
+        user,
+        key,
+        fingerprint,
+        expiresAt: addMinutes(new Date(), LOCK_TIMEOUT_MINUTES),
+      });
+      return null;
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+
+    const existing = await this.idempotencyKeyModel
+      .findOne({ user, key })
+      .exec();
+    if (existing && existing.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException(
+        'This Idempotency-Key was already used for a different request',
+      );
+    }
+    if (!existing?.completed) {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed, retry later',
+      );
+    }
+    return existing;
+  }
+
+  // Keeps the response to replay it for retries until the key expires
+  async complete(
+    userId: string,
+    key: string,
+    response: StoredResponse,
+  ): Promise<void> {
+    const ttlHours =
+      this.configService.get<number>('idempotency.ttlHours') || 24;
+    await this.idempotencyKeyModel.updateOne(
+      { user: new Types.ObjectId(userId), key },
+      {
+        $set: {
+          ...response,
+          completed: true,
+          expiresAt: addHours(new Date(), ttlHours),
+        },
+      },
+    );
+  }
+
+  // Failed requests free their key, so the retry runs again
+  async release(userId: string, key: string): Promise<void> {
+    await this.idempotencyKeyModel.deleteOne({
+      user: new Types.ObjectId(userId),
+      key,
+      completed: false,
+    });
+  }
+}
@@ -0,0 +1,321 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { PayoutService } from '../services/payout.service';
+import { CreatePayoutBatchDto } from '../dto/payout.dto';
+import { CurrentUser, Roles } from '@shared/decorators';
+import { Idempotent } from '../../idempotency/decorators/idempotent.decorator';
+import { PayoutBatchStatus, UserRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Payouts')
+@ApiBearerAuth()
+@Roles(UserRole.FINANCE, UserRole.ADMIN)
+@ApiForbiddenResponse({
+  description: 'Only finance users and system admins can manage payouts',
+})
+@Controller('payouts')
+export class PayoutController {
+  private readonly logger = new Logger(PayoutController.name);
+
+  constructor(private readonly payoutService: PayoutService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create payout batch',
+    description:
+      'Groups approved expenses that are not part of a batch yet into a draft payout batch, with one line per submitter.',
+  })
+  @ApiBody({ type: CreatePayoutBatchDto })
+  @ApiCreatedResponse({
+    description: 'Payout batch created',
+    schema: {
+      example: {
+        success: true,
+        batch: {
+          _id: '507f1f77bcf86cd799439020',
+          reference: 'PAY-20240131-A1B2C3',
+          status: 'draft',
+          total: 1250.5,
+          currency: 'USD',
+          items: [
+            {
+              payee: { name: 'John Doe', email: 'john.doe@company.com' },
+              expenses: ['507f1f77bcf86cd799439011'],
+              amount: 1250.5,
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'No approved expenses are waiting for payout',
+  })
+  async create(
+    @Body() createBatchDto: CreatePayoutBatchDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const batch = await this.payoutService.create(createBatchDto, user);
+      return {
+        success: true,
+        batch,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error creating payout batch: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to create payout batch',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List payout batches',
+    description: 'Returns payout batches, newest first.',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: PayoutBatchStatus,
+  })
+  @ApiOkResponse({ description: 'Payout batches retrieved successfully' })
+  async findAll(@Query('status') status?: PayoutBatchStatus) {
+    try {
+      const batches = await this.payoutService.findAll(status);
+      return {
+        success: true,
+        batches,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching payout batches: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch payout batches',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get payout batch',
+    description: 'Returns a payout batch with the expenses of each payee.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Payout batch ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @ApiOkResponse({ description: 'Payout batch retrieved successfully' })
+  @ApiNotFoundResponse({ description: 'Payout batch not found' })
+  async findOne(@Param('id') id: string) {
+    try {
+      const batch = await this.payoutService.findOne(id);
+      return {
+        success: true,
+        batch,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching payout batch ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch payout batch',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete draft payout batch',
+    description:
+      'Deletes a draft payout batch. Its expenses become available for a new batch.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Payout batch ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @ApiOkResponse({ description: 'Payout batch deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Payout batch not found' })
+  @ApiConflictResponse({ description: 'The batch is no longer a draft' })
+  async remove(@Param('id') id: string) {
+    try {
+      await this.payoutService.remove(id);
+      return {
+        success: true,
+        message: 'Payout batch deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting payout batch ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to delete payout batch',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/export')
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @ApiOperation({
+    summary: 'Export payout batch as CSV',
+    description:
+      'Downloads the bank transfer CSV of the batch (one row per payee). The first export moves a draft batch to exported and emails every payee that their reimbursement is on its way.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Payout batch ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'CSV file generated successfully' })
+  @ApiNotFoundResponse({ description: 'Payout batch not found' })
+  async exportCsv(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    try {
+      const { filename, csv } = await this.payoutService.exportCsv(id, user);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}"`,
+      );
+      return new StreamableFile(Buffer.from(csv));
+    } catch (error) {
+      this.logger.error(
+        `Error exporting payout batch ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to export payout batch',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/mark-paid')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Mark payout batch as paid',
+    description:
+      'Marks an exported batch as paid and moves all of its expenses to reimbursed. Can be retried if it fails halfway.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Payout batch ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  @ApiOkResponse({ description: 'Payout batch marked as paid' })
+  @ApiNotFoundResponse({ description: 'Payout batch not found' })
+  @ApiConflictResponse({
+    description: 'The batch has not been exported yet or is already paid',
+  })
+  async markPaid(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const batch = await this.payoutService.markPaid(id, user);
+      return {
+        success: true,
+        batch,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error marking payout batch ${id} as paid: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to mark payout batch as paid',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  IsOptional,
+  IsMongoId,
+  IsDateString,
+  IsArray,
+  IsISO4217CurrencyCode,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreatePayoutBatchDto {
+  @ApiPropertyOptional({
+    description: 'Only include approved expenses of this team',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  team?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only include these approved expenses',
+    example: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  expenseIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only include expenses incurred on or before this date',
+    example: '2024-01-31',
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDateString()
+  incurredUntil?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Currency of the batch; only expenses converted to it are included',
+    example: 'EUR',
+    default: 'USD',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
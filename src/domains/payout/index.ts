@@ -0,0 +1,3 @@
+export { PayoutModule } from './payout.module';
+export { PayoutController } from './controllers/payout.controller';
+export { PayoutService } from './services/payout.service';
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PayoutController } from './controllers/payout.controller';
+import { PayoutService } from './services/payout.service';
+import { PayoutBatch, PayoutBatchSchema } from './schemas/payout-batch.schema';
+import { Expense, ExpenseSchema } from '../expense/schemas/expense.schema';
+import { ExpenseModule } from '../expense/expense.module';
+import { AuditModule } from '../audit/audit.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { EmailService } from '@shared/services/email.service';
+
+@Module({
+  imports: [
+    ExpenseModule,
+    AuditModule,
+    IdempotencyModule,
+    MongooseModule.forFeature([
+      { name: PayoutBatch.name, schema: PayoutBatchSchema },
+      { name: Expense.name, schema: ExpenseSchema },
+    ]),
+  ],
+  controllers: [PayoutController],
+  providers: [PayoutService, EmailService],
+  exports: [PayoutService],
+})
+export class PayoutModule {}
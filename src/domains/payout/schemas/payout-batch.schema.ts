@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { DEFAULT_CURRENCY, PayoutBatchStatus } from '@shared/lib';
+import { PayoutItemSchema } from './payout-item.schema';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+
+export type PayoutBatchDocument = PayoutBatch & Document;
+
+@Schema({ timestamps: true })
+export class PayoutBatch {
+  // Human readable identifier, also used as the bank transfer reference
+  @Prop({ required: true, unique: true })
+  reference: string;
+
+  @Prop({ enum: PayoutBatchStatus, default: PayoutBatchStatus.DRAFT })
+  status: PayoutBatchStatus;
+
+  @Prop({ type: [PayoutItemSchema], default: [] })
+  items: PayoutItemSchema[];
+
+  @Prop({ required: true, min: 0 })
+  total: number;
+
+  // Expenses are paid in the base currency they were approved in
+  @Prop({ default: DEFAULT_CURRENCY, uppercase: true })
+  currency: string;
+
+  @Prop({ type: SubmitterSchema, required: true })
+  createdBy: SubmitterSchema;
+
+  @Prop()
+  exportedAt: Date;
+
+  @Prop()
+  paidAt: Date;
+
+  @Prop({ type: SubmitterSchema })
+  paidBy: SubmitterSchema;
+}
+
+export const PayoutBatchSchema = SchemaFactory.createForClass(PayoutBatch);
+
+// Indexes
+PayoutBatchSchema.index({ status: 1, createdAt: -1 });
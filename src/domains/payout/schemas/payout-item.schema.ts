@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+
+// Everything owed to one submitter in a batch
+@Schema({ _id: false })
+export class PayoutItemSchema {
+  @Prop({ type: SubmitterSchema, required: true })
+  payee: SubmitterSchema;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Expense' }], default: [] })
+  expenses: Types.ObjectId[];
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+}
+
+export const PayoutItemSchemaFactory =
+  SchemaFactory.createForClass(PayoutItemSchema);
@@ -0,0 +1,333 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model, Types } from 'mongoose';
+import { randomBytes } from 'crypto';
+import { format } from 'date-fns';
+import {
+  PayoutBatch,
+  PayoutBatchDocument,
+} from '../schemas/payout-batch.schema';
+import { PayoutItemSchema } from '../schemas/payout-item.schema';
+import { Expense, ExpenseDocument } from '../../expense/schemas/expense.schema';
+import { CreatePayoutBatchDto } from '../dto/payout.dto';
+import { ExpenseService } from '../../expense/services/expense.service';
+import { EmailService } from '../../../shared/services/email.service';
+import { AuditService } from '../../audit/services/audit.service';
+import {
+  AuditAction,
+  AuditEntityType,
+  AuthenticatedUser,
+  DEFAULT_CURRENCY,
+  ExpenseStatus,
+  PayoutBatchStatus,
+} from '@shared/lib';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const CSV_HEADER = [
+  'Reference',
+  'Payee Name',
+  'Payee Email',
+  'Amount',
+  'Currency',
+  'Expense Count',
+];
+
+@Injectable()
+export class PayoutService {
+  private readonly logger = new Logger(PayoutService.name);
+
+  constructor(
+    @InjectModel(PayoutBatch.name)
+    private batchModel: Model<PayoutBatchDocument>,
+    @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
+    private expenseService: ExpenseService,
+    private emailService: EmailService,
+    private auditService: AuditService,
+    @InjectConnection() private connection: Connection,
+  ) {}
+
+  async create(
+    createBatchDto: CreatePayoutBatchDto,
+    user: AuthenticatedUser,
+  ): Promise<PayoutBatchDocument> {
+    const filter: any = { status: ExpenseStatus.APPROVED, payoutBatch: null };
+    if (createBatchDto.team) {
+      filter.team = new Types.ObjectId(createBatchDto.team);
+    }
+    if (createBatchDto.expenseIds?.length) {
+      filter._id = {
+        $in: createBatchDto.expenseIds.map((id) => new Types.ObjectId(id)),
+      };
+    }
+    if (createBatchDto.incurredUntil) {
+      filter.date = { $lte: new Date(createBatchDto.incurredUntil) };
+    }
+    // A batch pays a single currency; expenses without a conversion predate
+    // currencies and were all in the default one
+    const currency = (
+      createBatchDto.currency ?? DEFAULT_CURRENCY
+    ).toUpperCase();
+    filter['conversion.baseCurrency'] =
+      currency === DEFAULT_CURRENCY ? { $in: [currency, null] } : currency;
+
+    const batch = new this.batchModel({
+      reference: this.generateReference(),
+      total: 0,
+      currency,
+      createdBy: {
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+      },
+    });
+
+    // Claiming with a conditional update keeps concurrent batches from
+    // paying the same expense twice; the transaction drops the claim when
+    // the batch or its audit entries cannot be saved
+    const expenses = await this.connection.transaction(async (session) => {
+      await this.expenseModel.updateMany(
+        filter,
+        { $set: { payoutBatch: batch._id }, $inc: { __v: 1 } },
+        { session },
+      );
+      const claimed = await this.expenseModel
+        .find({ payoutBatch: batch._id })
+        .session(session)
+        .exec();
+      if (claimed.length === 0) {
+        throw new BadRequestException(
+          `No approved ${currency} expenses are waiting for payout`,
+        );
+      }
+
+      batch.items = this.groupByPayee(claimed);
+      batch.total = roundCents(
+        batch.items.reduce((sum, item) => sum + item.amount, 0),
+      );
+      await batch.save({ session });
+      await this.auditService.recordMany(
+        claimed.map((expense) => ({
+          entityType: AuditEntityType.EXPENSE,
+          entityId: expense._id as Types.ObjectId,
+          action: AuditAction.UPDATE,
+          operation: 'expense.add-to-payout-batch',
+          before: { payoutBatch: null },
+          after: { payoutBatch: batch._id },
+        })),
+        session,
+      );
+      return claimed;
+    });
+
+    this.logger.log(
+      `Payout batch ${batch.reference} created by ${user.email}: ${expenses.length} expenses, ${batch.total} ${currency}`,
+    );
+    return batch;
+  }
+
+  async findAll(status?: PayoutBatchStatus): Promise<PayoutBatchDocument[]> {
+    return this.batchModel
+      .find(status ? { status } : {})
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findOne(id: string): Promise<PayoutBatchDocument> {
+    const batch = await this.batchModel
+      .findById(id)
+      .populate('items.expenses', 'description amount category date team')
+      .exec();
+    if (!batch) {
+      throw new NotFoundException('Payout batch not found');
+    }
+    return batch;
+  }
+
+  // Only drafts can be discarded; their expenses become available again
+  async remove(id: string): Promise<void> {
+    const batch = await this.findBatchOrFail(id);
+    if (batch.status !== PayoutBatchStatus.DRAFT) {
+      throw new ConflictException(
+        `A ${batch.status} payout batch can no longer be deleted`,
+      );
+    }
+
+    await this.connection.transaction(async (session) => {
+      await this.releaseExpenses(batch._id as Types.ObjectId, session);
+      await this.batchModel.findByIdAndDelete(id, { session }).exec();
+    });
+  }
+
+  /**
+   * Builds the bank transfer CSV. The first export moves the batch to
+   * exported and tells every payee their money is on its way.
+   */
+  async exportCsv(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<{ filename: string; csv: string }> {
+    const batch = await this.findBatchOrFail(id);
+
+    const rows = batch.items.map((item) => [
+      batch.reference,
+      item.payee.name,
+      item.payee.email,
+      item.amount.toFixed(2),
+      batch.currency,
+      String(item.expenses.length),
+    ]);
+    const csv = [CSV_HEADER, ...rows]
+      .map((row) => row.map((cell) => this.toCsvCell(cell)).join(','))
+      .join('\r\n');
+
+    if (batch.status === PayoutBatchStatus.DRAFT) {
+      batch.status = PayoutBatchStatus.EXPORTED;
+      batch.exportedAt = new Date();
+      await batch.save();
+      this.logger.log(
+        `Payout batch ${batch.reference} exported by ${user.email}`,
+      );
+      await this.notifyPayees(batch);
+    }
+
+    return { filename: `${batch.reference}.csv`, csv };
+  }
+
+  // Marks every expense of an exported batch as reimbursed; safe to retry
+  async markPaid(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<PayoutBatchDocument> {
+    const batch = await this.findBatchOrFail(id);
+    if (batch.status !== PayoutBatchStatus.EXPORTED) {
+      throw new ConflictException(
+        batch.status === PayoutBatchStatus.DRAFT
+          ? 'Export the payout batch before marking it as paid'
+          : 'This payout batch is already paid',
+      );
+    }
+
+    const expenseIds = batch.items.flatMap((item) => item.expenses);
+    const unpaid = await this.expenseModel
+      .find({ _id: { $in: expenseIds }, status: ExpenseStatus.APPROVED })
+      .select('_id')
+      .exec();
+    for (const expense of unpaid) {
+      await this.expenseService.update(
+        String(expense._id),
+        {
+          status: ExpenseStatus.REIMBURSED,
+          statusNote: `Paid in payout batch ${batch.reference}`,
+        },
+        user,
+      );
+    }
+
+    batch.status = PayoutBatchStatus.PAID;
+    batch.paidAt = new Date();
+    batch.paidBy = {
+      user: new Types.ObjectId(user.userId),
+      name: user.name,
+      email: user.email,
+    };
+    await batch.save();
+
+    this.logger.log(`Payout batch ${batch.reference} paid by ${user.email}`);
+    return batch;
+  }
+
+  private groupByPayee(expenses: ExpenseDocument[]): PayoutItemSchema[] {
+    const items = new Map<string, PayoutItemSchema>();
+    for (const expense of expenses) {
+      const { submittedBy } = expense;
+      const key = submittedBy.user
+        ? String(submittedBy.user)
+        : submittedBy.email;
+      const item = items.get(key) ?? {
+        payee: {
+          user: submittedBy.user,
+          name: submittedBy.name,
+          email: submittedBy.email,
+        },
+        expenses: [],
+        amount: 0,
+      };
+      item.expenses.push(expense._id as Types.ObjectId);
+      item.amount = roundCents(
+        item.amount + (expense.conversion?.baseAmount ?? expense.amount),
+      );
+      items.set(key, item);
+    }
+    return [...items.values()];
+  }
+
+  private async notifyPayees(batch: PayoutBatchDocument): Promise<void> {
+    for (const item of batch.items) {
+      const result = await this.emailService.sendPayoutNotification(
+        item.payee,
+        item.amount,
+        batch.currency,
+        item.expenses.length,
+        batch.reference,
+      );
+      if (!result.success) {
+        this.logger.warn(
+          `Payout email to ${item.payee.email} for ${batch.reference} not sent: ${result.error}`,
+        );
+      }
+    }
+  }
+
+  // Hands the batch's expenses back to the next payout run, with their audit entries
+  private async releaseExpenses(
+    batchId: Types.ObjectId,
+    session: ClientSession,
+  ): Promise<void> {
+    const expenses = await this.expenseModel
+      .find({ payoutBatch: batchId })
+      .select('_id')
+      .session(session)
+      .exec();
+    await this.expenseModel.updateMany(
+      { payoutBatch: batchId },
+      { $set: { payoutBatch: null }, $inc: { __v: 1 } },
+      { session },
+    );
+    await this.auditService.recordMany(
+      expenses.map((expense) => ({
+        entityType: AuditEntityType.EXPENSE,
+        entityId: expense._id as Types.ObjectId,
+        action: AuditAction.UPDATE,
+        operation: 'expense.remove-from-payout-batch',
+        before: { payoutBatch: batchId },
+        after: { payoutBatch: null },
+      })),
+      session,
+    );
+  }
+
+  private async findBatchOrFail(id: string): Promise<PayoutBatchDocument> {
+    const batch = await this.batchModel.findById(id).exec();
+    if (!batch) {
+      throw new NotFoundException('Payout batch not found');
+    }
+    return batch;
+  }
+
+  private generateReference(): string {
+    return `PAY-${format(new Date(), 'yyyyMMdd')}-${randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+
+  // Quotes every cell and neutralises spreadsheet formulas
+  private toCsvCell(value: string): string {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { UpsertExchangeRatesDto } from '../dto/rate.dto';
+import { CurrentUser, Roles } from '@shared/decorators';
+import { UserRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Rates')
+@ApiBearerAuth()
+@ApiForbiddenResponse({
+  description: 'Only system admins can change exchange rates',
+})
+@Controller('exchange-rates')
+export class ExchangeRateController {
+  private readonly logger = new Logger(ExchangeRateController.name);
+
+  constructor(private readonly exchangeRateService: ExchangeRateService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List exchange rates',
+    description:
+      'Returns the exchange rates, the most recent first for each currency pair.',
+  })
+  @ApiQuery({ name: 'from', required: false, example: 'EUR' })
+  @ApiQuery({ name: 'to', required: false, example: 'USD' })
+  @ApiOkResponse({
+    description: 'Exchange rates retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        rates: [
+          {
+            _id: '507f1f77bcf86cd799439052',
+            from: 'EUR',
+            to: 'USD',
+            rate: 1.08,
+            effectiveFrom: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  async findAll(@Query('from') from?: string, @Query('to') to?: string) {
+    try {
+      const rates = await this.exchangeRateService.findAll(from, to);
+      return {
+        success: true,
+        rates,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching exchange rates: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch exchange rates',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Load exchange rates',
+    description:
+      'Adds exchange rates. A rate applies from its effectiveFrom date until a later rate of the same pair takes over; a rate for the same pair and date replaces the existing one. System admins only.',
+  })
+  @ApiBody({ type: UpsertExchangeRatesDto })
+  @ApiOkResponse({
+    description: 'Exchange rates loaded',
+    schema: { example: { success: true, loaded: 2 } },
+  })
+  @ApiBadRequestResponse({ description: 'Invalid exchange rates' })
+  async upsert(
+    @Body() upsertRatesDto: UpsertExchangeRatesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const loaded = await this.exchangeRateService.upsert(
+        upsertRatesDto.rates,
+        user,
+      );
+      return {
+        success: true,
+        loaded,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error loading exchange rates: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to load exchange rates',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('reload')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Reload exchange rates file',
+    description:
+      'Loads the exchange rates file set in EXCHANGE_RATES_FILE again, e.g. after it was updated. System admins only.',
+  })
+  @ApiOkResponse({
+    description: 'Exchange rates loaded',
+    schema: { example: { success: true, loaded: 120 } },
+  })
+  @ApiBadRequestResponse({
+    description: 'No file is configured or the file is invalid',
+  })
+  async reload() {
+    try {
+      const loaded = await this.exchangeRateService.loadConfiguredFile();
+      return {
+        success: true,
+        loaded,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error reloading exchange rates: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to reload exchange rates',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete exchange rate',
+    description:
+      'Removes an exchange rate. Approved expenses keep the rate they were converted with. System admins only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Exchange rate ID',
+    example: '507f1f77bcf86cd799439052',
+  })
+  @ApiOkResponse({ description: 'Exchange rate deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Exchange rate not found' })
+  async remove(@Param('id') id: string) {
+    try {
+      await this.exchangeRateService.remove(id);
+      return {
+        success: true,
+        message: 'Exchange rate deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting exchange rate ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to delete exchange rate',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,437 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { RateService } from '../services/rate.service';
+import {
+  CreateMileageRateDto,
+  CreatePerDiemRateDto,
+  UpdateMileageRateDto,
+  UpdatePerDiemRateDto,
+} from '../dto/rate.dto';
+import { CurrentUser, Roles } from '@shared/decorators';
+import { UserRole, VehicleType } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Rates')
+@ApiBearerAuth()
+@ApiForbiddenResponse({ description: 'Only system admins can change rates' })
+@Controller('rates')
+export class RateController {
+  private readonly logger = new Logger(RateController.name);
+
+  constructor(private readonly rateService: RateService) {}
+
+  @Get('mileage')
+  @ApiOperation({
+    summary: 'List mileage rates',
+    description:
+      'Returns the mileage rates per vehicle type, the most recent first for each.',
+  })
+  @ApiQuery({ name: 'vehicleType', required: false, enum: VehicleType })
+  @ApiOkResponse({
+    description: 'Mileage rates retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        rates: [
+          {
+            _id: '507f1f77bcf86cd799439050',
+            vehicleType: 'car',
+            rate: 0.3,
+            effectiveFrom: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  async findMileageRates(@Query('vehicleType') vehicleType?: VehicleType) {
+    try {
+      const rates = await this.rateService.findMileageRates(vehicleType);
+      return {
+        success: true,
+        rates,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching mileage rates: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch mileage rates',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('mileage')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create mileage rate',
+    description:
+      'Adds a rate that applies to mileage expenses incurred from effectiveFrom until a later rate of the same vehicle type takes over. System admins only.',
+  })
+  @ApiBody({ type: CreateMileageRateDto })
+  @ApiCreatedResponse({
+    description: 'Mileage rate created',
+    schema: {
+      example: {
+        success: true,
+        rate: {
+          _id: '507f1f77bcf86cd799439050',
+          vehicleType: 'car',
+          rate: 0.3,
+          effectiveFrom: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiConflictResponse({
+    description: 'A rate of the same vehicle type already starts on this date',
+  })
+  async createMileageRate(
+    @Body() createRateDto: CreateMileageRateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const rate = await this.rateService.createMileageRate(
+        createRateDto,
+        user,
+      );
+      return {
+        success: true,
+        rate,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error creating mileage rate: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to create mileage rate',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put('mileage/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update mileage rate',
+    description:
+      'Changes a rate for expenses computed from now on. Existing expenses keep the rate they were computed with. System admins only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rate ID',
+    example: '507f1f77bcf86cd799439050',
+  })
+  @ApiBody({ type: UpdateMileageRateDto })
+  @ApiOkResponse({ description: 'Mileage rate updated successfully' })
+  @ApiNotFoundResponse({ description: 'Rate not found' })
+  @ApiConflictResponse({
+    description: 'A rate of the same vehicle type already starts on this date',
+  })
+  async updateMileageRate(
+    @Param('id') id: string,
+    @Body() updateRateDto: UpdateMileageRateDto,
+  ) {
+    try {
+      const rate = await this.rateService.updateMileageRate(id, updateRateDto);
+      return {
+        success: true,
+        rate,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating mileage rate ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to update mileage rate',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete('mileage/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete mileage rate',
+    description:
+      'Removes a rate. Existing expenses keep the rate they were computed with. System admins only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rate ID',
+    example: '507f1f77bcf86cd799439050',
+  })
+  @ApiOkResponse({ description: 'Mileage rate deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Rate not found' })
+  async removeMileageRate(@Param('id') id: string) {
+    try {
+      await this.rateService.removeMileageRate(id);
+      return {
+        success: true,
+        message: 'Mileage rate deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting mileage rate ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to delete mileage rate',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('per-diem')
+  @ApiOperation({
+    summary: 'List per-diem rates',
+    description:
+      'Returns the per-diem rates per location, the most recent first for each.',
+  })
+  @ApiQuery({
+    name: 'location',
+    required: false,
+    description: 'Only rates of this location code',
+    example: 'DE-BERLIN',
+  })
+  @ApiOkResponse({
+    description: 'Per-diem rates retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        rates: [
+          {
+            _id: '507f1f77bcf86cd799439051',
+            location: 'DE-BERLIN',
+            dailyRate: 28,
+            effectiveFrom: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  async findPerDiemRates(@Query('location') location?: string) {
+    try {
+      const rates = await this.rateService.findPerDiemRates(location);
+      return {
+        success: true,
+        rates,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching per-diem rates: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch per-diem rates',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('per-diem')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create per-diem rate',
+    description:
+      'Adds a rate that applies to per-diem expenses incurred from effectiveFrom until a later rate of the same location takes over. System admins only.',
+  })
+  @ApiBody({ type: CreatePerDiemRateDto })
+  @ApiCreatedResponse({
+    description: 'Per-diem rate created',
+    schema: {
+      example: {
+        success: true,
+        rate: {
+          _id: '507f1f77bcf86cd799439051',
+          location: 'DE-BERLIN',
+          dailyRate: 28,
+          effectiveFrom: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiConflictResponse({
+    description: 'A rate of the same location already starts on this date',
+  })
+  async createPerDiemRate(
+    @Body() createRateDto: CreatePerDiemRateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const rate = await this.rateService.createPerDiemRate(
+        createRateDto,
+        user,
+      );
+      return {
+        success: true,
+        rate,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error creating per-diem rate: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to create per-diem rate',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put('per-diem/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update per-diem rate',
+    description:
+      'Changes a rate for expenses computed from now on. Existing expenses keep the rate they were computed with. System admins only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rate ID',
+    example: '507f1f77bcf86cd799439051',
+  })
+  @ApiBody({ type: UpdatePerDiemRateDto })
+  @ApiOkResponse({ description: 'Per-diem rate updated successfully' })
+  @ApiNotFoundResponse({ description: 'Rate not found' })
+  @ApiConflictResponse({
+    description: 'A rate of the same location already starts on this date',
+  })
+  async updatePerDiemRate(
+    @Param('id') id: string,
+    @Body() updateRateDto: UpdatePerDiemRateDto,
+  ) {
+    try {
+      const rate = await this.rateService.updatePerDiemRate(id, updateRateDto);
+      return {
+        success: true,
+        rate,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating per-diem rate ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to update per-diem rate',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete('per-diem/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete per-diem rate',
+    description:
+      'Removes a rate. Existing expenses keep the rate they were computed with. System admins only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rate ID',
+    example: '507f1f77bcf86cd799439051',
+  })
+  @ApiOkResponse({ description: 'Per-diem rate deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Rate not found' })
+  async removePerDiemRate(@Param('id') id: string) {
+    try {
+      await this.rateService.removePerDiemRate(id);
+      return {
+        success: true,
+        message: 'Per-diem rate deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting per-diem rate ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to delete per-diem rate',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { VehicleType } from '@shared/lib';
+
+export class CreateMileageRateDto {
+  @ApiProperty({
+    description: 'Vehicle type the rate applies to',
+    enum: VehicleType,
+    example: VehicleType.CAR,
+  })
+  @IsEnum(VehicleType)
+  vehicleType: VehicleType;
+
+  @ApiProperty({
+    description: 'Reimbursed amount per unit of distance',
+    example: 0.3,
+    minimum: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  rate: number;
+
+  @ApiPropertyOptional({
+    description: 'Currency of the rate (ISO 4217 code, default USD)',
+    example: 'USD',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({
+    description: 'First day the rate applies to',
+    example: '2024-01-01',
+    format: 'date',
+  })
+  @IsDateString()
+  effectiveFrom: string;
+}
+
+export class UpdateMileageRateDto extends PartialType(CreateMileageRateDto) {}
+
+export class CreatePerDiemRateDto {
+  @ApiProperty({
+    description: 'Country or city code the rate applies to (case-insensitive)',
+    example: 'DE-BERLIN',
+    maxLength: 50,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  location: string;
+
+  @ApiProperty({
+    description: 'Reimbursed amount per day',
+    example: 28,
+    minimum: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  dailyRate: number;
+
+  @ApiPropertyOptional({
+    description: 'Currency of the rate (ISO 4217 code, default USD)',
+    example: 'EUR',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({
+    description: 'First day the rate applies to',
+    example: '2024-01-01',
+    format: 'date',
+  })
+  @IsDateString()
+  effectiveFrom: string;
+}
+
+export class UpdatePerDiemRateDto extends PartialType(CreatePerDiemRateDto) {}
+
+export class ExchangeRateDto {
+  @ApiProperty({
+    description: 'Currency converted from (ISO 4217 code)',
+    example: 'EUR',
+  })
+  @IsISO4217CurrencyCode()
+  from: string;
+
+  @ApiProperty({
+    description: 'Currency converted to (ISO 4217 code)',
+    example: 'USD',
+  })
+  @IsISO4217CurrencyCode()
+  to: string;
+
+  @ApiProperty({
+    description: 'Units of `to` for one unit of `from`',
+    example: 1.08,
+    minimum: 0,
+  })
+  @IsNumber()
+  @IsPositive()
+  rate: number;
+
+  @ApiProperty({
+    description: 'First day the rate applies to',
+    example: '2024-01-01',
+    format: 'date',
+  })
+  @IsDateString()
+  effectiveFrom: string;
+}
+
+export class UpsertExchangeRatesDto {
+  @ApiProperty({
+    description:
+      'Rates to add. A rate for the same pair and date replaces the existing one',
+    type: [ExchangeRateDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @ValidateNested({ each: true })
+  @Type(() => ExchangeRateDto)
+  rates: ExchangeRateDto[];
+}
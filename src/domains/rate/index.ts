@@ -0,0 +1,5 @@
+export { RateModule } from './rate.module';
+export { RateController } from './controllers/rate.controller';
+export { ExchangeRateController } from './controllers/exchange-rate.controller';
+export { RateService } from './services/rate.service';
+export { ExchangeRateService } from './services/exchange-rate.service';
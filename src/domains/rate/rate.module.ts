@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RateController } from './controllers/rate.controller';
+import { ExchangeRateController } from './controllers/exchange-rate.controller';
+import { RateService } from './services/rate.service';
+import { ExchangeRateService } from './services/exchange-rate.service';
+import { MileageRate, MileageRateSchema } from './schemas/mileage-rate.schema';
+import { PerDiemRate, PerDiemRateSchema } from './schemas/per-diem-rate.schema';
+import {
+  ExchangeRate,
+  ExchangeRateSchema,
+} from './schemas/exchange-rate.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MileageRate.name, schema: MileageRateSchema },
+      { name: PerDiemRate.name, schema: PerDiemRateSchema },
+      { name: ExchangeRate.name, schema: ExchangeRateSchema },
+    ]),
+  ],
+  controllers: [RateController, ExchangeRateController],
+  providers: [RateService, ExchangeRateService],
+  exports: [RateService, ExchangeRateService],
+})
+export class RateModule {}
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+
+export type ExchangeRateDocument = ExchangeRate & Document;
+
+// Units of `to` for one unit of `from`
+@Schema({ timestamps: true })
+export class ExchangeRate {
+  @Prop({ required: true, trim: true, uppercase: true })
+  from: string;
+
+  @Prop({ required: true, trim: true, uppercase: true })
+  to: string;
+
+  @Prop({ required: true, min: 0 })
+  rate: number;
+
+  // Applies from this date until a later rate of the same pair takes over
+  @Prop({ required: true })
+  effectiveFrom: Date;
+
+  // Who loaded the rate; empty for rates loaded from the rates file
+  @Prop({ type: SubmitterSchema })
+  createdBy?: SubmitterSchema;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
+
+ExchangeRateSchema.index(
+  { from: 1, to: 1, effectiveFrom: -1 },
+  { unique: true },
+);
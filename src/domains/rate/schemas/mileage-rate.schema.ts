@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { DEFAULT_CURRENCY, VehicleType } from '@shared/lib';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+
+export type MileageRateDocument = MileageRate & Document;
+
+@Schema({ timestamps: true })
+export class MileageRate {
+  @Prop({ enum: VehicleType, required: true })
+  vehicleType: VehicleType;
+
+  // Reimbursed amount per unit of distance
+  @Prop({ required: true, min: 0 })
+  rate: number;
+
+  @Prop({ trim: true, uppercase: true, default: DEFAULT_CURRENCY })
+  currency: string;
+
+  // Applies to expenses incurred on or after this date, until a later rate takes over
+  @Prop({ required: true })
+  effectiveFrom: Date;
+
+  @Prop({ type: SubmitterSchema, required: true })
+  createdBy: SubmitterSchema;
+}
+
+export const MileageRateSchema = SchemaFactory.createForClass(MileageRate);
+
+MileageRateSchema.index(
+  { vehicleType: 1, effectiveFrom: -1 },
+  { unique: true },
+);
@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { DEFAULT_CURRENCY } from '@shared/lib';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+
+export type PerDiemRateDocument = PerDiemRate & Document;
+
+@Schema({ timestamps: true })
+export class PerDiemRate {
+  // Country or city code, matched case-insensitively
+  @Prop({ required: true, trim: true, uppercase: true, maxlength: 50 })
+  location: string;
+
+  @Prop({ required: true, min: 0 })
+  dailyRate: number;
+
+  @Prop({ trim: true, uppercase: true, default: DEFAULT_CURRENCY })
+  currency: string;
+
+  // Applies to expenses incurred on or after this date, until a later rate takes over
+  @Prop({ required: true })
+  effectiveFrom: Date;
+
+  @Prop({ type: SubmitterSchema, required: true })
+  createdBy: SubmitterSchema;
+}
+
+export const PerDiemRateSchema = SchemaFactory.createForClass(PerDiemRate);
+
+PerDiemRateSchema.index({ location: 1, effectiveFrom: -1 }, { unique: true });
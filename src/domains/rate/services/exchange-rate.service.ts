@@ -0,0 +1,192 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { readFile } from 'fs/promises';
+import { format } from 'date-fns';
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+} from '../schemas/exchange-rate.schema';
+import { ExchangeRateDto } from '../dto/rate.dto';
+import { AuthenticatedUser } from '@shared/lib';
+
+export type ConversionRate = { rate: number; effectiveFrom: Date };
+
+const FILE_COLUMNS = ['from', 'to', 'rate', 'effectivefrom'];
+
+@Injectable()
+export class ExchangeRateService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ExchangeRateService.name);
+
+  constructor(
+    @InjectModel(ExchangeRate.name)
+    private exchangeRateModel: Model<ExchangeRateDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.configService.get<string>('exchangeRates.file')) {
+      return;
+    }
+    try {
+      await this.loadConfiguredFile();
+    } catch (error) {
+      this.logger.error(
+        `Error loading exchange rates: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  // Loads the file set in EXCHANGE_RATES_FILE
+  async loadConfiguredFile(): Promise<number> {
+    const file = this.configService.get<string>('exchangeRates.file');
+    if (!file) {
+      throw new BadRequestException('No exchange rates file is configured');
+    }
+    const count = await this.loadFile(file);
+    this.logger.log(`Loaded ${count} exchange rates from ${file}`);
+    return count;
+  }
+
+  async findAll(from?: string, to?: string): Promise<ExchangeRateDocument[]> {
+    const filter: any = {};
+    if (from) filter.from = from.toUpperCase();
+    if (to) filter.to = to.toUpperCase();
+    return this.exchangeRateModel
+      .find(filter)
+      .sort({ from: 1, to: 1, effectiveFrom: -1 })
+      .exec();
+  }
+
+  // Adds rates, replacing the ones of the same pair and date
+  async upsert(
+    rates: ExchangeRateDto[],
+    user?: AuthenticatedUser,
+  ): Promise<number> {
+    if (
+      rates.some((rate) => rate.from.toUpperCase() === rate.to.toUpperCase())
+    ) {
+      throw new BadRequestException(
+        'An exchange rate must convert between two different currencies',
+      );
+    }
+
+    const createdBy = user
+      ? {
+          user: new Types.ObjectId(user.userId),
+          name: user.name,
+          email: user.email,
+        }
+      : undefined;
+    const result = await this.exchangeRateModel.bulkWrite(
+      rates.map((rate) => {
+        const key = {
+          from: rate.from.toUpperCase(),
+          to: rate.to.toUpperCase(),
+          effectiveFrom: new Date(rate.effectiveFrom),
+        };
+        return {
+          updateOne: {
+            filter: key,
+            update: { $set: { ...key, rate: rate.rate, createdBy } },
+            upsert: true,
+          },
+        };
+      }),
+    );
+    return result.upsertedCount + result.modifiedCount;
+  }
+
+  /**
+   * Loads a CSV file with a `from,to,rate,effectiveFrom` header line, e.g.
+   * `EUR,USD,1.08,2024-01-01`.
+   */
+  private async loadFile(path: string): Promise<number> {
+    const [header, ...lines] = (await readFile(path, 'utf8'))
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'));
+    const columns = (header ?? '')
+      .split(',')
+      .map((column) => column.trim().toLowerCase());
+    if (FILE_COLUMNS.some((column) => !columns.includes(column))) {
+      throw new BadRequestException(
+        'The exchange rates file needs a from,to,rate,effectiveFrom header',
+      );
+    }
+
+    const rates = lines.map((line, index) => {
+      const cells = line.split(',').map((cell) => cell.trim());
+      const value = (column: string) => cells[columns.indexOf(column)];
+      const rate = {
+        from: value('from'),
+        to: value('to'),
+        rate: Number(value('rate')),
+        effectiveFrom: value('effectivefrom'),
+      };
+      if (
+        !/^[A-Za-z]{3}$/.test(rate.from ?? '') ||
+        !/^[A-Za-z]{3}$/.test(rate.to ?? '') ||
+        !(rate.rate > 0) ||
+        isNaN(Date.parse(rate.effectiveFrom))
+      ) {
+        throw new BadRequestException(
+          `Invalid exchange rate on line ${index + 2}`,
+        );
+      }
+      return rate;
+    });
+    return rates.length ? this.upsert(rates) : 0;
+  }
+
+  async remove(id: string): Promise<void> {
+    const rate = Types.ObjectId.isValid(id)
+      ? await this.exchangeRateModel.findByIdAndDelete(id).exec()
+      : null;
+    if (!rate) {
+      throw new NotFoundException('Exchange rate not found');
+    }
+  }
+
+  /**
+   * Rate in effect on the given date. Falls back to the inverse of the
+   * opposite pair when only that one is loaded.
+   */
+  async getRate(from: string, to: string, date: Date): Promise<ConversionRate> {
+    if (from === to) {
+      return { rate: 1, effectiveFrom: date };
+    }
+
+    const [direct, inverse] = await Promise.all([
+      this.findRate(from, to, date),
+      this.findRate(to, from, date),
+    ]);
+    if (direct && (!inverse || direct.effectiveFrom >= inverse.effectiveFrom)) {
+      return { rate: direct.rate, effectiveFrom: direct.effectiveFrom };
+    }
+    if (inverse) {
+      return { rate: 1 / inverse.rate, effectiveFrom: inverse.effectiveFrom };
+    }
+    throw new BadRequestException(
+      `No exchange rate from ${from} to ${to} on ${format(date, 'yyyy-MM-dd')}`,
+    );
+  }
+
+  private async findRate(
+    from: string,
+    to: string,
+    date: Date,
+  ): Promise<ExchangeRateDocument | null> {
+    return this.exchangeRateModel
+      .findOne({ from, to, effectiveFrom: { $lte: date } })
+      .sort({ effectiveFrom: -1 })
+      .exec();
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { format } from 'date-fns';
+import {
+  MileageRate,
+  MileageRateDocument,
+} from '../schemas/mileage-rate.schema';
+import {
+  PerDiemRate,
+  PerDiemRateDocument,
+} from '../schemas/per-diem-rate.schema';
+import {
+  CreateMileageRateDto,
+  CreatePerDiemRateDto,
+  UpdateMileageRateDto,
+  UpdatePerDiemRateDto,
+} from '../dto/rate.dto';
+import { AuthenticatedUser, VehicleType } from '@shared/lib';
+
+/**
+ * Rate tables used to compute the amount of mileage and per-diem expenses.
+ * Expenses keep a copy of the rate they were computed with, so changing or
+ * deleting a rate never alters existing expenses.
+ */
+@Injectable()
+export class RateService {
+  constructor(
+    @InjectModel(MileageRate.name)
+    private mileageRateModel: Model<MileageRateDocument>,
+    @InjectModel(PerDiemRate.name)
+    private perDiemRateModel: Model<PerDiemRateDocument>,
+  ) {}
+
+  async findMileageRates(
+    vehicleType?: VehicleType,
+  ): Promise<MileageRateDocument[]> {
+    return this.mileageRateModel
+      .find(vehicleType ? { vehicleType } : {})
+      .sort({ vehicleType: 1, effectiveFrom: -1 })
+      .exec();
+  }
+
+  async createMileageRate(
+    createRateDto: CreateMileageRateDto,
+    user: AuthenticatedUser,
+  ): Promise<MileageRateDocument> {
+    const rate = new this.mileageRateModel({
+      ...createRateDto,
+      effectiveFrom: new Date(createRateDto.effectiveFrom),
+      createdBy: this.actor(user),
+    });
+    return this.saveRate(rate);
+  }
+
+  async updateMileageRate(
+    id: string,
+    updateRateDto: UpdateMileageRateDto,
+  ): Promise<MileageRateDocument> {
+    const rate = await this.findRateOrFail(this.mileageRateModel, id);
+    const { effectiveFrom, ...details } = updateRateDto;
+    Object.assign(rate, details);
+    if (effectiveFrom) {
+      rate.effectiveFrom = new Date(effectiveFrom);
+    }
+    return this.saveRate(rate);
+  }
+
+  async removeMileageRate(id: string): Promise<void> {
+    await this.findRateOrFail(this.mileageRateModel, id);
+    await this.mileageRateModel.findByIdAndDelete(id).exec();
+  }
+
+  // Rate in effect for the vehicle type on the given date
+  async getMileageRate(
+    vehicleType: VehicleType,
+    date: Date,
+  ): Promise<MileageRateDocument> {
+    const rate = await this.mileageRateModel
+      .findOne({ vehicleType, effectiveFrom: { $lte: date } })
+      .sort({ effectiveFrom: -1 })
+      .exec();
+    if (!rate) {
+      throw new BadRequestException(
+        `No mileage rate for ${vehicleType} on ${format(date, 'yyyy-MM-dd')}`,
+      );
+    }
+    return rate;
+  }
+
+  async findPerDiemRates(location?: string): Promise<PerDiemRateDocument[]> {
+    return this.perDiemRateModel
+      .find(location ? { location: this.locationKey(location) } : {})
+      .sort({ location: 1, effectiveFrom: -1 })
+      .exec();
+  }
+
+  async createPerDiemRate(
+    createRateDto: CreatePerDiemRateDto,
+    user: AuthenticatedUser,
+  ): Promise<PerDiemRateDocument> {
+    const rate = new this.perDiemRateModel({
+      ...createRateDto,
+      effectiveFrom: new Date(createRateDto.effectiveFrom),
+      createdBy: this.actor(user),
+    });
+    return this.saveRate(rate);
+  }
+
+  async updatePerDiemRate(
+    id: string,
+    updateRateDto: UpdatePerDiemRateDto,
+  ): Promise<PerDiemRateDocument> {
+    const rate = await this.findRateOrFail(this.perDiemRateModel, id);
+    const { effectiveFrom, ...details } = updateRateDto;
+    Object.assign(rate, details);
+    if (effectiveFrom) {
+      rate.effectiveFrom = new Date(effectiveFrom);
+    }
+    return this.saveRate(rate);
+  }
+
+  async removePerDiemRate(id: string): Promise<void> {
+    await this.findRateOrFail(this.perDiemRateModel, id);
+    await this.perDiemRateModel.findByIdAndDelete(id).exec();
+  }
+
+  // Rate in effect for the location on the given date
+  async getPerDiemRate(
+    location: string,
+    date: Date,
+  ): Promise<PerDiemRateDocument> {
+    const rate = await this.perDiemRateModel
+      .findOne({
+        location: this.locationKey(location),
+        effectiveFrom: { $lte: date },
+      })
+      .sort({ effectiveFrom: -1 })
+      .exec();
+    if (!rate) {
+      throw new BadRequestException(
+        `No per-diem rate for ${location} on ${format(date, 'yyyy-MM-dd')}`,
+      );
+    }
+    return rate;
+  }
+
+  // Locations are stored upper-cased by the schema
+  locationKey(location: string): string {
+    return location.trim().toUpperCase();
+  }
+
+  private async saveRate<T extends MileageRateDocument | PerDiemRateDocument>(
+    rate: T,
+  ): Promise<T> {
+    try {
+      await rate.save();
+      return rate;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(
+          'A rate already starts on this date, update it instead',
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async findRateOrFail<T>(model: Model<T>, id: string) {
+    const rate = Types.ObjectId.isValid(id)
+      ? await model.findById(id).exec()
+      : null;
+    if (!rate) {
+      throw new NotFoundException('Rate not found');
+    }
+    return rate;
+  }
+
+  private actor(user: AuthenticatedUser) {
+    return {
+      user: new Types.ObjectId(user.userId),
+      name: user.name,
+      email: user.email,
+    };
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { TaxCodeService } from '../services/tax-code.service';
+import { CreateTaxCodeDto, UpdateTaxCodeDto } from '../dto/tax.dto';
+import { CurrentUser, Roles } from '@shared/decorators';
+import { UserRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Tax')
+@ApiBearerAuth()
+@ApiForbiddenResponse({
+  description: 'Only system admins can change tax codes',
+})
+@Controller('tax-codes')
+export class TaxCodeController {
+  private readonly logger = new Logger(TaxCodeController.name);
+
+  constructor(private readonly taxCodeService: TaxCodeService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List tax codes',
+    description:
+      'Returns the tax codes expenses can be recorded with, per country.',
+  })
+  @ApiQuery({
+    name: 'country',
+    required: false,
+    description: 'Only tax codes of this country',
+    example: 'DE',
+  })
+  @ApiOkResponse({
+    description: 'Tax codes retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        taxCodes: [
+          {
+            _id: '507f1f77bcf86cd799439060',
+            country: 'DE',
+            code: 'VAT19',
+            description: 'Standard VAT rate',
+            rate: 19,
+            reclaimable: true,
+            active: true,
+          },
+        ],
+      },
+    },
+  })
+  async findAll(@Query('country') country?: string) {
+    try {
+      const taxCodes = await this.taxCodeService.findAll(country);
+      return {
+        success: true,
+        taxCodes,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching tax codes: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch tax codes',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create tax code',
+    description: 'Adds a tax code to a country. System admins only.',
+  })
+  @ApiBody({ type: CreateTaxCodeDto })
+  @ApiCreatedResponse({
+    description: 'Tax code created',
+    schema: {
+      example: {
+        success: true,
+        taxCode: {
+          _id: '507f1f77bcf86cd799439060',
+          country: 'DE',
+          code: 'VAT19',
+          rate: 19,
+          reclaimable: true,
+          active: true,
+        },
+      },
+    },
+  })
+  @ApiConflictResponse({
+    description: 'The country already has a tax code with this code',
+  })
+  async create(
+    @Body() createTaxCodeDto: CreateTaxCodeDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const taxCode = await this.taxCodeService.create(createTaxCodeDto, user);
+      return {
+        success: true,
+        taxCode,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error creating tax code: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to create tax code',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update tax code',
+    description:
+      'Changes the rate, description or status of a tax code for expenses recorded from now on. Existing expenses keep the rate they were recorded with. System admins only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Tax code ID',
+    example: '507f1f77bcf86cd799439060',
+  })
+  @ApiBody({ type: UpdateTaxCodeDto })
+  @ApiOkResponse({ description: 'Tax code updated successfully' })
+  @ApiNotFoundResponse({ description: 'Tax code not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateTaxCodeDto: UpdateTaxCodeDto,
+  ) {
+    try {
+      const taxCode = await this.taxCodeService.update(id, updateTaxCodeDto);
+      return {
+        success: true,
+        taxCode,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating tax code ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to update tax code',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete tax code',
+    description:
+      'Removes a tax code. Existing expenses keep the tax they were recorded with. System admins only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Tax code ID',
+    example: '507f1f77bcf86cd799439060',
+  })
+  @ApiOkResponse({ description: 'Tax code deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Tax code not found' })
+  async remove(@Param('id') id: string) {
+    try {
+      await this.taxCodeService.remove(id);
+      return {
+        success: true,
+        message: 'Tax code deleted successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting tax code ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to delete tax code',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  Controller,
+  Get,
+  Query,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiOkResponse,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { TaxReportService } from '../services/tax-report.service';
+import { TaxReportQueryDto } from '../dto/tax.dto';
+import { Roles } from '@shared/decorators';
+import { UserRole } from '@shared/lib';
+
+@ApiTags('Tax')
+@ApiBearerAuth()
+@Roles(UserRole.FINANCE, UserRole.ADMIN)
+@ApiForbiddenResponse({
+  description: 'Only finance users and system admins can see tax reports',
+})
+@ApiBadRequestResponse({ description: 'Invalid report period or filters' })
+@Controller('tax-reports')
+export class TaxReportController {
+  private readonly logger = new Logger(TaxReportController.name);
+
+  constructor(private readonly taxReportService: TaxReportService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get tax report',
+    description:
+      'Summarizes the net, tax and reclaimable tax amounts of approved and reimbursed expenses by period, team and tax code. Amounts are in the currency the tax was charged in, with totals per currency.',
+  })
+  @ApiOkResponse({
+    description: 'Tax report generated successfully',
+    schema: {
+      example: {
+        success: true,
+        report: {
+          from: '2024-01-01T00:00:00.000Z',
+          to: '2024-03-31T00:00:00.000Z',
+          period: 'quarter',
+          rows: [
+            {
+              period: '2024-Q1',
+              team: { _id: '507f1f77bcf86cd799439011', name: 'Engineering' },
+              country: 'DE',
+              taxCode: 'VAT19',
+              currency: 'EUR',
+              expenseCount: 12,
+              netAmount: 1000,
+              taxAmount: 190,
+              reclaimableTaxAmount: 190,
+            },
+          ],
+          totals: [
+            {
+              currency: 'EUR',
+              expenseCount: 12,
+              netAmount: 1000,
+              taxAmount: 190,
+              reclaimableTaxAmount: 190,
+            },
+          ],
+        },
+      },
+    },
+  })
+  async getReport(@Query() query: TaxReportQueryDto) {
+    try {
+      const report = await this.taxReportService.getReport(query);
+      return {
+        success: true,
+        report,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error generating tax report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to generate tax report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('csv')
+  @ApiOperation({
+    summary: 'Export tax report as CSV',
+    description:
+      'Downloads the tax report with one row per period, team, tax code and currency.',
+  })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'CSV file generated successfully' })
+  async exportCsv(@Query() query: TaxReportQueryDto, @Res() res: Response) {
+    try {
+      const { filename, csv } = await this.taxReportService.exportCsv(query);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}"`,
+      );
+      res.status(200).send(csv);
+    } catch (error) {
+      this.logger.error(
+        `Error exporting tax report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to export tax report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('pdf')
+  @ApiOperation({
+    summary: 'Export tax report as PDF',
+    description:
+      'Downloads the tax report with one line per period, team, tax code and currency, and the totals per currency.',
+  })
+  @ApiProduces('application/pdf')
+  @ApiOkResponse({ description: 'PDF file generated successfully' })
+  async exportPdf(@Query() query: TaxReportQueryDto, @Res() res: Response) {
+    try {
+      const { filename, buffer } = await this.taxReportService.exportPdf(query);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}"`,
+      );
+      res.status(200).send(buffer);
+    } catch (error) {
+      this.logger.error(
+        `Error exporting tax report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to export tax report',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsISO31661Alpha2,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { TaxReportPeriod } from '@shared/lib';
+
+export class CreateTaxCodeDto {
+  @ApiProperty({
+    description: 'Country the tax code applies to (ISO 3166-1 alpha-2)',
+    example: 'DE',
+  })
+  @IsISO31661Alpha2()
+  country: string;
+
+  @ApiProperty({
+    description: 'Tax code, unique per country (case-insensitive)',
+    example: 'VAT19',
+    maxLength: 20,
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]+$/, {
+    message: 'code may only contain letters, digits, - and _',
+  })
+  @MaxLength(20)
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'What the code is used for',
+    example: 'Standard VAT rate',
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Tax rate, in percent of the net amount',
+    example: 19,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  rate: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether tax charged under this code can be reclaimed',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  reclaimable?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Inactive codes can no longer be used on expenses',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+// Country and code identify the tax code on expenses and cannot change
+export class UpdateTaxCodeDto extends PartialType(
+  OmitType(CreateTaxCodeDto, ['country', 'code'] as const),
+) {}
+
+export class TaxReportQueryDto {
+  @ApiProperty({
+    description: 'First day of the report (expense date)',
+    example: '2024-01-01',
+    format: 'date',
+  })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({
+    description: 'Last day of the report (expense date)',
+    example: '2024-12-31',
+    format: 'date',
+  })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({
+    description: 'Length of the periods the report is summarized by',
+    enum: TaxReportPeriod,
+    default: TaxReportPeriod.MONTH,
+  })
+  @IsOptional()
+  @IsEnum(TaxReportPeriod)
+  period?: TaxReportPeriod;
+
+  @ApiPropertyOptional({
+    description: 'Only expenses of this team',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  team?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only tax codes of this country (ISO 3166-1 alpha-2)',
+    example: 'DE',
+  })
+  @IsOptional()
+  @IsISO31661Alpha2()
+  country?: string;
+}
@@ -0,0 +1,5 @@
+export { TaxModule } from './tax.module';
+export { TaxCodeController } from './controllers/tax-code.controller';
+export { TaxReportController } from './controllers/tax-report.controller';
+export { TaxCodeService } from './services/tax-code.service';
+export { TaxReportService } from './services/tax-report.service';
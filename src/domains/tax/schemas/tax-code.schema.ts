@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
+
+export type TaxCodeDocument = TaxCode & Document;
+
+@Schema({ timestamps: true })
+export class TaxCode {
+  // ISO 3166-1 alpha-2 country code
+  @Prop({
+    required: true,
+    trim: true,
+    uppercase: true,
+    minlength: 2,
+    maxlength: 2,
+  })
+  country: string;
+
+  @Prop({ required: true, trim: true, uppercase: true, maxlength: 20 })
+  code: string;
+
+  @Prop({ trim: true, maxlength: 200 })
+  description?: string;
+
+  // Percent of the net amount
+  @Prop({ required: true, min: 0, max: 100 })
+  rate: number;
+
+  // Whether tax charged under this code can be reclaimed
+  @Prop({ default: true })
+  reclaimable: boolean;
+
+  // Inactive codes are kept for existing expenses but can no longer be used
+  @Prop({ default: true })
+  active: boolean;
+
+  @Prop({ type: SubmitterSchema, required: true })
+  createdBy: SubmitterSchema;
+}
+
+export const TaxCodeSchema = SchemaFactory.createForClass(TaxCode);
+
+TaxCodeSchema.index({ country: 1, code: 1 }, { unique: true });
@@ -0,0 +1,96 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { TaxCode, TaxCodeDocument } from '../schemas/tax-code.schema';
+import { CreateTaxCodeDto, UpdateTaxCodeDto } from '../dto/tax.dto';
+import { AuthenticatedUser } from '@shared/lib';
+
+/**
+ * Tax codes per country. Expenses keep a copy of the rate they were split
+ * with, so changing or deleting a code never alters existing expenses.
+ */
+@Injectable()
+export class TaxCodeService {
+  constructor(
+    @InjectModel(TaxCode.name) private taxCodeModel: Model<TaxCodeDocument>,
+  ) {}
+
+  async findAll(country?: string): Promise<TaxCodeDocument[]> {
+    return this.taxCodeModel
+      .find(country ? { country: country.toUpperCase() } : {})
+      .sort({ country: 1, code: 1 })
+      .exec();
+  }
+
+  async create(
+    createTaxCodeDto: CreateTaxCodeDto,
+    user: AuthenticatedUser,
+  ): Promise<TaxCodeDocument> {
+    const taxCode = new this.taxCodeModel({
+      ...createTaxCodeDto,
+      createdBy: {
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+      },
+    });
+    try {
+      await taxCode.save();
+      return taxCode;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(
+          `Tax code ${taxCode.code} already exists in ${taxCode.country}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    updateTaxCodeDto: UpdateTaxCodeDto,
+  ): Promise<TaxCodeDocument> {
+    const taxCode = await this.findTaxCodeOrFail(id);
+    Object.assign(taxCode, updateTaxCodeDto);
+    await taxCode.save();
+    return taxCode;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findTaxCodeOrFail(id);
+    await this.taxCodeModel.findByIdAndDelete(id).exec();
+  }
+
+  // Tax code an expense can be recorded with
+  async getActiveCode(country: string, code: string): Promise<TaxCodeDocument> {
+    const taxCode = await this.taxCodeModel
+      .findOne({
+        country: country.toUpperCase(),
+        code: code.trim().toUpperCase(),
+        active: true,
+      })
+      .exec();
+    if (!taxCode) {
+      throw new BadRequestException(
+        `No active tax code ${code} in ${country.toUpperCase()}`,
+      );
+    }
+    return taxCode;
+  }
+
+  private async findTaxCodeOrFail(id: string): Promise<TaxCodeDocument> {
+    const taxCode = Types.ObjectId.isValid(id)
+      ? await this.taxCodeModel.findById(id).exec()
+      : null;
+    if (!taxCode) {
+      throw new NotFoundException('Tax code not found');
+    }
+    return taxCode;
+  }
+}
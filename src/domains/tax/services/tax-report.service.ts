@@ -0,0 +1,457 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { addDays, format } from 'date-fns';
+import { Expense, ExpenseDocument } from '../../expense/schemas/expense.schema';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import { TaxReportQueryDto } from '../dto/tax.dto';
+import { TaxReport, TaxReportRow, TaxReportTotal } from '../types/types';
+import { SPENDING_STATUSES, TaxReportPeriod, formatMoney } from '@shared/lib';
+
+const CSV_HEADER = [
+  'Period',
+  'Team',
+  'Country',
+  'Tax Code',
+  'Currency',
+  'Expense Count',
+  'Net Amount',
+  'Tax Amount',
+  'Reclaimable Tax',
+];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+type MonthlyGroup = {
+  _id: {
+    year: number;
+    month: number;
+    team: Types.ObjectId;
+    country: string;
+    code: string;
+    currency: string;
+  };
+  expenseCount: number;
+  netAmount: number;
+  taxAmount: number;
+  reclaimableTaxAmount: number;
+};
+
+@Injectable()
+export class TaxReportService {
+  constructor(
+    @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+  ) {}
+
+  /**
+   * Sums the tax of approved and reimbursed expenses per period, team, tax
+   * code and currency. Expenses count in the period of their date, and split
+   * expenses count for every team they are allocated to, in proportion to
+   * the team's share of the amount.
+   */
+  async getReport(query: TaxReportQueryDto): Promise<TaxReport> {
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+    if (from > to) {
+      throw new BadRequestException('from must not be after to');
+    }
+    const period = query.period ?? TaxReportPeriod.MONTH;
+
+    const match: any = {
+      status: { $in: SPENDING_STATUSES },
+      tax: { $ne: null },
+      date: { $gte: from, $lt: addDays(to, 1) },
+    };
+    const teamId = query.team ? new Types.ObjectId(query.team) : null;
+    if (teamId) {
+      match.$or = [{ team: teamId }, { 'allocations.team': teamId }];
+    }
+    if (query.country) {
+      match['tax.country'] = query.country.toUpperCase();
+    }
+
+    const groups = await this.expenseModel.aggregate<MonthlyGroup>([
+      { $match: match },
+      // One share per team: the whole expense when it is not split
+      {
+        $addFields: {
+          share: {
+            $cond: [
+              {
+                $and: [
+                  { $gt: [{ $size: { $ifNull: ['$allocations', []] } }, 0] },
+                  { $ne: ['$amount', 0] },
+                ],
+              },
+              {
+                $map: {
+                  input: '$allocations',
+                  as: 'allocation',
+                  in: {
+                    team: '$$allocation.team',
+                    ratio: { $divide: ['$$allocation.amount', '$amount'] },
+                  },
+                },
+              },
+              [{ team: '$team', ratio: 1 }],
+            ],
+          },
+        },
+      },
+      { $unwind: '$share' },
+      ...(teamId ? [{ $match: { 'share.team': teamId } }] : []),
+      {
+        $group: {
+          _id: {
+            year: { $year: '$date' },
+            month: { $month: '$date' },
+            team: '$share.team',
+            country: '$tax.country',
+            code: '$tax.code',
+            currency: '$currency',
+          },
+          expenseCount: { $sum: 1 },
+          netAmount: {
+            $sum: { $multiply: ['$tax.netAmount', '$share.ratio'] },
+          },
+          taxAmount: {
+            $sum: { $multiply: ['$tax.taxAmount', '$share.ratio'] },
+          },
+          reclaimableTaxAmount: {
+            $sum: {
+              $cond: [
+                '$tax.reclaimable',
+                { $multiply: ['$tax.taxAmount', '$share.ratio'] },
+                0,
+              ],
+            },
+          },
+        },
+      },
+    ]);
+
+    const teams = await this.teamModel
+      .find({ _id: { $in: [...new Set(groups.map((g) => g._id.team))] } })
+      .select('name')
+      .lean()
+      .exec();
+    const teamNames = new Map(
+      teams.map((team) => [String(team._id), team.name]),
+    );
+
+    // Months are folded into the requested period
+    const rows = new Map<string, TaxReportRow>();
+    for (const group of groups) {
+      const { year, month, team, country, code, currency } = group._id;
+      const label = this.periodLabel(period, year, month);
+      const key = [label, team, country, code, currency].join('|');
+      const row = rows.get(key) ?? {
+        period: label,
+        team: {
+          _id: String(team),
+          name: teamNames.get(String(team)) ?? 'Unknown team',
+        },
+        country,
+        taxCode: code,
+        currency,
+        expenseCount: 0,
+        netAmount: 0,
+        taxAmount: 0,
+        reclaimableTaxAmount: 0,
+      };
+      row.expenseCount += group.expenseCount;
+      row.netAmount = roundCents(row.netAmount + group.netAmount);
+      row.taxAmount = roundCents(row.taxAmount + group.taxAmount);
+      row.reclaimableTaxAmount = roundCents(
+        row.reclaimableTaxAmount + group.reclaimableTaxAmount,
+      );
+      rows.set(key, row);
+    }
+
+    const sortedRows = [...rows.values()].sort(
+      (a, b) =>
+        a.period.localeCompare(b.period) ||
+        a.team.name.localeCompare(b.team.name) ||
+        a.country.localeCompare(b.country) ||
+        a.taxCode.localeCompare(b.taxCode) ||
+        a.currency.localeCompare(b.currency),
+    );
+    return {
+      from,
+      to,
+      period,
+      rows: sortedRows,
+      totals: this.totalsByCurrency(sortedRows),
+    };
+  }
+
+  async exportCsv(
+    query: TaxReportQueryDto,
+  ): Promise<{ filename: string; csv: string }> {
+    const report = await this.getReport(query);
+    const rows = report.rows.map((row) => [
+      row.period,
+      row.team.name,
+      row.country,
+      row.taxCode,
+      row.currency,
+      String(row.expenseCount),
+      row.netAmount.toFixed(2),
+      row.taxAmount.toFixed(2),
+      row.reclaimableTaxAmount.toFixed(2),
+    ]);
+    const csv = [CSV_HEADER, ...rows]
+      .map((row) => row.map((cell) => this.toCsvCell(cell)).join(','))
+      .join('\r\n');
+    return { filename: `${this.filename(report)}.csv`, csv };
+  }
+
+  async exportPdf(
+    query: TaxReportQueryDto,
+  ): Promise<{ filename: string; buffer: Buffer }> {
+    const report = await this.getReport(query);
+
+    const PDFDocument = (await import('pdfkit')).default;
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+
+    const marginLeft = 40;
+    const marginRight = 555;
+    const colX = {
+      period: marginLeft,
+      team: 100,
+      country: 200,
+      code: 240,
+      count: 295,
+      net: 325,
+      tax: 400,
+      reclaimable: 475,
+    } as const;
+    const colWidth = {
+      period: 55,
+      team: 95,
+      country: 35,
+      code: 50,
+      count: 25,
+      net: 70,
+      tax: 70,
+      reclaimable: 80,
+    } as const;
+    const rowHeight = 22;
+
+    const drawHeader = () => {
+      doc.fontSize(9).fillColor('#111111').font('Helvetica-Bold');
+      const headerY = doc.y;
+      doc
+        .rect(
+          marginLeft - 2,
+          headerY - 4,
+          marginRight - marginLeft + 4,
+          rowHeight,
+        )
+        .fill('#F3F4F6');
+      doc.fillColor('#111111');
+      doc.text('Period', colX.period, headerY, { width: colWidth.period });
+      doc.text('Team', colX.team, headerY, { width: colWidth.team });
+      doc.text('Country', colX.country, headerY, { width: colWidth.country });
+      doc.text('Code', colX.code, headerY, { width: colWidth.code });
+      doc.text('#', colX.count, headerY, {
+        width: colWidth.count,
+        align: 'right',
+      });
+      doc.text('Net', colX.net, headerY, {
+        width: colWidth.net,
+        align: 'right',
+      });
+      doc.text('Tax', colX.tax, headerY, {
+        width: colWidth.tax,
+        align: 'right',
+      });
+      doc.text('Reclaimable', colX.reclaimable, headerY, {
+        width: colWidth.reclaimable,
+        align: 'right',
+      });
+      doc.font('Helvetica');
+      doc.y = headerY + rowHeight;
+    };
+
+    const ensureSpaceForRow = () => {
+      if (doc.y + rowHeight * 1.5 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        doc
+          .font('Helvetica-Bold')
+          .fontSize(12)
+          .text('Tax Report (cont.)', { align: 'left' });
+        doc.moveDown(0.5);
+        drawHeader();
+      }
+    };
+
+    const truncate = (text: unknown, max = 60) => {
+      const s = String(text ?? '');
+      return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+    };
+
+    const drawAmounts = (
+      y: number,
+      amounts: Pick<
+        TaxReportTotal,
+        'currency' | 'netAmount' | 'taxAmount' | 'reclaimableTaxAmount'
+      >,
+    ) => {
+      doc.text(formatMoney(amounts.netAmount, amounts.currency), colX.net, y, {
+        width: colWidth.net,
+        align: 'right',
+      });
+      doc.text(formatMoney(amounts.taxAmount, amounts.currency), colX.tax, y, {
+        width: colWidth.tax,
+        align: 'right',
+      });
+      doc.text(
+        formatMoney(amounts.reclaimableTaxAmount, amounts.currency),
+        colX.reclaimable,
+        y,
+        { width: colWidth.reclaimable, align: 'right' },
+      );
+    };
+
+    const buffer = await new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('error', (err: Error) => reject(err));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+
+      doc
+        .fontSize(18)
+        .font('Helvetica-Bold')
+        .text('Tax Report', { align: 'center' });
+      doc.moveDown(0.25);
+      doc
+        .fontSize(10)
+        .font('Helvetica')
+        .text(`Generated: ${format(new Date(), 'PPpp')}`, { align: 'center' });
+      doc.moveDown(0.75);
+
+      doc.fontSize(10).fillColor('#374151');
+      doc.text(
+        `Period: ${format(report.from, 'yyyy-MM-dd')} to ${format(report.to, 'yyyy-MM-dd')}, by ${report.period}`,
+      );
+      doc.text('Approved and reimbursed expenses with a tax code');
+      doc.fillColor('#000000');
+      doc.moveDown(1);
+
+      drawHeader();
+
+      report.rows.forEach((row, idx) => {
+        ensureSpaceForRow();
+        const y = doc.y + 4;
+        if (idx % 2 === 0) {
+          doc
+            .rect(
+              marginLeft - 2,
+              doc.y - 2,
+              marginRight - marginLeft + 4,
+              rowHeight,
+            )
+            .fill('#FAFAFA');
+          doc.fillColor('#000000');
+        }
+
+        doc.fontSize(9).text(row.period, colX.period, y, {
+          width: colWidth.period,
+        });
+        doc.text(truncate(row.team.name, 20), colX.team, y, {
+          width: colWidth.team,
+        });
+        doc.text(row.country, colX.country, y, { width: colWidth.country });
+        doc.text(row.taxCode, colX.code, y, { width: colWidth.code });
+        doc.text(String(row.expenseCount), colX.count, y, {
+          width: colWidth.count,
+          align: 'right',
+        });
+        drawAmounts(y, row);
+
+        doc.y = y + rowHeight - 4;
+      });
+
+      ensureSpaceForRow();
+      doc.moveDown(0.25);
+      doc
+        .moveTo(marginLeft, doc.y)
+        .lineTo(marginRight, doc.y)
+        .strokeColor('#E5E7EB')
+        .stroke();
+      doc.strokeColor('#000000');
+      doc.moveDown(0.25);
+      doc.font('Helvetica-Bold');
+      if (report.totals.length === 0) {
+        doc.text('No tax to report in this period', marginLeft, doc.y);
+      }
+      // Tax charged in different currencies is totalled separately
+      for (const total of report.totals) {
+        const totalY = doc.y;
+        doc.text(`Total ${total.currency}`, colX.period, totalY, {
+          width: colWidth.period + colWidth.team,
+        });
+        doc.text(String(total.expenseCount), colX.count, totalY, {
+          width: colWidth.count,
+          align: 'right',
+        });
+        drawAmounts(totalY, total);
+        doc.y = totalY + rowHeight - 4;
+      }
+      doc.font('Helvetica');
+
+      doc.end();
+    });
+
+    return { filename: `${this.filename(report)}.pdf`, buffer };
+  }
+
+  private periodLabel(
+    period: TaxReportPeriod,
+    year: number,
+    month: number,
+  ): string {
+    if (period === TaxReportPeriod.YEAR) {
+      return String(year);
+    }
+    if (period === TaxReportPeriod.QUARTER) {
+      return `${year}-Q${Math.ceil(month / 3)}`;
+    }
+    return `${year}-${String(month).padStart(2, '0')}`;
+  }
+
+  private totalsByCurrency(rows: TaxReportRow[]): TaxReportTotal[] {
+    const totals = new Map<string, TaxReportTotal>();
+    for (const row of rows) {
+      const total = totals.get(row.currency) ?? {
+        currency: row.currency,
+        expenseCount: 0,
+        netAmount: 0,
+        taxAmount: 0,
+        reclaimableTaxAmount: 0,
+      };
+      total.expenseCount += row.expenseCount;
+      total.netAmount = roundCents(total.netAmount + row.netAmount);
+      total.taxAmount = roundCents(total.taxAmount + row.taxAmount);
+      total.reclaimableTaxAmount = roundCents(
+        total.reclaimableTaxAmount + row.reclaimableTaxAmount,
+      );
+      totals.set(row.currency, total);
+    }
+    return [...totals.values()].sort((a, b) =>
+      a.currency.localeCompare(b.currency),
+    );
+  }
+
+  private filename(report: TaxReport): string {
+    return `Tax_Report_${format(report.from, 'yyyyMMdd')}_${format(report.to, 'yyyyMMdd')}`;
+  }
+
+  // Quotes every cell and neutralises spreadsheet formulas
+  private toCsvCell(value: string): string {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TaxCodeController } from './controllers/tax-code.controller';
+import { TaxReportController } from './controllers/tax-report.controller';
+import { TaxCodeService } from './services/tax-code.service';
+import { TaxReportService } from './services/tax-report.service';
+import { TaxCode, TaxCodeSchema } from './schemas/tax-code.schema';
+import { Expense, ExpenseSchema } from '../expense/schemas/expense.schema';
+import { Team, TeamSchema } from '../team/schemas/team.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: TaxCode.name, schema: TaxCodeSchema },
+      { name: Expense.name, schema: ExpenseSchema },
+      { name: Team.name, schema: TeamSchema },
+    ]),
+  ],
+  controllers: [TaxCodeController, TaxReportController],
+  providers: [TaxCodeService, TaxReportService],
+  exports: [TaxCodeService],
+})
+export class TaxModule {}
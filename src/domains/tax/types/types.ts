@@ -0,0 +1,31 @@
+import { TaxReportPeriod } from '@shared/lib';
+
+// Reclaimable tax of one team and tax code over one period
+export type TaxReportRow = {
+  period: string;
+  team: { _id: string; name: string };
+  country: string;
+  taxCode: string;
+  // Tax is reclaimed in the currency it was charged in
+  currency: string;
+  expenseCount: number;
+  netAmount: number;
+  taxAmount: number;
+  reclaimableTaxAmount: number;
+};
+
+export type TaxReportTotal = {
+  currency: string;
+  expenseCount: number;
+  netAmount: number;
+  taxAmount: number;
+  reclaimableTaxAmount: number;
+};
+
+export type TaxReport = {
+  from: Date;
+  to: Date;
+  period: TaxReportPeriod;
+  rows: TaxReportRow[];
+  totals: TaxReportTotal[];
+};
@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiUnauthorizedResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { TeamInvitationService } from '../services/team-invitation.service';
+import { InvitationTokenDto } from '../dto/team-invitation.dto';
+import { CurrentUser, Public } from '@shared/decorators';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Teams')
+@Controller('invitations')
+export class InvitationController {
+  private readonly logger = new Logger(InvitationController.name);
+
+  constructor(private readonly invitationService: TeamInvitationService) {}
+
+  @Post('accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Accept invitation',
+    description:
+      'Accepts an invitation and adds the authenticated user to the team. The user must be signed in with the invited email address.',
+  })
+  @ApiBody({ type: InvitationTokenDto })
+  @ApiOkResponse({ description: 'Invitation accepted, membership created' })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired invitation token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Invitation was sent to a different email address',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invitation is no longer pending or user is already a member',
+  })
+  async accept(
+    @Body() tokenDto: InvitationTokenDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const team = await this.invitationService.accept(tokenDto.token, user);
+      return {
+        success: true,
+        team,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error accepting invitation: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to accept invitation',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Public()
+  @Post('decline')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Decline invitation',
+    description:
+      'Declines an invitation. Holding the token is enough, no account is required.',
+  })
+  @ApiBody({ type: InvitationTokenDto })
+  @ApiOkResponse({
+    description: 'Invitation declined',
+    schema: {
+      example: {
+        success: true,
+        message: 'Invitation declined',
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired invitation token',
+  })
+  async decline(@Body() tokenDto: InvitationTokenDto) {
+    try {
+      await this.invitationService.decline(tokenDto.token);
+      return {
+        success: true,
+        message: 'Invitation declined',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error declining invitation: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to decline invitation',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
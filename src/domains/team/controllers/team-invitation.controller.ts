@@ -0,0 +1,207 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+  ApiCreatedResponse,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { TeamInvitationService } from '../services/team-invitation.service';
+import { CreateTeamInvitationDto } from '../dto/team-invitation.dto';
+import { CurrentUser, TeamRoles } from '@shared/decorators';
+import { MemberRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Teams')
+@ApiBearerAuth()
+@TeamRoles({
+  roles: [MemberRole.ADMIN],
+  scope: { param: 'id' },
+  reason: 'Only team admins can manage invitations',
+})
+@ApiForbiddenResponse({
+  description: 'Only team admins can manage invitations',
+})
+@Controller('teams/:id/invitations')
+export class TeamInvitationController {
+  private readonly logger = new Logger(TeamInvitationController.name);
+
+  constructor(private readonly invitationService: TeamInvitationService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Invite to team',
+    description:
+      'Creates an invitation and emails a signed, expiring link to the invitee. The invitee becomes a member only after accepting.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({ type: CreateTeamInvitationDto })
+  @ApiCreatedResponse({
+    description: 'Invitation created',
+    schema: {
+      example: {
+        success: true,
+        invitation: {
+          _id: '507f1f77bcf86cd799439015',
+          team: '507f1f77bcf86cd799439011',
+          email: 'john.doe@company.com',
+          role: 'member',
+          status: 'pending',
+          expiresAt: '2024-01-22T10:30:00.000Z',
+        },
+        emailSent: true,
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Email already belongs to a member or has a pending invitation',
+  })
+  @ApiNotFoundResponse({ description: 'Team not found' })
+  async invite(
+    @Param('id') id: string,
+    @Body() createInvitationDto: CreateTeamInvitationDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const { invitation, emailSent } = await this.invitationService.invite(
+        id,
+        createInvitationDto,
+        user,
+      );
+      return {
+        success: true,
+        invitation,
+        emailSent,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error inviting to team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to send invitation',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List pending invitations',
+    description:
+      'Retrieves the invitations of the team that have not been answered, revoked or expired.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({ description: 'Invitations retrieved successfully' })
+  async findPending(@Param('id') id: string) {
+    try {
+      const invitations = await this.invitationService.findPending(id);
+      return {
+        success: true,
+        invitations,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching invitations for team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to fetch invitations',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':invitationId')
+  @ApiOperation({
+    summary: 'Revoke invitation',
+    description:
+      'Revokes a pending invitation; its token can no longer be used.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiParam({
+    name: 'invitationId',
+    description: 'Invitation ID',
+    example: '507f1f77bcf86cd799439015',
+  })
+  @ApiOkResponse({
+    description: 'Invitation revoked',
+    schema: {
+      example: {
+        success: true,
+        message: 'Invitation revoked successfully',
+      },
+    },
+  })
+  @ApiNotFoundResponse({ description: 'Pending invitation not found' })
+  async revoke(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+  ) {
+    try {
+      await this.invitationService.revoke(id, invitationId);
+      return {
+        success: true,
+        message: 'Invitation revoked successfully',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error revoking invitation ${invitationId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to revoke invitation',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
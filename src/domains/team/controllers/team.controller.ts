@@ -4,13 +4,17 @@ import {
   Post,
   Body,
   Put,
+  Patch,
   Param,
   Delete,
   Query,
   HttpException,
   HttpStatus,
   Logger,
+  HttpCode,
+  Res,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -23,12 +27,29 @@ import {
   ApiInternalServerErrorResponse,
   ApiCreatedResponse,
   ApiOkResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiConflictResponse,
+  ApiHeader,
+  ApiPreconditionFailedResponse,
 } from '@nestjs/swagger';
 import { TeamService } from '../services/team.service';
-import { CreateTeamDto, UpdateTeamDto, TeamResponseDto } from '../dto/team.dto';
+import {
+  CreateTeamDto,
+  UpdateTeamDto,
+  TeamMemberDto,
+  UpdateTeamMemberRoleDto,
+  UpdateApprovalChainDto,
+  UpdateSpendingPoliciesDto,
+  TeamResponseDto,
+} from '../dto/team.dto';
 import { ApiResponseDto, PaginatedResponseDto } from '../../../shared/dto/api-response.dto';
+import { CurrentUser, IfMatch, Roles, TeamRoles } from '@shared/decorators';
+import { ExpenseStatus, MemberRole, UserRole, toEtag } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
 
 @ApiTags('Teams')
+@ApiBearerAuth()
 @Controller('teams')
 export class TeamController {
   private readonly logger = new Logger(TeamController.name);
@@ -38,7 +59,7 @@ export class TeamController {
   @Post()
   @ApiOperation({
     summary: 'Create a new team',
-    description: 'Creates a new team with specified budget and members. Team names must be unique.',
+    description: 'Creates a new team with specified budget and members. Team names must be unique. The creator is always added as a team admin.',
   })
   @ApiBody({
     type: CreateTeamDto,
@@ -90,9 +111,12 @@ export class TeamController {
       }
     }
   })
-  async create(@Body() createTeamDto: CreateTeamDto) {
+  async create(
+    @Body() createTeamDto: CreateTeamDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
     try {
-      const team = await this.teamService.create(createTeamDto);
+      const team = await this.teamService.create(createTeamDto, user);
       return {
         success: true,
         team,
@@ -117,7 +141,7 @@ export class TeamController {
   @Get()
   @ApiOperation({
     summary: 'Get all teams',
-    description: 'Retrieves a list of all teams with their budget information and current spending. Automatically checks and sends budget alerts if thresholds are exceeded.',
+    description: 'Retrieves the teams the user belongs to with their budget information and current spending. Automatically checks and sends budget alerts if thresholds are exceeded.',
   })
   @ApiOkResponse({
     description: 'Teams retrieved successfully',
@@ -158,9 +182,9 @@ export class TeamController {
       }
     }
   })
-  async findAll() {
+  async findAll(@CurrentUser() user: AuthenticatedUser) {
     try {
-      const teams = await this.teamService.findAll();
+      const teams = await this.teamService.findAll(user);
       return {
         success: true,
         teams,
@@ -182,7 +206,103 @@ export class TeamController {
     }
   }
 
+  @Get('trash')
+  @Roles(UserRole.ADMIN)
+  @ApiForbiddenResponse({ description: 'Only system admins can see deleted teams' })
+  @ApiOperation({
+    summary: 'List deleted teams',
+    description: 'Lists the teams in the trash, most recently deleted first, with who deleted them.',
+  })
+  @ApiOkResponse({
+    description: 'Deleted teams retrieved successfully',
+    type: ApiResponseDto<TeamResponseDto[]>,
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async findDeleted() {
+    try {
+      const teams = await this.teamService.findDeleted();
+      return {
+        success: true,
+        teams,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching deleted teams: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to fetch deleted teams',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN)
+  @ApiForbiddenResponse({ description: 'Only system admins can restore teams' })
+  @ApiOperation({
+    summary: 'Restore deleted team',
+    description: 'Takes a team out of the trash, which gives its members access again. Its deleted expenses stay in the trash until restored one by one.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({
+    description: 'Team restored successfully',
+    type: ApiResponseDto<TeamResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Team not found in the trash',
+  })
+  @ApiConflictResponse({
+    description: 'Another team now uses the same name',
+  })
+  @ApiInternalServerErrorResponse({
+    description: 'Internal server error',
+  })
+  async restore(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const team = await this.teamService.restore(id, user);
+      return {
+        success: true,
+        team,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error restoring team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to restore team',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get(':id')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { param: 'id' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the team' })
   @ApiOperation({
     summary: 'Get team by ID',
     description: 'Retrieves a specific team by its ID with updated current spending calculation.',
@@ -193,7 +313,7 @@ export class TeamController {
     example: '507f1f77bcf86cd799439011',
   })
   @ApiOkResponse({
-    description: 'Team retrieved successfully',
+    description: 'Team retrieved successfully. The ETag header carries its version, to send back in If-Match when changing it.',
     type: ApiResponseDto<TeamResponseDto>,
   })
   @ApiNotFoundResponse({
@@ -208,9 +328,13 @@ export class TeamController {
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     try {
       const team = await this.teamService.findOne(id);
+      res.setHeader('ETag', toEtag(team.__v));
       return {
         success: true,
         team,
@@ -233,9 +357,15 @@ export class TeamController {
   }
 
   @Put(':id')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN],
+    scope: { param: 'id' },
+    reason: 'Only team admins can update the team',
+  })
+  @ApiForbiddenResponse({ description: 'Only team admins can update the team' })
   @ApiOperation({
     summary: 'Update team',
-    description: 'Updates an existing team. Team name must be unique if changed.',
+    description: 'Updates an existing team. Team name must be unique if changed. Members are managed through the /teams/:id/members endpoints.',
   })
   @ApiParam({
     name: 'id',
@@ -246,10 +376,21 @@ export class TeamController {
     type: UpdateTeamDto,
     description: 'Updated team data',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    description: 'ETag of the team as last loaded; the update is refused with 412 if it has changed since',
+    required: false,
+  })
   @ApiOkResponse({
-    description: 'Team updated successfully',
+    description: 'Team updated successfully, with its new version in the ETag header',
     type: ApiResponseDto<TeamResponseDto>,
   })
+  @ApiPreconditionFailedResponse({
+    description: 'The team has changed since the version given in If-Match',
+  })
+  @ApiConflictResponse({
+    description: 'The team was changed by someone else while it was being saved',
+  })
   @ApiNotFoundResponse({
     description: 'Team not found',
   })
@@ -259,9 +400,15 @@ export class TeamController {
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async update(@Param('id') id: string, @Body() updateTeamDto: UpdateTeamDto) {
+  async update(
+    @Param('id') id: string,
+    @Body() updateTeamDto: UpdateTeamDto,
+    @IfMatch() expectedVersion: number | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     try {
-      const team = await this.teamService.update(id, updateTeamDto);
+      const team = await this.teamService.update(id, updateTeamDto, expectedVersion);
+      res.setHeader('ETag', toEtag(team.__v));
       return {
         success: true,
         team,
@@ -284,15 +431,26 @@ export class TeamController {
   }
 
   @Delete(':id')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN],
+    scope: { param: 'id' },
+    reason: 'Only team admins can delete the team',
+  })
+  @ApiForbiddenResponse({ description: 'Only team admins can delete the team' })
   @ApiOperation({
     summary: 'Delete team',
-    description: 'Deletes a team. Cannot delete teams that have associated expenses.',
+    description: 'Moves a team to the trash, which hides it from its members. Cannot delete teams that have associated expenses outside the trash. System admins can restore it until it is purged after the retention window.',
   })
   @ApiParam({
     name: 'id',
     description: 'Team ID',
     example: '507f1f77bcf86cd799439011',
   })
+  @ApiHeader({
+    name: 'If-Match',
+    description: 'ETag of the team as last loaded; the deletion is refused with 412 if it has changed since',
+    required: false,
+  })
   @ApiOkResponse({
     description: 'Team deleted successfully',
     schema: {
@@ -314,12 +472,19 @@ export class TeamController {
       }
     }
   })
+  @ApiPreconditionFailedResponse({
+    description: 'The team has changed since the version given in If-Match',
+  })
   @ApiInternalServerErrorResponse({
     description: 'Internal server error',
   })
-  async remove(@Param('id') id: string) {
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @IfMatch() expectedVersion: number | undefined,
+  ) {
     try {
-      await this.teamService.remove(id);
+      await this.teamService.remove(id, user, expectedVersion);
       return {
         success: true,
         message: 'Team deleted successfully',
@@ -342,6 +507,11 @@ export class TeamController {
   }
 
   @Get(':id/budget-status')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { param: 'id' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the team' })
   @ApiOperation({
     summary: 'Get team budget status',
     description: 'Retrieves detailed budget status for a team including utilization percentage, remaining budget, and alert status. Automatically sends budget alerts if thresholds are exceeded.',
@@ -406,6 +576,11 @@ export class TeamController {
   }
 
   @Get(':id/expenses')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { param: 'id' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of the team' })
   @ApiOperation({
     summary: 'Get team expenses',
     description: 'Retrieves paginated list of expenses for a specific team with optional filtering.',
@@ -419,7 +594,7 @@ export class TeamController {
     name: 'status',
     description: 'Filter by expense status',
     required: false,
-    enum: ['pending', 'approved', 'rejected'],
+    enum: ExpenseStatus,
   })
   @ApiQuery({
     name: 'category',
@@ -485,4 +660,425 @@ export class TeamController {
       );
     }
   }
+
+  @Get(':id/approval-chain')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { param: 'id' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of this team' })
+  @ApiOperation({
+    summary: 'Get team approval chain',
+    description: 'Returns the approval levels expenses of this team go through, ordered by threshold. Teams without a configured chain use a single team admin level.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({
+    description: 'Approval chain retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        approvalChain: [
+          { name: 'Team admin', threshold: 0, approverRole: 'team_admin' },
+          { name: 'Finance review', threshold: 1000, approverRole: 'finance' },
+          { name: 'Director sign-off', threshold: 10000, approverRole: 'director' }
+        ]
+      }
+    }
+  })
+  @ApiNotFoundResponse({
+    description: 'Team not found',
+  })
+  async getApprovalChain(@Param('id') id: string) {
+    try {
+      const approvalChain = await this.teamService.getApprovalChain(id);
+      return {
+        success: true,
+        approvalChain,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching approval chain of team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to fetch approval chain',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put(':id/approval-chain')
+  @Roles(UserRole.FINANCE, UserRole.ADMIN)
+  @ApiForbiddenResponse({ description: 'Only finance users and system admins can configure the approval chain' })
+  @ApiOperation({
+    summary: 'Configure team approval chain',
+    description: 'Replaces the approval levels of the team. The first level always applies; every further level applies to expenses above its threshold. Pending expenses are evaluated against the new chain.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({
+    type: UpdateApprovalChainDto,
+    description: 'Approval levels',
+  })
+  @ApiOkResponse({
+    description: 'Approval chain updated successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Team not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid levels or duplicate thresholds',
+  })
+  async updateApprovalChain(
+    @Param('id') id: string,
+    @Body() updateApprovalChainDto: UpdateApprovalChainDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const approvalChain = await this.teamService.updateApprovalChain(
+        id,
+        updateApprovalChainDto.steps,
+        user,
+      );
+      return {
+        success: true,
+        approvalChain,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating approval chain of team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to update approval chain',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id/spending-policies')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN, MemberRole.MEMBER],
+    scope: { param: 'id' },
+  })
+  @ApiForbiddenResponse({ description: 'User is not a member of this team' })
+  @ApiOperation({
+    summary: 'Get team spending policies',
+    description: 'Returns the per-category rules expenses of this team are checked against.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({
+    description: 'Spending policies retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        policies: [
+          { category: 'Meals', maxAmount: 75, perAttendee: true, justificationRequiredAbove: 75, weekendNotAllowed: false, enforcement: 'flag' },
+          { category: 'Equipment', receiptRequiredAbove: 500, perAttendee: false, weekendNotAllowed: false, enforcement: 'block' }
+        ]
+      }
+    }
+  })
+  @ApiNotFoundResponse({
+    description: 'Team not found',
+  })
+  async getSpendingPolicies(@Param('id') id: string) {
+    try {
+      const policies = await this.teamService.getSpendingPolicies(id);
+      return {
+        success: true,
+        policies,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching spending policies of team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to fetch spending policies',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Put(':id/spending-policies')
+  @Roles(UserRole.FINANCE, UserRole.ADMIN)
+  @ApiForbiddenResponse({ description: 'Only finance users and system admins can configure spending policies' })
+  @ApiOperation({
+    summary: 'Configure team spending policies',
+    description: 'Replaces the spending policies of the team. Expenses created or edited afterwards are checked against them: violations of flag policies are recorded on the expense for approvers, violations of block policies reject it.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({
+    type: UpdateSpendingPoliciesDto,
+    description: 'Spending policies',
+  })
+  @ApiOkResponse({
+    description: 'Spending policies updated successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Team not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid policies or several policies for one category',
+  })
+  async updateSpendingPolicies(
+    @Param('id') id: string,
+    @Body() updateSpendingPoliciesDto: UpdateSpendingPoliciesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const policies = await this.teamService.updateSpendingPolicies(
+        id,
+        updateSpendingPoliciesDto.policies,
+        user,
+      );
+      return {
+        success: true,
+        policies,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating spending policies of team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to update spending policies',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/members')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN],
+    scope: { param: 'id' },
+    reason: 'Only team admins can manage members',
+  })
+  @ApiForbiddenResponse({ description: 'Only team admins can manage members' })
+  @ApiOperation({
+    summary: 'Add team member',
+    description: 'Adds a single member to the team. The email must not already belong to a member. The admin who added the member is recorded.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({
+    type: TeamMemberDto,
+    description: 'Member to add',
+  })
+  @ApiCreatedResponse({
+    description: 'Member added successfully',
+    type: ApiResponseDto<TeamResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Team not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Email already belongs to a team member',
+    schema: {
+      example: {
+        success: false,
+        message: 'john.doe@company.com is already a member of this team'
+      }
+    }
+  })
+  async addMember(
+    @Param('id') id: string,
+    @Body() memberDto: TeamMemberDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const team = await this.teamService.addMember(id, memberDto, user);
+      return {
+        success: true,
+        team,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error adding member to team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to add member',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Patch(':id/members/:email')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN],
+    scope: { param: 'id' },
+    reason: 'Only team admins can manage members',
+  })
+  @ApiForbiddenResponse({ description: 'Only team admins can manage members' })
+  @ApiOperation({
+    summary: 'Change team member role',
+    description: 'Changes the role of a team member. The last admin of a team cannot be demoted.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiParam({
+    name: 'email',
+    description: 'Email of the team member',
+    example: 'john.doe@company.com',
+  })
+  @ApiBody({
+    type: UpdateTeamMemberRoleDto,
+    description: 'New role',
+  })
+  @ApiOkResponse({
+    description: 'Member role updated successfully',
+    type: ApiResponseDto<TeamResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Team or member not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Demoting the last admin of the team',
+    schema: {
+      example: {
+        success: false,
+        message: 'A team must always keep at least one admin'
+      }
+    }
+  })
+  async updateMemberRole(
+    @Param('id') id: string,
+    @Param('email') email: string,
+    @Body() updateRoleDto: UpdateTeamMemberRoleDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const team = await this.teamService.updateMemberRole(
+        id,
+        email,
+        updateRoleDto.role,
+        user,
+      );
+      return {
+        success: true,
+        team,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating member ${email} of team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to update member',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Delete(':id/members/:email')
+  @TeamRoles({
+    roles: [MemberRole.ADMIN],
+    scope: { param: 'id' },
+    reason: 'Only team admins can manage members',
+  })
+  @ApiForbiddenResponse({ description: 'Only team admins can manage members' })
+  @ApiOperation({
+    summary: 'Remove team member',
+    description: 'Removes a member from the team. The last admin of a team cannot be removed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Team ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiParam({
+    name: 'email',
+    description: 'Email of the team member',
+    example: 'john.doe@company.com',
+  })
+  @ApiOkResponse({
+    description: 'Member removed successfully',
+    type: ApiResponseDto<TeamResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Team or member not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Removing the last admin of the team',
+  })
+  async removeMember(
+    @Param('id') id: string,
+    @Param('email') email: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const team = await this.teamService.removeMember(id, email, user);
+      return {
+        success: true,
+        team,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error removing member ${email} from team ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to remove member',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 }
@@ -0,0 +1,47 @@
+import {
+  IsString,
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MemberRole } from '@shared/lib';
+
+export class CreateTeamInvitationDto {
+  @ApiProperty({
+    description: 'Email address to invite',
+    example: 'john.doe@company.com',
+    format: 'email',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Name of the invitee, used in the invitation email',
+    example: 'John Doe',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Role the invitee gets when accepting',
+    enum: MemberRole,
+    example: MemberRole.MEMBER,
+  })
+  @IsOptional()
+  @IsEnum(MemberRole)
+  role?: MemberRole;
+}
+
+export class InvitationTokenDto {
+  @ApiProperty({
+    description: 'Signed invitation token received by email',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  token: string;
+}
@@ -1,7 +1,7 @@
-import { IsString, IsNumber, IsArray, ValidateNested, IsEmail, IsEnum, IsOptional, Min, MaxLength } from 'class-validator';
+import { IsString, IsNumber, IsArray, IsBoolean, ValidateNested, IsEmail, IsEnum, IsOptional, IsISO4217CurrencyCode, Min, MaxLength, ArrayMaxSize } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { MemberRole } from '@shared/lib';
+import { ApproverRole, ExpenseCategory, MemberRole, PolicyEnforcement } from '@shared/lib';
 
 export class TeamMemberDto {
   @ApiProperty({
@@ -41,7 +41,7 @@ export class CreateTeamDto {
   name: string;
 
   @ApiProperty({
-    description: 'Budget allocated to the team in USD',
+    description: 'Budget allocated to the team in its base currency',
     example: 50000,
     minimum: 0,
   })
@@ -49,6 +49,14 @@ export class CreateTeamDto {
   @Min(0)
   budget: number;
 
+  @ApiPropertyOptional({
+    description: 'Currency budgets, spending and reports of the team are kept in (ISO 4217 code, default USD)',
+    example: 'EUR',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  baseCurrency?: string;
+
   @ApiProperty({
     description: 'List of team members',
     type: [TeamMemberDto],
@@ -83,7 +91,7 @@ export class UpdateTeamDto {
   name?: string;
 
   @ApiPropertyOptional({
-    description: 'Updated budget allocated to the team in USD',
+    description: 'Updated budget allocated to the team in its base currency',
     example: 75000,
     minimum: 0,
   })
@@ -93,14 +101,139 @@ export class UpdateTeamDto {
   budget?: number;
 
   @ApiPropertyOptional({
-    description: 'Updated list of team members',
-    type: [TeamMemberDto],
+    description: 'New base currency of the team. Only possible while the team has no expenses',
+    example: 'EUR',
   })
   @IsOptional()
+  @IsISO4217CurrencyCode()
+  baseCurrency?: string;
+}
+
+export class UpdateTeamMemberRoleDto {
+  @ApiProperty({
+    description: 'New role of the team member',
+    enum: MemberRole,
+    example: MemberRole.ADMIN,
+  })
+  @IsEnum(MemberRole)
+  role: MemberRole;
+}
+
+export class ApprovalStepDto {
+  @ApiProperty({
+    description: 'Name of the approval level',
+    example: 'Finance review',
+    maxLength: 100,
+  })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Expenses above this amount in the team base currency require this level. The first level always applies.',
+    example: 1000,
+    minimum: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  threshold: number;
+
+  @ApiProperty({
+    description: 'Who decides this level',
+    enum: ApproverRole,
+    example: ApproverRole.FINANCE,
+  })
+  @IsEnum(ApproverRole)
+  approverRole: ApproverRole;
+}
+
+export class UpdateApprovalChainDto {
+  @ApiProperty({
+    description: 'Ordered approval levels. An empty list restores the default single team admin level.',
+    type: [ApprovalStepDto],
+  })
   @IsArray()
+  @ArrayMaxSize(10)
   @ValidateNested({ each: true })
-  @Type(() => TeamMemberDto)
-  members?: TeamMemberDto[];
+  @Type(() => ApprovalStepDto)
+  steps: ApprovalStepDto[];
+}
+
+export class SpendingPolicyDto {
+  @ApiProperty({
+    description: 'Expense category the policy applies to',
+    enum: ExpenseCategory,
+    example: ExpenseCategory.MEALS,
+  })
+  @IsEnum(ExpenseCategory)
+  category: ExpenseCategory;
+
+  @ApiPropertyOptional({
+    description: 'Maximum amount in the team base currency',
+    example: 75,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether maxAmount applies per attendee of the expense',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  perAttendee?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Expenses above this amount in the team base currency need a receipt',
+    example: 500,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  receiptRequiredAbove?: number;
+
+  @ApiPropertyOptional({
+    description: 'Expenses above this amount in the team base currency need a justification',
+    example: 75,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  justificationRequiredAbove?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether expenses incurred on a Saturday or Sunday violate the policy',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  weekendNotAllowed?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'flag records violations on the expense for approvers, block rejects the expense',
+    enum: PolicyEnforcement,
+    default: PolicyEnforcement.FLAG,
+  })
+  @IsOptional()
+  @IsEnum(PolicyEnforcement)
+  enforcement?: PolicyEnforcement;
+}
+
+export class UpdateSpendingPoliciesDto {
+  @ApiProperty({
+    description: 'Spending policies, at most one per category. An empty list removes all policies.',
+    type: [SpendingPolicyDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => SpendingPolicyDto)
+  policies: SpendingPolicyDto[];
 }
 
 export class TeamResponseDto {
@@ -117,13 +250,19 @@ export class TeamResponseDto {
   name: string;
 
   @ApiProperty({
-    description: 'Budget allocated to the team in USD',
+    description: 'Budget allocated to the team in its base currency',
     example: 50000,
   })
   budget: number;
 
   @ApiProperty({
-    description: 'Current spending amount in USD',
+    description: 'Currency budgets, spending and reports of the team are kept in',
+    example: 'USD',
+  })
+  baseCurrency: string;
+
+  @ApiProperty({
+    description: 'Current spending amount in the team base currency',
     example: 25000,
   })
   currentSpending: number;
@@ -165,7 +304,7 @@ export class TeamResponseDto {
   budgetUtilization?: number;
 
   @ApiPropertyOptional({
-    description: 'Remaining budget amount in USD',
+    description: 'Remaining budget amount in the team base currency',
     example: 25000,
   })
   remainingBudget?: number;
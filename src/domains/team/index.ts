@@ -1,3 +1,6 @@
 export { TeamModule } from './team.module';
 export { TeamController } from './controllers/team.controller';
+export { TeamInvitationController } from './controllers/team-invitation.controller';
+export { InvitationController } from './controllers/invitation.controller';
 export { TeamService } from './services/team.service';
+export { TeamInvitationService } from './services/team-invitation.service';
@@ -0,0 +1,18 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApproverRole } from '@shared/lib';
+
+@Schema({ _id: false })
+export class ApprovalStepSchema {
+  @Prop({ required: true, trim: true, maxlength: 100 })
+  name: string;
+
+  // The step is required when the expense amount exceeds this value
+  @Prop({ required: true, min: 0 })
+  threshold: number;
+
+  @Prop({ enum: ApproverRole, required: true })
+  approverRole: ApproverRole;
+}
+
+export const ApprovalStepSchemaFactory =
+  SchemaFactory.createForClass(ApprovalStepSchema);
@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ExpenseCategory, PolicyEnforcement } from '@shared/lib';
+
+// Rules expenses of one category must follow; amounts are in the team base currency
+@Schema({ _id: false })
+export class SpendingPolicySchema {
+  @Prop({ enum: ExpenseCategory, required: true })
+  category: ExpenseCategory;
+
+  @Prop({ min: 0 })
+  maxAmount?: number;
+
+  // maxAmount applies to the amount divided by the number of attendees
+  @Prop({ default: false })
+  perAttendee: boolean;
+
+  @Prop({ min: 0 })
+  receiptRequiredAbove?: number;
+
+  @Prop({ min: 0 })
+  justificationRequiredAbove?: number;
+
+  @Prop({ default: false })
+  weekendNotAllowed: boolean;
+
+  // Flagged violations are recorded for approvers, blocking ones rejected
+  @Prop({ enum: PolicyEnforcement, default: PolicyEnforcement.FLAG })
+  enforcement: PolicyEnforcement;
+}
+
+export const SpendingPolicySchemaFactory =
+  SchemaFactory.createForClass(SpendingPolicySchema);
@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { InvitationStatus, MemberRole } from '@shared/lib';
+
+export type TeamInvitationDocument = TeamInvitation & Document;
+
+@Schema({ timestamps: true })
+export class TeamInvitation {
+  @Prop({ type: Types.ObjectId, ref: 'Team', required: true })
+  team: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, lowercase: true })
+  email: string;
+
+  @Prop({ trim: true, maxlength: 100 })
+  name: string;
+
+  @Prop({ enum: MemberRole, default: MemberRole.MEMBER })
+  role: MemberRole;
+
+  @Prop({
+    type: {
+      user: { type: Types.ObjectId, ref: 'User' },
+      name: String,
+      email: String,
+    },
+    required: true,
+  })
+  invitedBy: {
+    user: Types.ObjectId;
+    name: string;
+    email: string;
+  };
+
+  @Prop({ enum: InvitationStatus, default: InvitationStatus.PENDING })
+  status: InvitationStatus;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  respondedAt: Date;
+}
+
+export const TeamInvitationSchema =
+  SchemaFactory.createForClass(TeamInvitation);
+
+// Only one open invitation per address and team
+TeamInvitationSchema.index(
+  { team: 1, email: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: InvitationStatus.PENDING },
+  },
+);
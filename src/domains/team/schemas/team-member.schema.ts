@@ -1,8 +1,12 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { MemberRole } from '@shared/lib';
 
 @Schema({ timestamps: true })
 export class TeamMemberSchema {
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  user: Types.ObjectId;
+
   @Prop({ required: true, trim: true, maxlength: 100 })
   name: string;
 
@@ -11,6 +15,12 @@ export class TeamMemberSchema {
 
   @Prop({ enum: MemberRole, default: MemberRole.MEMBER })
   role: MemberRole;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  addedBy: Types.ObjectId;
+
+  @Prop()
+  addedAt: Date;
 }
 
 export const TeamMemberSchemaFactory = SchemaFactory.createForClass(TeamMemberSchema);
@@ -1,10 +1,15 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { DEFAULT_CURRENCY, excludeSoftDeleted } from '@shared/lib';
+import { SubmitterSchema } from '../../expense/schemas/submitter.schema';
 import { TeamMemberSchema } from './team-member.schema';
+import { ApprovalStepSchema } from './approval-step.schema';
+import { SpendingPolicySchema } from './spending-policy.schema';
 
-export type TeamDocument = Team & Document;
+export type TeamDocument = Team & Document & { __v: number };
 
-@Schema({ timestamps: true })
+// Saves check and increment __v, the version clients see as the ETag
+@Schema({ timestamps: true, optimisticConcurrency: true })
 export class Team {
   @Prop({ required: true, trim: true, maxlength: 100 })
   name: string;
@@ -12,6 +17,10 @@ export class Team {
   @Prop({ required: true, min: 0 })
   budget: number;
 
+  // Budgets, spending, approval thresholds and reports are kept in this currency
+  @Prop({ trim: true, uppercase: true, default: DEFAULT_CURRENCY })
+  baseCurrency: string;
+
   @Prop({ type: [TeamMemberSchema], required: true })
   members: TeamMemberSchema[];
 
@@ -32,10 +41,28 @@ export class Team {
     eightyPercentSent: boolean;
     hundredPercentSent: boolean;
   };
+
+  // Empty means the default chain: a single team admin approval
+  @Prop({ type: [ApprovalStepSchema], default: [] })
+  approvalChain: ApprovalStepSchema[];
+
+  // At most one policy per category
+  @Prop({ type: [SpendingPolicySchema], default: [] })
+  spendingPolicies: SpendingPolicySchema[];
+
+  // Set when the team is in the trash, which hides it from every query
+  @Prop({ type: Date, default: null })
+  deletedAt: Date | null;
+
+  @Prop({ type: SubmitterSchema, default: null })
+  deletedBy: SubmitterSchema | null;
 }
 
 export const TeamSchema = SchemaFactory.createForClass(Team);
 
+excludeSoftDeleted(TeamSchema);
+TeamSchema.index({ deletedAt: 1 });
+
 // Virtual for budget utilization percentage
 TeamSchema.virtual('budgetUtilization').get(function() {
   return this.budget > 0 ? (this.currentSpending / this.budget) * 100 : 0;
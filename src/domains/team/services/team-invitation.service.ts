@@ -0,0 +1,241 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { Model, Types } from 'mongoose';
+import {
+  TeamInvitation,
+  TeamInvitationDocument,
+} from '../schemas/team-invitation.schema';
+import { Team, TeamDocument } from '../schemas/team.schema';
+import { CreateTeamInvitationDto } from '../dto/team-invitation.dto';
+import { TeamService } from './team.service';
+import { EmailService } from '../../../shared/services/email.service';
+import {
+  AuthenticatedUser,
+  InvitationStatus,
+  InvitationTokenPayload,
+  MemberRole,
+} from '@shared/lib';
+
+@Injectable()
+export class TeamInvitationService {
+  private readonly logger = new Logger(TeamInvitationService.name);
+
+  constructor(
+    @InjectModel(TeamInvitation.name)
+    private invitationModel: Model<TeamInvitationDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    private teamService: TeamService,
+    private emailService: EmailService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  async invite(
+    teamId: string,
+    createInvitationDto: CreateTeamInvitationDto,
+    user: AuthenticatedUser,
+  ): Promise<{ invitation: TeamInvitationDocument; emailSent: boolean }> {
+    const team = await this.teamModel.findById(teamId).exec();
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+
+    const email = createInvitationDto.email.toLowerCase();
+    if (team.members.some((member) => member.email === email)) {
+      throw new BadRequestException(
+        `${email} is already a member of this team`,
+      );
+    }
+
+    await this.expireStaleInvitations(teamId, email);
+    const existing = await this.invitationModel.exists({
+      team: team._id,
+      email,
+      status: InvitationStatus.PENDING,
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `${email} already has a pending invitation to this team`,
+      );
+    }
+
+    const invitation = await new this.invitationModel({
+      team: team._id,
+      email,
+      name: createInvitationDto.name,
+      role: createInvitationDto.role ?? MemberRole.MEMBER,
+      invitedBy: {
+        user: new Types.ObjectId(user.userId),
+        name: user.name,
+        email: user.email,
+      },
+      expiresAt: new Date(
+        Date.now() + this.getExpiresInDays() * 24 * 60 * 60 * 1000,
+      ),
+    }).save();
+
+    const token = await this.signToken(invitation);
+    const acceptUrl = `${this.configService.get<string>('appUrl')}/invitations?token=${encodeURIComponent(token)}`;
+    const emailResult = await this.emailService.sendTeamInvitation(
+      invitation,
+      team.name,
+      user.name,
+      acceptUrl,
+    );
+
+    this.logger.log(`Invitation sent to ${email} for team ${team.name}`);
+    return { invitation, emailSent: emailResult.success };
+  }
+
+  async findPending(teamId: string): Promise<TeamInvitationDocument[]> {
+    await this.expireStaleInvitations(teamId);
+    return this.invitationModel
+      .find({
+        team: new Types.ObjectId(teamId),
+        status: InvitationStatus.PENDING,
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async revoke(teamId: string, invitationId: string): Promise<void> {
+    const invitation = await this.invitationModel.findOneAndUpdate(
+      {
+        _id: invitationId,
+        team: new Types.ObjectId(teamId),
+        status: InvitationStatus.PENDING,
+      },
+      { $set: { status: InvitationStatus.REVOKED, respondedAt: new Date() } },
+    );
+    if (!invitation) {
+      throw new NotFoundException('Pending invitation not found');
+    }
+  }
+
+  /**
+   * The invitation is claimed before the membership is created, so a revoked
+   * or concurrently answered invitation never adds anyone. The claim is
+   * undone when the membership cannot be created, unless the person already
+   * is a member, in which case the invitation has served its purpose.
+   */
+  async accept(token: string, user: AuthenticatedUser): Promise<Team> {
+    const invitation = await this.resolveToken(token);
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+
+    await this.respond(invitation, InvitationStatus.ACCEPTED);
+    try {
+      return await this.teamService.addMember(
+        String(invitation.team),
+        { name: user.name, email: invitation.email, role: invitation.role },
+        {
+          userId: String(invitation.invitedBy.user),
+          email: invitation.invitedBy.email,
+        },
+      );
+    } catch (error) {
+      const team = await this.teamModel.findById(invitation.team).exec();
+      if (team?.members.some((member) => member.email === invitation.email)) {
+        return team;
+      }
+      await this.invitationModel.updateOne(
+        { _id: invitation._id, status: InvitationStatus.ACCEPTED },
+        {
+          $set: { status: InvitationStatus.PENDING },
+          $unset: { respondedAt: 1 },
+        },
+      );
+      throw error;
+    }
+  }
+
+  async decline(token: string): Promise<void> {
+    const invitation = await this.resolveToken(token);
+    await this.respond(invitation, InvitationStatus.DECLINED);
+  }
+
+  private async respond(
+    invitation: TeamInvitationDocument,
+    status: InvitationStatus,
+  ): Promise<void> {
+    const now = new Date();
+    const updated = await this.invitationModel.findOneAndUpdate(
+      {
+        _id: invitation._id,
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: now },
+      },
+      { $set: { status, respondedAt: now } },
+    );
+    if (!updated) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+    this.logger.log(`Invitation ${String(invitation._id)} ${status}`);
+  }
+
+  private async resolveToken(token: string): Promise<TeamInvitationDocument> {
+    let payload: InvitationTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<InvitationTokenPayload>(
+        token,
+        { secret: this.configService.get<string>('invitations.secret') },
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid or expired invitation token');
+    }
+    if (payload.purpose !== 'team-invitation') {
+      throw new UnauthorizedException('Invalid or expired invitation token');
+    }
+
+    const invitation = await this.invitationModel.findById(payload.sub).exec();
+    if (!invitation || invitation.email !== payload.email) {
+      throw new NotFoundException('Invitation not found');
+    }
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new BadRequestException(`Invitation has been ${invitation.status}`);
+    }
+    return invitation;
+  }
+
+  private async signToken(invitation: TeamInvitationDocument): Promise<string> {
+    const payload: InvitationTokenPayload = {
+      sub: String(invitation._id),
+      team: String(invitation.team),
+      email: invitation.email,
+      purpose: 'team-invitation',
+    };
+    return this.jwtService.signAsync(payload, {
+      secret: this.configService.get<string>('invitations.secret'),
+      expiresIn: `${this.getExpiresInDays()}d`,
+    });
+  }
+
+  // Pending invitations past their expiry no longer block a new invitation
+  private async expireStaleInvitations(teamId: string, email?: string) {
+    const filter: Record<string, any> = {
+      team: new Types.ObjectId(teamId),
+      status: InvitationStatus.PENDING,
+      expiresAt: { $lte: new Date() },
+    };
+    if (email) filter.email = email;
+    await this.invitationModel.updateMany(filter, {
+      $set: { status: InvitationStatus.EXPIRED },
+    });
+  }
+
+  private getExpiresInDays(): number {
+    return this.configService.get<number>('invitations.expiresInDays') || 7;
+  }
+}
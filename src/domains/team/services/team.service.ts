@@ -1,33 +1,76 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, PreconditionFailedException, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Error as MongooseError, FilterQuery, Model, QueryOptions, Types, UpdateQuery } from 'mongoose';
 import { Team, TeamSchema, TeamDocument } from '../schemas/team.schema';
 import { Expense, ExpenseSchema, ExpenseDocument } from '../../expense/schemas/expense.schema';
-import { CreateTeamDto, UpdateTeamDto } from '../dto/team.dto';
+import { CreateTeamDto, UpdateTeamDto, TeamMemberDto, ApprovalStepDto, SpendingPolicyDto } from '../dto/team.dto';
 import { EmailService } from '../../../shared/services/email.service';
+import { UserService } from '../../user/services/user.service';
+import { TeamAccessService } from '../../auth/services/team-access.service';
+import { AuditService } from '../../audit/services/audit.service';
+import { ApprovalStep, AuditAction, AuditEntityType, AuthenticatedUser, DEFAULT_APPROVAL_CHAIN, MemberRole, SPENDING_STATUSES, SpendingPolicy } from '@shared/lib';
 
 @Injectable()
 export class TeamService {
   private readonly logger = new Logger(TeamService.name);
 
   constructor(
+    @InjectConnection() private connection: Connection,
     @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
     @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
     private emailService: EmailService,
+    private userService: UserService,
+    private teamAccessService: TeamAccessService,
+    private auditService: AuditService,
   ) {}
 
-  async create(createTeamDto: CreateTeamDto): Promise<Team> {
+  async create(createTeamDto: CreateTeamDto, user: AuthenticatedUser): Promise<Team> {
     const existingTeam = await this.teamModel.findOne({ name: createTeamDto.name });
     if (existingTeam) {
       throw new BadRequestException('Team name already exists');
     }
 
-    const team = new this.teamModel(createTeamDto);
-    return team.save();
+    const emails = createTeamDto.members.map((member) => member.email.toLowerCase());
+    if (new Set(emails).size !== emails.length) {
+      throw new BadRequestException('Team members must have unique emails');
+    }
+
+    // The creator always administers the team they create
+    const members = createTeamDto.members.filter(
+      (member) => member.email.toLowerCase() !== user.email,
+    );
+    members.push({ name: user.name, email: user.email, role: MemberRole.ADMIN });
+
+    const team = new this.teamModel({
+      ...createTeamDto,
+      members: await Promise.all(
+        members.map((member) => this.buildMember(member, user)),
+      ),
+    });
+    return this.saveAudited(team, AuditAction.CREATE, 'team.create', null);
+  }
+
+  // Resolves the member email to a User so the membership references the user id
+  private async buildMember(member: TeamMemberDto, addedBy: Pick<AuthenticatedUser, 'userId' | 'email'>) {
+    const { user } = await this.userService.findOrCreateByEmail(
+      member.email,
+      member.name,
+    );
+    return {
+      user: user._id,
+      name: member.name,
+      email: member.email.toLowerCase(),
+      role: member.role,
+      addedBy: new Types.ObjectId(addedBy.userId),
+      addedAt: new Date(),
+    };
   }
 
-  async findAll(): Promise<Team[]> {
-    const teams = await this.teamModel.find().sort({ createdAt: -1 }).exec();
+  async findAll(user: AuthenticatedUser): Promise<Team[]> {
+    const teams = await this.teamModel
+      .find(this.teamAccessService.membershipFilter(user))
+      .sort({ createdAt: -1 })
+      .exec();
     
     this.logger.log(`Found ${teams.length} teams`);
     
@@ -44,12 +87,10 @@ export class TeamService {
     const utilization = (team.currentSpending / team.budget) * 100;
     
     // Check if 100% alert should be sent
-    if (utilization >= 100 && !team.budgetAlerts.hundredPercentSent) {
+    if (utilization >= 100 && await this.claimBudgetAlert(team, 'hundredPercentSent')) {
       this.logger.log(`Sending 100% budget alert for ${team.name} (${utilization.toFixed(1)}%)`);
       try {
         await this.emailService.sendBudgetAlert(team, 'hundred_percent');
-        team.budgetAlerts.hundredPercentSent = true;
-        await team.save();
         this.logger.log(`100% budget alert sent successfully for ${team.name}`);
       } catch (error) {
         this.logger.error(`Failed to send 100% alert for ${team.name}:`, error);
@@ -57,12 +98,10 @@ export class TeamService {
     }
     
     // Check if 80% alert should be sent
-    if (utilization >= 80 && !team.budgetAlerts.eightyPercentSent && utilization < 100) {
+    if (utilization >= 80 && utilization < 100 && await this.claimBudgetAlert(team, 'eightyPercentSent')) {
       this.logger.log(`Sending 80% budget alert for ${team.name} (${utilization.toFixed(1)}%)`);
       try {
         await this.emailService.sendBudgetAlert(team, 'eighty_percent');
-        team.budgetAlerts.eightyPercentSent = true;
-        await team.save();
         this.logger.log(`80% budget alert sent successfully for ${team.name}`);
       } catch (error) {
         this.logger.error(`Failed to send 80% alert for ${team.name}:`, error);
@@ -70,21 +109,21 @@ export class TeamService {
     }
   }
 
-  private async calculateCurrentSpending(teamId: string): Promise<number> {
+  private async calculateCurrentSpending(teamId: string, session?: ClientSession): Promise<number> {
     this.logger.log(` Calculating for team ID: ${teamId} (type: ${typeof teamId})`);
     
     const teamObjectId = Types.ObjectId.isValid(teamId) ? new Types.ObjectId(teamId) : null;
     
     const orConditions: any[] = [];
     if (teamObjectId) {
-      orConditions.push({ team: teamObjectId });
+      orConditions.push({ team: teamObjectId }, { 'allocations.team': teamObjectId });
     }
     orConditions.push({ $expr: { $eq: [ { $toString: '$team' }, teamId ] } });
     
     const approvedExpenses = await this.expenseModel.find({ 
-      status: 'approved',
+      status: { $in: SPENDING_STATUSES },
       $or: orConditions
-    }).exec();
+    }).session(session ?? null).exec();
     
     this.logger.log(`Found ${approvedExpenses.length} approved expenses for team ${teamId}`);
     
@@ -96,31 +135,36 @@ export class TeamService {
     
     let total = 0;
     for (const expense of approvedExpenses) {
-      total += expense.amount;
+      // Split expenses only count the portion allocated to this team; amounts
+      // are counted as converted to the team base currency on approval
+      total += expense.allocations?.length
+        ? expense.allocations
+            .filter((allocation) => String(allocation.team) === teamId)
+            .reduce((sum, allocation) => sum + (allocation.conversion?.baseAmount ?? allocation.amount), 0)
+        : expense.conversion?.baseAmount ?? expense.amount;
     }
     
     this.logger.log(`Total calculated: ${total}`);
     return total;
   }
 
-  async findOne(id: string): Promise<Team> {
+  async findOne(id: string): Promise<TeamDocument> {
     const team = await this.teamModel.findById(id).exec();
     if (!team) {
       throw new NotFoundException('Team not found');
     }
     
-    const currentSpending = await this.calculateCurrentSpending(id);
-    team.currentSpending = currentSpending;
-    await team.save();
+    await this.refreshSpending(team);
     
     return team;
   }
 
-  async update(id: string, updateTeamDto: UpdateTeamDto): Promise<Team> {
+  async update(id: string, updateTeamDto: UpdateTeamDto, expectedVersion?: number): Promise<TeamDocument> {
     const team = await this.teamModel.findById(id).exec();
     if (!team) {
       throw new NotFoundException('Team not found');
     }
+    this.assertVersion(team, expectedVersion);
 
     if (updateTeamDto.name && updateTeamDto.name !== team.name) {
       const existingTeam = await this.teamModel.findOne({ 
@@ -132,22 +176,315 @@ export class TeamService {
       }
     }
 
+    const baseCurrency = updateTeamDto.baseCurrency?.toUpperCase();
+    if (baseCurrency && baseCurrency !== team.baseCurrency) {
+      // Converted amounts already stored on expenses would no longer match
+      const expenseCount = await this.expenseModel.countDocuments({
+        $or: [{ team: team._id }, { 'allocations.team': team._id }],
+      });
+      if (expenseCount > 0) {
+        throw new BadRequestException('The base currency cannot change once the team has expenses');
+      }
+    }
+
+    const before = team.toObject();
     Object.assign(team, updateTeamDto);
-    return team.save();
+    return this.saveAudited(team, AuditAction.UPDATE, 'team.update', before);
+  }
+
+  async addMember(id: string, memberDto: TeamMemberDto, user: Pick<AuthenticatedUser, 'userId' | 'email'>): Promise<Team> {
+    const email = memberDto.email.toLowerCase();
+    const member = await this.buildMember(memberDto, user);
+
+    // The email guard in the filter makes concurrent adds of the same person safe
+    const team = await this.updateAudited(
+      id,
+      { _id: id, 'members.email': { $ne: email } },
+      { $push: { members: member }, $inc: { __v: 1 } },
+      'team.add-member',
+      'members',
+    );
+    if (!team) {
+      await this.findTeamOrFail(id);
+      throw new BadRequestException(`${email} is already a member of this team`);
+    }
+
+    this.logger.log(`Member ${email} added to team ${team.name} by ${user.email}`);
+    return team;
+  }
+
+  async updateMemberRole(id: string, email: string, role: MemberRole, user: AuthenticatedUser): Promise<Team> {
+    email = email.toLowerCase();
+    const filter: any = { _id: id, 'members.email': email };
+    if (role !== MemberRole.ADMIN) {
+      filter.$and = [this.otherAdminFilter(email)];
+    }
+    const team = await this.updateAudited(
+      id,
+      filter,
+      { $set: { 'members.$[member].role': role }, $inc: { __v: 1 } },
+      'team.update-member-role',
+      'members',
+      { arrayFilters: [{ 'member.email': email }] },
+    );
+    if (!team) {
+      await this.explainMemberChangeFailure(id, email);
+    }
+
+    this.logger.log(`Member ${email} of team ${team!.name} set to ${role} by ${user.email}`);
+    return team!;
+  }
+
+  async removeMember(id: string, email: string, user: AuthenticatedUser): Promise<Team> {
+    email = email.toLowerCase();
+    const team = await this.updateAudited(
+      id,
+      { _id: id, 'members.email': email, $and: [this.otherAdminFilter(email)] },
+      { $pull: { members: { email } }, $inc: { __v: 1 } },
+      'team.remove-member',
+      'members',
+    );
+    if (!team) {
+      await this.explainMemberChangeFailure(id, email);
+    }
+
+    this.logger.log(`Member ${email} removed from team ${team!.name} by ${user.email}`);
+    return team!;
+  }
+
+  async getApprovalChain(id: string): Promise<ApprovalStep[]> {
+    const team = await this.findTeamOrFail(id);
+    return team.approvalChain?.length ? team.approvalChain : DEFAULT_APPROVAL_CHAIN;
+  }
+
+  async updateApprovalChain(id: string, steps: ApprovalStepDto[], user: AuthenticatedUser): Promise<ApprovalStep[]> {
+    const thresholds = steps.map((step) => step.threshold);
+    if (new Set(thresholds).size !== thresholds.length) {
+      throw new BadRequestException('Each approval level must have a different threshold');
+    }
+
+    // Levels are evaluated in ascending threshold order
+    const approvalChain = [...steps].sort((a, b) => a.threshold - b.threshold);
+    const team = await this.updateAudited(id, { _id: id }, { $set: { approvalChain }, $inc: { __v: 1 } }, 'team.update-approval-chain', 'approvalChain');
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+
+    this.logger.log(`Approval chain of team ${team.name} updated by ${user.email} (${approvalChain.length} levels)`);
+    return team.approvalChain.length ? team.approvalChain : DEFAULT_APPROVAL_CHAIN;
+  }
+
+  async getSpendingPolicies(id: string): Promise<SpendingPolicy[]> {
+    const team = await this.findTeamOrFail(id);
+    return team.spendingPolicies ?? [];
+  }
+
+  // Policies apply to expenses created or edited from now on
+  async updateSpendingPolicies(id: string, policies: SpendingPolicyDto[], user: AuthenticatedUser): Promise<SpendingPolicy[]> {
+    const categories = policies.map((policy) => policy.category);
+    if (new Set(categories).size !== categories.length) {
+      throw new BadRequestException('Each category can only have one spending policy');
+    }
+
+    const team = await this.updateAudited(id, { _id: id }, { $set: { spendingPolicies: policies }, $inc: { __v: 1 } }, 'team.update-spending-policies', 'spendingPolicies', { runValidators: true });
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+
+    this.logger.log(`Spending policies of team ${team.name} updated by ${user.email} (${policies.length} categories)`);
+    return team.spendingPolicies;
+  }
+
+  // If-Match precondition: the client must have seen the current version
+  private assertVersion(team: TeamDocument, expectedVersion: number | undefined): void {
+    if (expectedVersion !== undefined && expectedVersion !== team.__v) {
+      throw new PreconditionFailedException('The team has changed since it was loaded, reload it and try again');
+    }
   }
 
-  async remove(id: string): Promise<void> {
+  // Saves a change made in memory, unless the team was changed since it was loaded
+  private async saveVersioned(team: TeamDocument, session: ClientSession): Promise<TeamDocument> {
+    try {
+      return await team.save({ session });
+    } catch (error) {
+      if (error instanceof MongooseError.VersionError) {
+        throw new ConflictException('The team was changed at the same time, reload it and try again');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recounts the team's spending from its expenses. This runs in a transaction
+   * so that an expense transition committed meanwhile makes it conflict and
+   * retry instead of overwriting that transition's $inc. Spending is derived,
+   * so refreshing it does not change the version.
+   */
+  private async refreshSpending(team: TeamDocument): Promise<number> {
+    const currentSpending = await this.connection.transaction(async (session) => {
+      const total = await this.calculateCurrentSpending(String(team._id), session);
+      await this.teamModel.updateOne({ _id: team._id }, { $set: { currentSpending: total } }, { session });
+      return total;
+    });
+    team.currentSpending = currentSpending;
+    return currentSpending;
+  }
+
+  // Sets the alert flag unless it is already set; only the caller that sets it sends the alert
+  private async claimBudgetAlert(team: TeamDocument, flag: keyof Team['budgetAlerts']): Promise<boolean> {
+    const result = await this.teamModel.updateOne(
+      { _id: team._id, [`budgetAlerts.${flag}`]: { $ne: true } },
+      { $set: { [`budgetAlerts.${flag}`]: true } },
+    );
+    if (result.modifiedCount !== 1) {
+      return false;
+    }
+    team.budgetAlerts[flag] = true;
+    return true;
+  }
+
+  // Saves the team and its audit entry in one transaction, so neither is kept without the other
+  private async saveAudited(team: TeamDocument, action: AuditAction, operation: string, before: Record<string, any> | null): Promise<TeamDocument> {
+    return this.connection.transaction(async (session) => {
+      const savedTeam = await this.saveVersioned(team, session);
+      await this.audit(savedTeam, action, operation, before, session);
+      return savedTeam;
+    });
+  }
+
+  // Applies an atomic update and its audit entry in one transaction; null when the filter matched nothing
+  private async updateAudited(
+    id: string,
+    filter: FilterQuery<TeamDocument>,
+    update: UpdateQuery<TeamDocument>,
+    operation: string,
+    fields: string,
+    options: QueryOptions<TeamDocument> = {},
+  ): Promise<TeamDocument | null> {
+    return this.connection.transaction(async (session) => {
+      const before = await this.snapshot(id, fields, session);
+      const team = await this.teamModel.findOneAndUpdate(filter, update, { ...options, new: true, session });
+      if (team) {
+        await this.audit(team, AuditAction.UPDATE, operation, before, session, fields);
+      }
+      return team;
+    });
+  }
+
+  // Fields of the team as stored before an atomic update, to diff in the audit log
+  private async snapshot(id: string, fields: string, session: ClientSession): Promise<Record<string, any> | null> {
+    return Types.ObjectId.isValid(id) ? this.teamModel.findById(id).select(fields).session(session).lean().exec() : null;
+  }
+
+  private async audit(team: TeamDocument, action: AuditAction, operation: string, before: Record<string, any> | null, session: ClientSession, fields?: string): Promise<void> {
+    const after = team.toObject();
+    await this.auditService.record({
+      entityType: AuditEntityType.TEAM,
+      entityId: team._id as Types.ObjectId,
+      action,
+      operation,
+      before,
+      // Atomic updates only snapshot the fields they change
+      after: fields ? Object.fromEntries(fields.split(' ').map((field) => [field, after[field]])) : after,
+    }, session);
+  }
+
+  // Matches teams that keep at least one admin besides the given member
+  private otherAdminFilter(email: string) {
+    return {
+      members: { $elemMatch: { role: MemberRole.ADMIN, email: { $ne: email } } },
+    };
+  }
+
+  private async explainMemberChangeFailure(id: string, email: string): Promise<never> {
+    const team = await this.findTeamOrFail(id);
+    if (!team.members.some((member) => member.email === email)) {
+      throw new NotFoundException(`${email} is not a member of this team`);
+    }
+    throw new BadRequestException('A team must always keep at least one admin');
+  }
+
+  private async findTeamOrFail(id: string): Promise<TeamDocument> {
     const team = await this.teamModel.findById(id).exec();
     if (!team) {
       throw new NotFoundException('Team not found');
     }
+    return team;
+  }
 
-    const expenseCount = await this.expenseModel.countDocuments({ team: id });
+  // Moves the team to the trash, which hides it from its members until it is restored
+  async remove(id: string, user: AuthenticatedUser, expectedVersion?: number): Promise<void> {
+    const team = await this.teamModel.findById(id).exec();
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+    this.assertVersion(team, expectedVersion);
+
+    // Split expenses charge the team through their allocations
+    const expenseCount = await this.expenseModel.countDocuments({
+      $or: [{ team: team._id }, { 'allocations.team': team._id }],
+    });
     if (expenseCount > 0) {
       throw new BadRequestException(`Cannot delete team with ${expenseCount} associated expenses`);
     }
 
-    await this.teamModel.findByIdAndDelete(id).exec();
+    const before = team.toObject();
+    team.deletedAt = new Date();
+    team.deletedBy = { user: new Types.ObjectId(user.userId), name: user.name, email: user.email };
+    await this.saveAudited(team, AuditAction.DELETE, 'team.delete', before);
+  }
+
+  async findDeleted(): Promise<Team[]> {
+    return this.teamModel.find({ deletedAt: { $ne: null } }).sort({ deletedAt: -1 }).exec();
+  }
+
+  async restore(id: string, user: AuthenticatedUser): Promise<Team> {
+    const team = Types.ObjectId.isValid(id)
+      ? await this.teamModel.findOne({ _id: id, deletedAt: { $ne: null } }).exec()
+      : null;
+    if (!team) {
+      throw new NotFoundException('Team not found in the trash');
+    }
+
+    const existingTeam = await this.teamModel.findOne({ name: team.name });
+    if (existingTeam) {
+      throw new ConflictException('Another team now uses this name, rename it first');
+    }
+
+    const before = team.toObject();
+    team.deletedAt = null;
+    team.deletedBy = null;
+    const savedTeam = await this.saveAudited(team, AuditAction.RESTORE, 'team.restore', before);
+    this.logger.log(`Team ${team.name} restored by ${user.email}`);
+    return savedTeam;
+  }
+
+  // Permanently removes teams deleted before the cutoff once none of their expenses remain, even in the trash
+  async purgeDeleted(deletedBefore: Date): Promise<number> {
+    const teams = await this.teamModel.find({ deletedAt: { $lt: deletedBefore } }).exec();
+
+    let purged = 0;
+    for (const team of teams) {
+      // The raw collection also counts expenses in the trash
+      const expenseCount = await this.expenseModel.collection.countDocuments({
+        $or: [{ team: team._id }, { 'allocations.team': team._id }],
+      });
+      if (expenseCount > 0) continue;
+
+      await this.connection.transaction(async (session) => {
+        await this.teamModel.deleteOne({ _id: team._id }, { session });
+        await this.auditService.record({
+          entityType: AuditEntityType.TEAM,
+          entityId: team._id as Types.ObjectId,
+          action: AuditAction.DELETE,
+          operation: 'team.purge',
+          before: team.toObject(),
+          actor: null,
+        }, session);
+      });
+      purged++;
+    }
+    return purged;
   }
 
   async getBudgetStatus(id: string): Promise<any> {
@@ -156,10 +493,7 @@ export class TeamService {
       throw new NotFoundException('Team not found');
     }
 
-    const currentSpending = await this.calculateCurrentSpending(id);
-    
-    team.currentSpending = currentSpending;
-    await team.save();
+    const currentSpending = await this.refreshSpending(team);
 
     const budgetStatus = {
       teamId: team._id,
@@ -178,14 +512,10 @@ export class TeamService {
 
     const utilization = budgetStatus.utilizationPercentage;
     
-    if (utilization >= 100 && !team.budgetAlerts.hundredPercentSent) {
+    if (utilization >= 100 && await this.claimBudgetAlert(team, 'hundredPercentSent')) {
       await this.emailService.sendBudgetAlert(team, 'hundred_percent');
-      team.budgetAlerts.hundredPercentSent = true;
-      await team.save();
-    } else if (utilization >= 80 && !team.budgetAlerts.eightyPercentSent) {
+    } else if (utilization >= 80 && await this.claimBudgetAlert(team, 'eightyPercentSent')) {
       await this.emailService.sendBudgetAlert(team, 'eighty_percent');
-      team.budgetAlerts.eightyPercentSent = true;
-      await team.save();
     }
 
     return budgetStatus;
@@ -194,7 +524,8 @@ export class TeamService {
   async getExpenses(id: string, query: any): Promise<{ expenses: Expense[]; pagination: any }> {
     const { status, category, startDate, endDate, limit = 50, page = 1 } = query;
     
-    const filter: any = { team: id };
+    // Split expenses show up for every team they are allocated to
+    const filter: any = { $or: [{ team: id }, { 'allocations.team': id }] };
     
     if (status) filter.status = status;
     if (category) filter.category = category;
@@ -1,20 +1,36 @@
 import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
 import { MongooseModule } from '@nestjs/mongoose';
 import { TeamController } from './controllers/team.controller';
+import { TeamInvitationController } from './controllers/team-invitation.controller';
+import { InvitationController } from './controllers/invitation.controller';
 import { TeamService } from './services/team.service';
+import { TeamInvitationService } from './services/team-invitation.service';
 import { Team, TeamSchema } from './schemas/team.schema';
+import {
+  TeamInvitation,
+  TeamInvitationSchema,
+} from './schemas/team-invitation.schema';
 import { Expense, ExpenseSchema } from '../expense/schemas/expense.schema';
+import { AuthModule } from '../auth/auth.module';
+import { UserModule } from '../user/user.module';
+import { AuditModule } from '../audit/audit.module';
 import { EmailService } from '@shared/services/email.service';
 
 @Module({
   imports: [
+    AuthModule,
+    UserModule,
+    AuditModule,
+    JwtModule.register({}),
     MongooseModule.forFeature([
       { name: Team.name, schema: TeamSchema },
       { name: Expense.name, schema: ExpenseSchema },
+      { name: TeamInvitation.name, schema: TeamInvitationSchema },
     ]),
   ],
-  controllers: [TeamController],
-  providers: [TeamService, EmailService],
+  controllers: [TeamController, TeamInvitationController, InvitationController],
+  providers: [TeamService, TeamInvitationService, EmailService],
   exports: [TeamService],
 })
 export class TeamModule {}
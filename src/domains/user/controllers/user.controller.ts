@@ -0,0 +1,219 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiBody,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { UserService } from '../services/user.service';
+import { UserMigrationService } from '../services/user-migration.service';
+import { UpdateUserRoleDto } from '../dto/user.dto';
+import { CurrentUser, Roles } from '@shared/decorators';
+import { UserRole } from '@shared/lib';
+import type { AuthenticatedUser } from '@shared/lib';
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@Controller('users')
+export class UserController {
+  private readonly logger = new Logger(UserController.name);
+
+  constructor(
+    private readonly userService: UserService,
+    private readonly userMigrationService: UserMigrationService,
+  ) {}
+
+  @Get('me/teams')
+  @ApiOperation({
+    summary: 'List my teams',
+    description:
+      'Returns every team the authenticated user belongs to, with their role in each team.',
+  })
+  @ApiOkResponse({
+    description: 'Teams retrieved successfully',
+    schema: {
+      example: {
+        success: true,
+        teams: [
+          {
+            teamId: '507f1f77bcf86cd799439011',
+            teamName: 'Engineering Team',
+            role: 'admin',
+            budget: 50000,
+            currentSpending: 25000,
+          },
+        ],
+      },
+    },
+  })
+  async getMyTeams(@CurrentUser() user: AuthenticatedUser) {
+    return this.getTeams(user.userId, user);
+  }
+
+  @Get(':id/teams')
+  @ApiOperation({
+    summary: "List a user's teams",
+    description:
+      'Returns every team the given user belongs to. Users can only list their own teams unless they are system admins.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiOkResponse({ description: 'Teams retrieved successfully' })
+  @ApiForbiddenResponse({
+    description: "Not allowed to list this user's teams",
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  async getUserTeams(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.getTeams(id, user);
+  }
+
+  @Patch(':id/role')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Change system role',
+    description:
+      'Assigns a system role to a user, e.g. finance or director approvers used by team approval chains. Takes effect on the next sign-in or token refresh.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({ type: UpdateUserRoleDto })
+  @ApiOkResponse({ description: 'Role updated successfully' })
+  @ApiForbiddenResponse({
+    description: 'Only system admins can change roles',
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  async updateRole(
+    @Param('id') id: string,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ) {
+    try {
+      const user = await this.userService.updateRole(
+        id,
+        updateUserRoleDto.role,
+      );
+      this.logger.log(
+        `User ${user.email} set to ${user.role} by ${currentUser.email}`,
+      );
+      return {
+        success: true,
+        user,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error updating role of user ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to update role',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('migrate')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Migrate embedded users',
+    description:
+      'Creates User documents for the name/email records embedded in team members and expense submitters/approvers, and links them by id. Safe to run more than once.',
+  })
+  @ApiOkResponse({
+    description: 'Migration completed',
+    schema: {
+      example: {
+        success: true,
+        result: {
+          usersCreated: 12,
+          membershipsLinked: 18,
+          submittersLinked: 240,
+          approversLinked: 75,
+        },
+      },
+    },
+  })
+  @ApiForbiddenResponse({
+    description: 'Only system admins can run migrations',
+  })
+  async migrate() {
+    try {
+      const result = await this.userMigrationService.migrateEmbeddedUsers();
+      return {
+        success: true,
+        result,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error migrating embedded users: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to migrate users',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async getTeams(id: string, user: AuthenticatedUser) {
+    try {
+      if (id !== user.userId && user.role !== UserRole.ADMIN) {
+        throw new ForbiddenException('You can only list your own teams');
+      }
+      const teams = await this.userService.getTeams(id);
+      return {
+        success: true,
+        teams,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error fetching teams for user ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            error instanceof Error ? error.message : 'Failed to fetch teams',
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@shared/lib';
+
+export class UpdateUserRoleDto {
+  @ApiProperty({
+    description: 'New system role of the user',
+    enum: UserRole,
+    example: UserRole.FINANCE,
+  })
+  @IsEnum(UserRole)
+  role: UserRole;
+}
@@ -0,0 +1,3 @@
+export { UserModule } from './user.module';
+export { UserController } from './controllers/user.controller';
+export { UserService } from './services/user.service';
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { UserRole } from '@shared/lib';
+
+export type UserDocument = User & Document;
+
+@Schema({ timestamps: true })
+export class User {
+  @Prop({ required: true, trim: true, maxlength: 100 })
+  name: string;
+
+  @Prop({ required: true, unique: true, trim: true, lowercase: true })
+  email: string;
+
+  @Prop({ enum: UserRole, default: UserRole.USER })
+  role: UserRole;
+
+  // Absent for users created from team memberships who have not registered yet
+  @Prop({ select: false })
+  password: string;
+
+  @Prop({ select: false })
+  refreshTokenHash: string;
+
+  @Prop()
+  lastLoginAt: Date;
+}
+
+export const UserSchema = SchemaFactory.createForClass(User);
+
+UserSchema.set('toJSON', {
+  transform: (_doc, ret: Record<string, any>) => {
+    delete ret.password;
+    delete ret.refreshTokenHash;
+    return ret;
+  },
+});
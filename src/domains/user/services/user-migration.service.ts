@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model, Types } from 'mongoose';
+import { UserService } from './user.service';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import { Expense, ExpenseDocument } from '../../expense/schemas/expense.schema';
+import { AuditService } from '../../audit/services/audit.service';
+import { AuditAction, AuditEntityType } from '@shared/lib';
+
+export interface UserMigrationResult {
+  usersCreated: number;
+  membershipsLinked: number;
+  submittersLinked: number;
+  approversLinked: number;
+}
+
+// Links the name/email records embedded in teams and expenses to User documents
+@Injectable()
+export class UserMigrationService {
+  private readonly logger = new Logger(UserMigrationService.name);
+  private readonly SYSTEM_EMAIL = 'system@expensemanagement.com';
+
+  constructor(
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    @InjectModel(Expense.name) private expenseModel: Model<ExpenseDocument>,
+    private userService: UserService,
+    private auditService: AuditService,
+    @InjectConnection() private connection: Connection,
+  ) {}
+
+  async migrateEmbeddedUsers(): Promise<UserMigrationResult> {
+    const result: UserMigrationResult = {
+      usersCreated: 0,
+      membershipsLinked: 0,
+      submittersLinked: 0,
+      approversLinked: 0,
+    };
+
+    const resolveUser = async (
+      email: string,
+      name: string,
+    ): Promise<Types.ObjectId> => {
+      const { user, created } = await this.userService.findOrCreateByEmail(
+        email,
+        name,
+      );
+      if (created) result.usersCreated++;
+      return user._id as Types.ObjectId;
+    };
+
+    const teams = await this.teamModel.find({
+      members: { $elemMatch: { user: { $exists: false } } },
+    });
+    for (const team of teams) {
+      const before = { members: team.toObject().members };
+      for (const member of team.members) {
+        if (member.user) continue;
+        // Memberships are matched by lowercase email everywhere else
+        member.email = member.email.toLowerCase();
+        member.user = await resolveUser(member.email, member.name);
+        result.membershipsLinked++;
+      }
+      await this.connection.transaction(async (session) => {
+        await team.save({ session });
+        await this.auditService.record(
+          {
+            entityType: AuditEntityType.TEAM,
+            entityId: team._id as Types.ObjectId,
+            action: AuditAction.UPDATE,
+            operation: 'team.link-member-users',
+            before,
+            after: { members: team.toObject().members },
+          },
+          session,
+        );
+      });
+    }
+
+    const submitters = await this.expenseModel.aggregate([
+      { $match: { 'submittedBy.user': { $exists: false } } },
+      {
+        $group: {
+          _id: '$submittedBy.email',
+          name: { $first: '$submittedBy.name' },
+        },
+      },
+    ]);
+    for (const { _id: email, name } of submitters) {
+      if (!email) continue;
+      const userId = await resolveUser(email, name);
+      result.submittersLinked += await this.linkExpenses(
+        'submittedBy',
+        email,
+        userId,
+      );
+    }
+
+    const approvers = await this.expenseModel.aggregate([
+      {
+        $match: {
+          'approvedBy.email': { $exists: true, $ne: this.SYSTEM_EMAIL },
+          'approvedBy.user': { $exists: false },
+        },
+      },
+      {
+        $group: {
+          _id: '$approvedBy.email',
+          name: { $first: '$approvedBy.name' },
+        },
+      },
+    ]);
+    for (const { _id: email, name } of approvers) {
+      if (!email) continue;
+      const userId = await resolveUser(email, name);
+      result.approversLinked += await this.linkExpenses(
+        'approvedBy',
+        email,
+        userId,
+      );
+    }
+
+    this.logger.log(
+      `Embedded user migration finished: ${JSON.stringify(result)}`,
+    );
+    return result;
+  }
+
+  // Sets the user on the embedded submitter or approver with this email,
+  // with an audit entry per expense; returns the number of expenses linked
+  private async linkExpenses(
+    field: 'submittedBy' | 'approvedBy',
+    email: string,
+    userId: Types.ObjectId,
+  ): Promise<number> {
+    return this.connection.transaction(async (session) => {
+      const filter = {
+        [`${field}.email`]: email,
+        [`${field}.user`]: { $exists: false },
+      };
+      const expenses = await this.expenseModel
+        .find(filter)
+        .select('_id')
+        .session(session)
+        .exec();
+      const expenseIds = expenses.map(
+        (expense) => expense._id as Types.ObjectId,
+      );
+      const { modifiedCount } = await this.expenseModel.updateMany(
+        { ...filter, _id: { $in: expenseIds } },
+        { $set: { [`${field}.user`]: userId }, $inc: { __v: 1 } },
+        { session },
+      );
+      await this.auditService.recordMany(
+        expenseIds.map((expenseId) => ({
+          entityType: AuditEntityType.EXPENSE,
+          entityId: expenseId,
+          action: AuditAction.UPDATE,
+          operation: `expense.link-${field === 'submittedBy' ? 'submitter' : 'approver'}-user`,
+          before: { [field]: { user: null } },
+          after: { [field]: { user: userId } },
+        })),
+        session,
+      );
+      return modifiedCount;
+    });
+  }
+}
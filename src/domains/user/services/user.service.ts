@@ -0,0 +1,148 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { User, UserDocument } from '../schemas/user.schema';
+import { Team, TeamDocument } from '../../team/schemas/team.schema';
+import { MemberRole, UserRole, UserTeamMembership } from '@shared/lib';
+
+@Injectable()
+export class UserService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+  ) {}
+
+  async findById(id: string): Promise<UserDocument> {
+    const user = await this.userModel.findById(id).exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  async findByEmail(
+    email: string,
+    withSecrets = false,
+  ): Promise<UserDocument | null> {
+    const query = this.userModel.findOne({ email: email.toLowerCase() });
+    if (withSecrets) {
+      query.select('+password +refreshTokenHash');
+    }
+    return query.exec();
+  }
+
+  async findByIdWithSecrets(id: string): Promise<UserDocument | null> {
+    return this.userModel
+      .findById(id)
+      .select('+password +refreshTokenHash')
+      .exec();
+  }
+
+  async create(data: {
+    name: string;
+    email: string;
+    password: string;
+    role?: UserRole;
+  }): Promise<UserDocument> {
+    const user = new this.userModel(data);
+    return user.save();
+  }
+
+  // Returns the user with this email, creating a passwordless one if needed
+  async findOrCreateByEmail(
+    email: string,
+    name: string,
+  ): Promise<{ user: UserDocument; created: boolean }> {
+    const result = await this.userModel
+      .findOneAndUpdate(
+        { email: email.toLowerCase() },
+        { $setOnInsert: { email: email.toLowerCase(), name } },
+        { upsert: true, new: true, includeResultMetadata: true },
+      )
+      .exec();
+
+    return {
+      user: result.value as UserDocument,
+      created: !result.lastErrorObject?.updatedExisting,
+    };
+  }
+
+  // Only accounts without a password can be claimed, so a claim link works once
+  async claim(
+    id: string,
+    data: { name: string; password: string; role: UserRole },
+  ): Promise<UserDocument> {
+    const user = await this.userModel
+      .findOneAndUpdate(
+        { _id: id, password: null },
+        { $set: data },
+        { new: true },
+      )
+      .exec();
+    if (!user) {
+      throw new BadRequestException('This account has already been claimed');
+    }
+    return user;
+  }
+
+  async setRole(id: string, role: UserRole): Promise<void> {
+    await this.userModel.updateOne({ _id: id }, { $set: { role } }).exec();
+  }
+
+  // Takes effect once the user signs in again or refreshes their tokens
+  async updateRole(id: string, role: UserRole): Promise<UserDocument> {
+    const user = await this.userModel
+      .findByIdAndUpdate(id, { $set: { role } }, { new: true })
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  async setRefreshTokenHash(
+    id: string,
+    refreshTokenHash: string | null,
+  ): Promise<void> {
+    await this.userModel
+      .updateOne({ _id: id }, { $set: { refreshTokenHash } })
+      .exec();
+  }
+
+  async touchLastLogin(id: string): Promise<void> {
+    await this.userModel
+      .updateOne({ _id: id }, { $set: { lastLoginAt: new Date() } })
+      .exec();
+  }
+
+  async getTeams(id: string): Promise<UserTeamMembership[]> {
+    const user = await this.findById(id);
+
+    const teams = await this.teamModel
+      .find({
+        $or: [
+          { 'members.user': new Types.ObjectId(id) },
+          { 'members.email': user.email },
+        ],
+      })
+      .sort({ name: 1 })
+      .lean();
+
+    return teams.map((team) => {
+      const member = team.members.find(
+        (m) => (m.user && String(m.user) === id) || m.email === user.email,
+      );
+      return {
+        teamId: String(team._id),
+        teamName: team.name,
+        role: member?.role ?? MemberRole.MEMBER,
+        budget: team.budget,
+        currentSpending: team.currentSpending,
+      };
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UserController } from './controllers/user.controller';
+import { UserService } from './services/user.service';
+import { UserMigrationService } from './services/user-migration.service';
+import { User, UserSchema } from './schemas/user.schema';
+import { Team, TeamSchema } from '../team/schemas/team.schema';
+import { Expense, ExpenseSchema } from '../expense/schemas/expense.schema';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: Team.name, schema: TeamSchema },
+      { name: Expense.name, schema: ExpenseSchema },
+    ]),
+    AuditModule,
+  ],
+  controllers: [UserController],
+  providers: [UserService, UserMigrationService],
+  exports: [UserService],
+})
+export class UserModule {}
@@ -19,6 +19,7 @@ async function bootstrap() {
         : '*',
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
     credentials: true,
+    exposedHeaders: ['ETag', 'X-Request-Id', 'Idempotent-Replayed'],
   });
 
   app.useGlobalPipes(
@@ -37,8 +38,16 @@ async function bootstrap() {
         A comprehensive expense management system API built with NestJS and MongoDB.`)
       .setVersion('1.0.0')
       .setLicense('MIT', 'https://opensource.org/licenses/MIT')
+      .addBearerAuth()
+      .addTag('Auth', 'Registration, login and token refresh')
+      .addTag('Users', 'User accounts and team memberships')
       .addTag('Teams', 'Team management and budget tracking')
       .addTag('Expenses', 'Expense management and approval workflow')
+      .addTag('Expense Reports', 'Trips and projects that bundle several expenses')
+      .addTag('Payouts', 'Reimbursement batches and bank transfer exports')
+      .addTag('Rates', 'Mileage, per-diem and exchange rate tables')
+      .addTag('Tax', 'Tax codes per country and tax reports')
+      .addTag('Audit', 'Audit log of changes to expenses and teams')
       .addTag('Analytics', 'Budget insights and forecasting')
       .addTag('Reports', 'PDF export and reporting')
       .addServer('http://localhost:5000', 'Development server')
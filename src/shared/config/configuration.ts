@@ -6,10 +6,57 @@ export default () => ({
   jwt: {
     secret: process.env.JWT_SECRET,
     expiresIn: '7d',
+    refreshSecret: process.env.JWT_REFRESH_SECRET,
+    refreshExpiresIn: '30d',
+  },
+  auth: {
+    // Comma-separated emails that are granted the system admin role
+    adminEmails: (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+  },
+  accountClaims: {
+    secret: process.env.ACCOUNT_CLAIM_SECRET,
+    expiresInHours: 24,
+  },
+  invitations: {
+    secret: process.env.INVITATION_SECRET,
+    expiresInDays: 7,
+  },
+  separationOfDuties: {
+    // Submitters cannot approve their own expenses
+    blockSelfApproval: process.env.SOD_BLOCK_SELF_APPROVAL !== 'false',
+    // People who changed the amount of an expense cannot approve it
+    blockAmountEditorApproval:
+      process.env.SOD_BLOCK_AMOUNT_EDITOR_APPROVAL === 'true',
+  },
+  recurringExpenses: {
+    // Disable on all but one instance when running several
+    schedulerEnabled: process.env.RECURRING_EXPENSES_SCHEDULER !== 'false',
+    intervalMinutes: parseInt(
+      process.env.RECURRING_EXPENSES_INTERVAL_MINUTES || '60',
+      10,
+    ),
+  },
+  trash: {
+    // Deleted expenses and teams can be restored for this many days
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    // Disable on all but one instance when running several
+    purgeEnabled: process.env.TRASH_PURGE !== 'false',
+  },
+  idempotency: {
+    // Responses are replayed for retries with the same Idempotency-Key this long
+    ttlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+  },
+  exchangeRates: {
+    // CSV file with from,to,rate,effectiveFrom lines, loaded on startup
+    file: process.env.EXCHANGE_RATES_FILE,
   },
   email: {
     resendApiKey: process.env.RESEND_API_KEY,
   },
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
   ai: {
     openaiApiKey: process.env.OPENAI_API_KEY,
   },
@@ -0,0 +1,25 @@
+// Each kind of token has its own signing secret, so one is never accepted as another
+const SIGNING_SECRETS = [
+  'JWT_SECRET',
+  'JWT_REFRESH_SECRET',
+  'INVITATION_SECRET',
+  'ACCOUNT_CLAIM_SECRET',
+];
+
+// Fails startup when the environment is unsafe to run with
+export function validateEnvironment(
+  config: Record<string, unknown>,
+): Record<string, unknown> {
+  const missing = SIGNING_SECRETS.filter((name) => !config[name]);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required environment variables: ${missing.join(', ')}`,
+    );
+  }
+
+  const values = SIGNING_SECRETS.map((name) => config[name]);
+  if (new Set(values).size !== values.length) {
+    throw new Error(`${SIGNING_SECRETS.join(', ')} must all be different`);
+  }
+  return config;
+}
@@ -0,0 +1,2 @@
+export { RequestContext } from './request-context';
+export { RequestContextMiddleware } from './request-context.middleware';
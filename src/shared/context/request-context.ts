@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Request, Response } from 'express';
+import { AuthenticatedUser, RequestMetadata } from '../lib';
+
+type RequestStore = { request: Request; metadata: RequestMetadata };
+
+const storage = new AsyncLocalStorage<RequestStore>();
+
+/**
+ * Keeps the current HTTP request reachable from services without passing it
+ * through every call, e.g. to record who made a change and from where.
+ */
+export class RequestContext {
+  static run(request: Request, response: Response, next: () => void): void {
+    const header = request.headers['x-request-id'];
+    const requestId =
+      typeof header === 'string' && header
+        ? header.slice(0, 100)
+        : randomUUID();
+    response.setHeader('X-Request-Id', requestId);
+
+    storage.run(
+      {
+        request,
+        metadata: {
+          requestId,
+          method: request.method,
+          path: request.originalUrl,
+          ip: request.ip,
+          userAgent: request.headers['user-agent'],
+        },
+      },
+      next,
+    );
+  }
+
+  // Undefined outside of a request, e.g. in scheduled jobs
+  static metadata(): RequestMetadata | undefined {
+    return storage.getStore()?.metadata;
+  }
+
+  // Set once the JWT guard has authenticated the request
+  static user(): AuthenticatedUser | undefined {
+    return storage.getStore()?.request.user as AuthenticatedUser | undefined;
+  }
+}
@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { parseIfMatch } from '../lib';
+
+// Version the client expects the document to still have, from If-Match
+export const IfMatch = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): number | undefined => {
+    const request = ctx.switchToHttp().getRequest();
+    return parseIfMatch(request.headers['if-match']);
+  },
+);
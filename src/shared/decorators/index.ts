@@ -0,0 +1,5 @@
+export * from './public.decorator';
+export * from './current-user.decorator';
+export * from './team-roles.decorator';
+export * from './roles.decorator';
+export * from './if-match.decorator';
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../lib';
+
+export const ROLES_KEY = 'roles';
+
+// Restricts a route to users holding one of the given system-wide roles
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common';
+import { MemberRole, UserRole } from '../lib';
+
+export const TEAM_ROLES_KEY = 'teamRoles';
+
+/**
+ * Where the guard finds the team(s) a request is scoped to:
+ * - `param` / `body`: the value is a team id
+ * - `expenseParam` / `expenseBody`: the value is an expense id (or list of ids)
+ *   whose team is looked up; a role in any team the expense is split with
+ *   also grants access; `inTrash` looks the expense up among deleted ones
+ */
+export type TeamScopeSource =
+  | { param: string }
+  | { body: string }
+  | { expenseParam: string; inTrash?: boolean }
+  | { expenseBody: string };
+
+export interface TeamRolesOptions {
+  roles: MemberRole[];
+  scope: TeamScopeSource;
+  reason?: string;
+  // System roles that are allowed through without being team members
+  bypassRoles?: UserRole[];
+}
+
+// Restricts a route to users holding one of the given roles in the scoped team(s)
+export const TeamRoles = (options: TeamRolesOptions) =>
+  SetMetadata(TEAM_ROLES_KEY, options);
@@ -0,0 +1,16 @@
+import { ApproverRole, ExpenseStatus } from './enums';
+import { ApprovalStep } from './interfaces';
+
+// Used for teams that have not configured their own approval chain
+export const DEFAULT_APPROVAL_CHAIN: ApprovalStep[] = [
+  { name: 'Team admin', threshold: 0, approverRole: ApproverRole.TEAM_ADMIN },
+];
+
+// Expenses in these statuses count towards a team's current spending
+export const SPENDING_STATUSES: ExpenseStatus[] = [
+  ExpenseStatus.APPROVED,
+  ExpenseStatus.REIMBURSED,
+];
+
+// Currency of teams and expenses recorded before currencies were introduced
+export const DEFAULT_CURRENCY = 'USD';
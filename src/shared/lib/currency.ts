@@ -0,0 +1,12 @@
+import { DEFAULT_CURRENCY } from './constants';
+
+// Formats an amount with the symbol or code of its ISO 4217 currency
+export const formatMoney = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
@@ -11,12 +11,125 @@ export enum ExpenseCategory {
 }
 
 export enum ExpenseStatus {
-  PENDING = 'pending',
+  DRAFT = 'draft',
+  SUBMITTED = 'submitted',
+  NEEDS_INFO = 'needs_info',
   APPROVED = 'approved',
   REJECTED = 'rejected',
+  REIMBURSED = 'reimbursed',
+  CANCELLED = 'cancelled',
 }
 
 export enum MemberRole {
   ADMIN = 'admin',
   MEMBER = 'member',
 }
+
+export enum UserRole {
+  ADMIN = 'admin',
+  FINANCE = 'finance',
+  DIRECTOR = 'director',
+  USER = 'user',
+}
+
+export enum ApproverRole {
+  TEAM_ADMIN = 'team_admin',
+  FINANCE = 'finance',
+  DIRECTOR = 'director',
+}
+
+export enum ApprovalDecision {
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  REVOKED = 'revoked',
+  EXPIRED = 'expired',
+}
+
+export enum SodViolation {
+  SELF_APPROVAL = 'self_approval',
+  AMOUNT_EDITOR = 'amount_editor',
+}
+
+export enum PayoutBatchStatus {
+  DRAFT = 'draft',
+  EXPORTED = 'exported',
+  PAID = 'paid',
+}
+
+export enum ExpenseReportStatus {
+  DRAFT = 'draft',
+  SUBMITTED = 'submitted',
+  APPROVED = 'approved',
+  PARTIALLY_APPROVED = 'partially_approved',
+  REJECTED = 'rejected',
+}
+
+export enum RecurrenceCadence {
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+  YEARLY = 'yearly',
+}
+
+export enum RecurringExpenseStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  ENDED = 'ended',
+}
+
+export enum ExpenseType {
+  STANDARD = 'standard',
+  MILEAGE = 'mileage',
+  PER_DIEM = 'per_diem',
+}
+
+export enum VehicleType {
+  CAR = 'car',
+  MOTORCYCLE = 'motorcycle',
+  BICYCLE = 'bicycle',
+}
+
+export enum TaxReportPeriod {
+  MONTH = 'month',
+  QUARTER = 'quarter',
+  YEAR = 'year',
+}
+
+export enum PolicyRule {
+  MAX_AMOUNT = 'max_amount',
+  RECEIPT_REQUIRED = 'receipt_required',
+  JUSTIFICATION_REQUIRED = 'justification_required',
+  WEEKEND_NOT_ALLOWED = 'weekend_not_allowed',
+}
+
+export enum PolicyEnforcement {
+  FLAG = 'flag',
+  BLOCK = 'block',
+}
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  RESTORE = 'restore',
+}
+
+export enum BulkActionOutcome {
+  UPDATED = 'updated',
+  SKIPPED = 'skipped',
+  NOT_FOUND = 'not_found',
+  FORBIDDEN = 'forbidden',
+  CONFLICT = 'conflict',
+  FAILED = 'failed',
+}
+
+export enum AuditEntityType {
+  EXPENSE = 'expense',
+  TEAM = 'team',
+}
@@ -0,0 +1,16 @@
+// Expenses and teams are versioned by their `__v`, which every change increments
+export const toEtag = (version: number): string => `"${version}"`;
+
+/**
+ * Version required by an If-Match header: undefined when there is no
+ * precondition (no header or `*`), NaN for tags that are not ours, which
+ * never match.
+ */
+export function parseIfMatch(header?: string): number | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') {
+    return undefined;
+  }
+  const match = /^(?:W\/)?"(\d+)"$/.exec(value);
+  return match ? Number(match[1]) : NaN;
+}
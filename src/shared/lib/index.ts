@@ -1,2 +1,6 @@
 export * from './enums';
 export * from './interfaces';
+export * from './constants';
+export * from './currency';
+export * from './soft-delete';
+export * from './etag';
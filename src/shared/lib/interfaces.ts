@@ -1,16 +1,55 @@
-import { ExpenseCategory, ExpenseStatus, MemberRole } from './enums';
+import {
+  ApprovalDecision,
+  ApproverRole,
+  ExpenseCategory,
+  ExpenseStatus,
+  MemberRole,
+  PolicyEnforcement,
+  PolicyRule,
+  SodViolation,
+  UserRole,
+} from './enums';
 
 export interface Submitter {
+  user?: string;
   name: string;
   email: string;
 }
 
 export interface ApprovedBy {
+  user?: string;
   name: string;
   email: string;
   approvedAt: Date;
 }
 
+export interface StatusChange {
+  from?: ExpenseStatus;
+  to: ExpenseStatus;
+  user?: string;
+  name: string;
+  email: string;
+  note?: string;
+  changedAt: Date;
+}
+
+// Portion of an expense charged to a team, given as an amount or a percent
+export interface Conversion {
+  baseCurrency: string;
+  baseAmount: number;
+  rate: number;
+  rateEffectiveFrom: Date;
+  convertedAt: Date;
+}
+
+export interface ExpenseAllocation {
+  team: string;
+  category: ExpenseCategory;
+  amount: number;
+  percent?: number;
+  conversion?: Conversion | null;
+}
+
 export interface Receipt {
   filename: string;
   originalName: string;
@@ -19,9 +58,74 @@ export interface Receipt {
 }
 
 export interface TeamMember {
+  user?: string;
   name: string;
   email: string;
   role: MemberRole;
+  addedBy?: string;
+  addedAt?: Date;
+}
+
+export interface ApprovalStep {
+  name: string;
+  threshold: number;
+  approverRole: ApproverRole;
+}
+
+export interface SpendingPolicy {
+  category: ExpenseCategory;
+  maxAmount?: number;
+  perAttendee?: boolean;
+  receiptRequiredAbove?: number;
+  justificationRequiredAbove?: number;
+  weekendNotAllowed?: boolean;
+  enforcement: PolicyEnforcement;
+}
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  team: string;
+  category: ExpenseCategory;
+  message: string;
+}
+
+export interface ApprovalRecord {
+  level: number;
+  team?: string;
+  stepName: string;
+  approverRole: ApproverRole;
+  decision: ApprovalDecision;
+  user: string;
+  name: string;
+  email: string;
+  decidedAt: Date;
+  sodOverride?: SodViolation;
+  overrideJustification?: string;
+}
+
+export interface SodOverride {
+  violation: SodViolation;
+  justification: string;
+}
+
+export interface AmountEdit {
+  user?: string;
+  name: string;
+  email: string;
+  previousAmount: number;
+  newAmount: number;
+  editedAt: Date;
+}
+
+export interface ApprovalChainStatus {
+  level: number;
+  team: string;
+  name: string;
+  threshold: number;
+  approverRole: ApproverRole;
+  status: 'approved' | 'rejected' | 'current' | 'waiting';
+  decidedBy?: { name: string; email: string };
+  decidedAt?: Date;
 }
 
 export interface BudgetAlerts {
@@ -33,12 +137,21 @@ export interface ExpenseData {
   team: string;
   description: string;
   amount: number;
+  currency: string;
+  conversion?: Conversion | null;
   category: ExpenseCategory;
   aiSuggestedCategory?: ExpenseCategory;
   status: ExpenseStatus;
   submittedBy: Submitter;
   approvedBy?: ApprovedBy;
+  approvals?: Array<ApprovalRecord>;
+  statusHistory?: Array<StatusChange>;
+  amountEdits?: Array<AmountEdit>;
+  allocations?: Array<ExpenseAllocation>;
   receipt?: Receipt;
+  justification?: string;
+  attendees?: number;
+  policyViolations?: Array<PolicyViolation>;
   date: Date;
   isDuplicate: boolean;
   duplicateReason?: string;
@@ -47,9 +160,12 @@ export interface ExpenseData {
 export interface TeamData {
   name: string;
   budget: number;
+  baseCurrency: string;
   members: Array<TeamMember>;
   currentSpending: number;
   budgetAlerts: BudgetAlerts;
+  approvalChain?: Array<ApprovalStep>;
+  spendingPolicies?: Array<SpendingPolicy>;
 }
 
 export interface BudgetStatus {
@@ -84,3 +200,55 @@ export interface BudgetForecast {
   averageMonthlySpending: number;
   currentUtilization: number;
 }
+
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  // Only access tokens authenticate requests; refresh tokens only rotate them
+  typ: 'access' | 'refresh';
+}
+
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface RequestMetadata {
+  requestId: string;
+  method: string;
+  path: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface UserTeamMembership {
+  teamId: string;
+  teamName: string;
+  role: MemberRole;
+  budget: number;
+  currentSpending: number;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: string;
+}
+
+export interface AccountClaimTokenPayload {
+  sub: string;
+  email: string;
+  purpose: 'account-claim';
+}
+
+export interface InvitationTokenPayload {
+  sub: string;
+  team: string;
+  email: string;
+  purpose: 'team-invitation';
+}
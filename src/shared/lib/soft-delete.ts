@@ -0,0 +1,31 @@
+import type { MongooseQueryMiddleware, Schema } from 'mongoose';
+
+const QUERY_HOOKS: MongooseQueryMiddleware[] = [
+  'countDocuments',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'updateMany',
+  'updateOne',
+];
+
+/**
+ * Hides soft-deleted documents, those with a `deletedAt`, from the queries
+ * and aggregations of a schema. Queries that filter on `deletedAt`
+ * themselves, e.g. to list or purge the trash, see them.
+ */
+export function excludeSoftDeleted(schema: Schema): void {
+  schema.pre(QUERY_HOOKS, function () {
+    if (!('deletedAt' in this.getFilter())) {
+      this.where({ deletedAt: null });
+    }
+  });
+
+  schema.pre('aggregate', function () {
+    const [first] = this.pipeline() as Record<string, any>[];
+    if (!(first?.$match && 'deletedAt' in first.$match)) {
+      this.pipeline().unshift({ $match: { deletedAt: null } });
+    }
+  });
+}
@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
-import { ExpenseCategory } from '../lib';
+import { DEFAULT_CURRENCY, ExpenseCategory } from '../lib';
 
 @Injectable()
 export class AiService {
@@ -92,7 +92,7 @@ export class AiService {
     });
   }
 
-  async suggestExpenseCategory(description: string, amount: number): Promise<{ success: boolean; category?: ExpenseCategory; error?: string }> {
+  async suggestExpenseCategory(description: string, amount: number, currency: string): Promise<{ success: boolean; category?: ExpenseCategory; error?: string }> {
     try {
       if (!this.openai) {
         this.logger.warn('OpenAI API key not configured, skipping AI suggestion');
@@ -103,7 +103,7 @@ export class AiService {
         Analyze the following expense description and suggest the most appropriate category.
         
         Expense Description: "${description}"
-        Amount: $${amount}
+        Amount: ${amount} ${currency}
         
         Categories available:
         - Travel (flights, hotels, transportation, business trips)
@@ -152,7 +152,7 @@ export class AiService {
     }
   }
 
-  async detectDuplicateExpense(description: string, amount: number, teamId: string, existingExpenses: any[]): Promise<{ success: boolean; isDuplicate?: boolean; confidence?: number; reason?: string; error?: string }> {
+  async detectDuplicateExpense(description: string, amount: number, currency: string, teamId: string, existingExpenses: any[]): Promise<{ success: boolean; isDuplicate?: boolean; confidence?: number; reason?: string; error?: string }> {
     try {
       if (!this.openai) {
         this.logger.warn('OpenAI API key not configured, skipping duplicate detection');
@@ -168,11 +168,11 @@ export class AiService {
         
         New Expense:
         - Description: "${description}"
-        - Amount: $${amount}
+        - Amount: ${amount} ${currency}
         
         Existing Expenses:
         ${existingExpenses.map(exp => 
-          `- Description: "${exp.description}" | Amount: $${exp.amount} | Date: ${new Date(exp.date).toLocaleDateString()}`
+          `- Description: "${exp.description}" | Amount: ${exp.amount} ${exp.currency ?? DEFAULT_CURRENCY} | Date: ${new Date(exp.date).toLocaleDateString()}`
         ).join('\n')}
         
         Consider:
@@ -225,7 +225,7 @@ export class AiService {
     }
   }
 
-  async generateSpendingInsights(teamId: string, expenses: any[], budget: number): Promise<{ success: boolean; insights?: any; error?: string }> {
+  async generateSpendingInsights(teamId: string, expenses: any[], budget: number, currency: string): Promise<{ success: boolean; insights?: any; error?: string }> {
     try {
       if (!this.openai) {
         this.logger.warn('OpenAI API key not configured, skipping insights generation');
@@ -245,18 +245,19 @@ export class AiService {
       const prompt = `
         Analyze the spending patterns for this team and provide insights.
         
-        Team Budget: $${budget}
-        Total Spent: $${totalSpent}
+        Currency: ${currency}
+        Team Budget: ${budget}
+        Total Spent: ${totalSpent}
         Budget Utilization: ${((totalSpent / budget) * 100).toFixed(1)}%
         
         Category Breakdown:
         ${Object.entries(categoryBreakdown).map(([cat, amount]) => 
-          `- ${cat}: $${amount} (${(((amount as number) / totalSpent) * 100).toFixed(1)}%)`
+          `- ${cat}: ${amount} (${(((amount as number) / totalSpent) * 100).toFixed(1)}%)`
         ).join('\n')}
         
         Recent Expenses (last 10):
         ${expenses.slice(0, 10).map(exp => 
-          `- $${exp.amount} - ${exp.description} (${exp.category}) - ${new Date(exp.date).toLocaleDateString()}`
+          `- ${exp.amount} - ${exp.description} (${exp.category}) - ${new Date(exp.date).toLocaleDateString()}`
         ).join('\n')}
         
         Provide insights in JSON format:
@@ -308,7 +309,7 @@ export class AiService {
     }
   }
 
-  async forecastBudgetExceedance(teamId: string, expenses: any[], budget: number, currentSpending: number): Promise<{ success: boolean; forecast?: any; error?: string }> {
+  async forecastBudgetExceedance(teamId: string, expenses: any[], budget: number, currentSpending: number, currency: string): Promise<{ success: boolean; forecast?: any; error?: string }> {
     try {
       if (!this.openai) {
         this.logger.warn('OpenAI API key not configured, skipping forecast generation');
@@ -326,22 +327,23 @@ export class AiService {
       const prompt = `
         Based on historical spending data, predict if this team will exceed their budget.
         
-        Team Budget: $${budget}
-        Current Spending: $${currentSpending}
-        Remaining Budget: $${budget - currentSpending}
+        Currency: ${currency}
+        Team Budget: ${budget}
+        Current Spending: ${currentSpending}
+        Remaining Budget: ${budget - currentSpending}
         
         Monthly Spending History:
         ${monthlySpending.map(month => 
-          `- ${month.month}: $${month.amount}`
+          `- ${month.month}: ${month.amount}`
         ).join('\n')}
         
-        Average Monthly Spending: $${averageMonthlySpending.toFixed(2)}
+        Average Monthly Spending: ${averageMonthlySpending.toFixed(2)}
         
         Provide forecast in JSON format:
         {
           "willExceedBudget": true/false,
           "confidence": 0.0-1.0,
-          "predictedOverspend": amount_in_dollars,
+          "predictedOverspend": amount_in_${currency},
           "monthsToExceed": number_of_months,
           "recommendations": ["recommendation1", "recommendation2"]
         }
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { Resend } from 'resend';
 import { Team } from '../../domains/team/schemas/team.schema';
 import { Expense } from '../../domains/expense/schemas/expense.schema';
+import { formatMoney } from '@shared/lib';
 
 @Injectable()
 export class EmailService {
@@ -80,17 +81,17 @@ export class EmailService {
         return { success: false, error: 'Email service not configured' };
       }
 
-      const { name, budget, currentSpending, members } = team;
+      const { name, budget, currentSpending, members, baseCurrency } = team;
       const utilization = (currentSpending / budget) * 100;
       
       let subject: string, htmlContent: string;
       
       if (alertType === 'eighty_percent') {
         subject = `Budget Alert: ${name} has reached 80% of budget`;
-        htmlContent = this.generateEightyPercentAlertHTML(name, budget, currentSpending, utilization);
+        htmlContent = this.generateEightyPercentAlertHTML(name, budget, currentSpending, utilization, baseCurrency);
       } else {
         subject = `URGENT: ${name} has exceeded budget limit`;
-        htmlContent = this.generateHundredPercentAlertHTML(name, budget, currentSpending, utilization);
+        htmlContent = this.generateHundredPercentAlertHTML(name, budget, currentSpending, utilization, baseCurrency);
       }
 
       const emails = members.map(member => member.email);
@@ -119,10 +120,10 @@ export class EmailService {
         return { success: false, error: 'Email service not configured' };
       }
 
-      const { submittedBy, amount, description } = expense;
+      const { submittedBy, amount, currency, description } = expense;
       const subject = approved 
-        ? `Expense Approved: $${amount} - ${description}`
-        : `Expense Rejected: $${amount} - ${description}`;
+        ? `Expense Approved: ${formatMoney(amount, currency)} - ${description}`
+        : `Expense Rejected: ${formatMoney(amount, currency)} - ${description}`;
       
       const htmlContent = this.generateExpenseNotificationHTML(expense, approved);
       
@@ -143,7 +144,183 @@ export class EmailService {
     }
   }
 
-  private generateEightyPercentAlertHTML(teamName: string, budget: number, currentSpending: number, utilization: number): string {
+  async sendTeamInvitation(invitation: { email: string; name?: string; role: string; expiresAt: Date }, teamName: string, inviterName: string, acceptUrl: string): Promise<{ success: boolean; result?: any; error?: string }> {
+    try {
+      if (!this.resend) {
+        this.logger.warn('Resend API key not configured, skipping email');
+        return { success: false, error: 'Email service not configured' };
+      }
+
+      const subject = `${inviterName} invited you to join ${teamName}`;
+      const htmlContent = this.generateTeamInvitationHTML(invitation, teamName, inviterName, acceptUrl);
+
+      const result = await this.queueRequest(() =>
+        this.resend.emails.send({
+          from: this.from,
+          to: [invitation.email],
+          subject,
+          html: htmlContent,
+        })
+      );
+
+      this.logger.log('Team invitation email sent successfully');
+      return { success: true, result };
+    } catch (error) {
+      this.logger.error('Error sending team invitation email:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async sendAccountClaim(recipient: { name: string; email: string }, claimUrl: string, expiresInHours: number): Promise<{ success: boolean; result?: any; error?: string }> {
+    try {
+      if (!this.resend) {
+        this.logger.warn('Resend API key not configured, skipping email');
+        return { success: false, error: 'Email service not configured' };
+      }
+
+      const subject = 'Set the password of your Expense Management account';
+      const htmlContent = this.generateAccountClaimHTML(recipient, claimUrl, expiresInHours);
+
+      const result = await this.queueRequest(() =>
+        this.resend.emails.send({
+          from: this.from,
+          to: [recipient.email],
+          subject,
+          html: htmlContent,
+        })
+      );
+
+      this.logger.log('Account claim email sent successfully');
+      return { success: true, result };
+    } catch (error) {
+      this.logger.error('Error sending account claim email:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async sendCommentMention(recipient: { name: string; email: string }, authorName: string, expense: Expense, comment: string, expenseUrl: string): Promise<{ success: boolean; result?: any; error?: string }> {
+    try {
+      if (!this.resend) {
+        this.logger.warn('Resend API key not configured, skipping email');
+        return { success: false, error: 'Email service not configured' };
+      }
+
+      const subject = `${authorName} mentioned you on expense: ${expense.description}`;
+      const htmlContent = this.generateCommentMentionHTML(recipient, authorName, expense, comment, expenseUrl);
+
+      const result = await this.queueRequest(() =>
+        this.resend.emails.send({
+          from: this.from,
+          to: [recipient.email],
+          subject,
+          html: htmlContent,
+        })
+      );
+
+      this.logger.log('Comment mention email sent successfully');
+      return { success: true, result };
+    } catch (error) {
+      this.logger.error('Error sending comment mention email:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async sendInformationRequest(expense: Expense, requesterName: string, question: string, expenseUrl: string): Promise<{ success: boolean; result?: any; error?: string }> {
+    try {
+      if (!this.resend) {
+        this.logger.warn('Resend API key not configured, skipping email');
+        return { success: false, error: 'Email service not configured' };
+      }
+
+      const subject = `More information needed: ${expense.description}`;
+      const htmlContent = this.generateInformationExchangeHTML(
+        'More Information Needed',
+        expense.submittedBy.name,
+        `<strong>${this.escapeHtml(requesterName)}</strong> needs more information before deciding on your expense <strong>${this.escapeHtml(expense.description)}</strong> (${formatMoney(expense.amount, expense.currency)}):`,
+        question,
+        'Answer and resubmit',
+        expenseUrl,
+      );
+
+      const result = await this.queueRequest(() =>
+        this.resend.emails.send({
+          from: this.from,
+          to: [expense.submittedBy.email],
+          subject,
+          html: htmlContent,
+        })
+      );
+
+      this.logger.log('Information request email sent successfully');
+      return { success: true, result };
+    } catch (error) {
+      this.logger.error('Error sending information request email:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async sendInformationProvided(expense: Expense, requester: { name: string; email: string }, response: string | undefined, expenseUrl: string): Promise<{ success: boolean; result?: any; error?: string }> {
+    try {
+      if (!this.resend) {
+        this.logger.warn('Resend API key not configured, skipping email');
+        return { success: false, error: 'Email service not configured' };
+      }
+
+      const subject = `Expense resubmitted: ${expense.description}`;
+      const htmlContent = this.generateInformationExchangeHTML(
+        'Expense Resubmitted',
+        requester.name,
+        `<strong>${this.escapeHtml(expense.submittedBy.name)}</strong> answered your question and resubmitted the expense <strong>${this.escapeHtml(expense.description)}</strong> (${formatMoney(expense.amount, expense.currency)}).`,
+        response,
+        'Review expense',
+        expenseUrl,
+      );
+
+      const result = await this.queueRequest(() =>
+        this.resend.emails.send({
+          from: this.from,
+          to: [requester.email],
+          subject,
+          html: htmlContent,
+        })
+      );
+
+      this.logger.log('Information provided email sent successfully');
+      return { success: true, result };
+    } catch (error) {
+      this.logger.error('Error sending information provided email:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async sendPayoutNotification(payee: { name: string; email: string }, amount: number, currency: string, expenseCount: number, reference: string): Promise<{ success: boolean; result?: any; error?: string }> {
+    try {
+      if (!this.resend) {
+        this.logger.warn('Resend API key not configured, skipping email');
+        return { success: false, error: 'Email service not configured' };
+      }
+
+      const subject = `Your reimbursement of ${formatMoney(amount, currency)} is on its way`;
+      const htmlContent = this.generatePayoutNotificationHTML(payee, amount, currency, expenseCount, reference);
+
+      const result = await this.queueRequest(() =>
+        this.resend.emails.send({
+          from: this.from,
+          to: [payee.email],
+          subject,
+          html: htmlContent,
+        })
+      );
+
+      this.logger.log('Payout notification email sent successfully');
+      return { success: true, result };
+    } catch (error) {
+      this.logger.error('Error sending payout notification email:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  private generateEightyPercentAlertHTML(teamName: string, budget: number, currentSpending: number, utilization: number, currency: string): string {
     return `
       <!DOCTYPE html>
       <html>
@@ -170,10 +347,10 @@ export class EmailService {
             </div>
             <div class="stats">
               <h3>Budget Status:</h3>
-              <p><strong>Total Budget:</strong> $${budget.toLocaleString()}</p>
-              <p><strong>Current Spending:</strong> $${currentSpending.toLocaleString()}</p>
+              <p><strong>Total Budget:</strong> ${formatMoney(budget, currency)}</p>
+              <p><strong>Current Spending:</strong> ${formatMoney(currentSpending, currency)}</p>
               <p><strong>Utilization:</strong> ${utilization.toFixed(1)}%</p>
-              <p><strong>Remaining:</strong> $${(budget - currentSpending).toLocaleString()}</p>
+              <p><strong>Remaining:</strong> ${formatMoney(budget - currentSpending, currency)}</p>
             </div>
             <p>Please review your expenses and consider budget constraints for future spending.</p>
           </div>
@@ -186,7 +363,7 @@ export class EmailService {
     `;
   }
 
-  private generateHundredPercentAlertHTML(teamName: string, budget: number, currentSpending: number, utilization: number): string {
+  private generateHundredPercentAlertHTML(teamName: string, budget: number, currentSpending: number, utilization: number, currency: string): string {
     return `
       <!DOCTYPE html>
       <html>
@@ -213,10 +390,10 @@ export class EmailService {
             </div>
             <div class="stats">
               <h3>Budget Status:</h3>
-              <p><strong>Total Budget:</strong> $${budget.toLocaleString()}</p>
-              <p><strong>Current Spending:</strong> $${currentSpending.toLocaleString()}</p>
+              <p><strong>Total Budget:</strong> ${formatMoney(budget, currency)}</p>
+              <p><strong>Current Spending:</strong> ${formatMoney(currentSpending, currency)}</p>
               <p><strong>Utilization:</strong> ${utilization.toFixed(1)}%</p>
-              <p><strong>Over Budget By:</strong> $${(currentSpending - budget).toLocaleString()}</p>
+              <p><strong>Over Budget By:</strong> ${formatMoney(currentSpending - budget, currency)}</p>
             </div>
             <p><strong>Immediate action required:</strong> Please review all pending expenses and contact management for budget approval.</p>
           </div>
@@ -229,8 +406,194 @@ export class EmailService {
     `;
   }
 
+  private generateTeamInvitationHTML(invitation: { name?: string; role: string; expiresAt: Date }, teamName: string, inviterName: string, acceptUrl: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2196f3; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .button { display: inline-block; background-color: #2196f3; color: white; padding: 12px 24px; border-radius: 5px; text-decoration: none; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Team Invitation</h1>
+          </div>
+          <div class="content">
+            <h2>Hello${invitation.name ? ` ${invitation.name}` : ''},</h2>
+            <p><strong>${inviterName}</strong> invited you to join <strong>${teamName}</strong> as ${invitation.role === 'admin' ? 'an admin' : 'a member'}.</p>
+            <a class="button" href="${acceptUrl}">Respond to invitation</a>
+            <p>This invitation expires on ${new Date(invitation.expiresAt).toLocaleDateString()}. If you were not expecting it, you can ignore this email.</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from the Expense Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateAccountClaimHTML(recipient: { name: string }, claimUrl: string, expiresInHours: number): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2196f3; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .button { display: inline-block; background-color: #2196f3; color: white; padding: 12px 24px; border-radius: 5px; text-decoration: none; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Your Account</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${recipient.name},</h2>
+            <p>You were added to a team, so an account already exists for this address. Set its password to start using it.</p>
+            <a class="button" href="${claimUrl}">Set your password</a>
+            <p>This link expires in ${expiresInHours} hours. If you did not ask for it, you can ignore this email.</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from the Expense Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateCommentMentionHTML(recipient: { name: string }, authorName: string, expense: Expense, comment: string, expenseUrl: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2196f3; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .comment { background-color: white; border-left: 4px solid #2196f3; padding: 15px; margin: 20px 0; white-space: pre-wrap; }
+          .button { display: inline-block; background-color: #2196f3; color: white; padding: 12px 24px; border-radius: 5px; text-decoration: none; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>New Mention</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${this.escapeHtml(recipient.name)},</h2>
+            <p><strong>${this.escapeHtml(authorName)}</strong> mentioned you on the expense <strong>${this.escapeHtml(expense.description)}</strong> (${formatMoney(expense.amount, expense.currency)}).</p>
+            <div class="comment">${this.escapeHtml(comment)}</div>
+            <a class="button" href="${expenseUrl}">View discussion</a>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from the Expense Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateInformationExchangeHTML(title: string, recipientName: string, intro: string, message: string | undefined, buttonLabel: string, expenseUrl: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #ff9800; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .message { background-color: white; border-left: 4px solid #ff9800; padding: 15px; margin: 20px 0; white-space: pre-wrap; }
+          .button { display: inline-block; background-color: #ff9800; color: white; padding: 12px 24px; border-radius: 5px; text-decoration: none; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${title}</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${this.escapeHtml(recipientName)},</h2>
+            <p>${intro}</p>
+            ${message ? `<div class="message">${this.escapeHtml(message)}</div>` : ''}
+            <a class="button" href="${expenseUrl}">${buttonLabel}</a>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from the Expense Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generatePayoutNotificationHTML(payee: { name: string }, amount: number, currency: string, expenseCount: number, reference: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #4caf50; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .stats { background-color: white; padding: 15px; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Reimbursement On Its Way</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${this.escapeHtml(payee.name)},</h2>
+            <p>Your approved expenses have been sent for payment.</p>
+            <div class="stats">
+              <p><strong>Amount:</strong> ${formatMoney(amount, currency)}</p>
+              <p><strong>Expenses:</strong> ${expenseCount}</p>
+              <p><strong>Transfer reference:</strong> ${reference}</p>
+            </div>
+            <p>The transfer usually arrives within a few business days.</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from the Expense Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  // User-written text must not be able to inject markup into emails
+  private escapeHtml(text: string): string {
+    return String(text ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
   private generateExpenseNotificationHTML(expense: Expense, approved: boolean): string {
-    const { amount, description, category, date, submittedBy } = expense;
+    const { amount, currency, description, category, date, submittedBy } = expense;
     const statusColor = approved ? '#4caf50' : '#f44336';
     const statusText = approved ? 'Approved' : 'Rejected';
     
@@ -257,7 +620,7 @@ export class EmailService {
             <p>Your expense has been <strong>${statusText.toLowerCase()}</strong>.</p>
             <div class="expense-details">
               <h3>Expense Details:</h3>
-              <p><strong>Amount:</strong> $${amount.toLocaleString()}</p>
+              <p><strong>Amount:</strong> ${formatMoney(amount, currency)}</p>
               <p><strong>Description:</strong> ${description}</p>
               <p><strong>Category:</strong> ${category}</p>
               <p><strong>Date:</strong> ${new Date(date).toLocaleDateString()}</p>